@@ -0,0 +1,13 @@
+import { advanceExpiredGames } from "@/lib/gameStore";
+
+// Scheduled sweep (see vercel.json) that ends expired rounds and auto-advances results screens
+// The per-minute schedule needs a paid Vercel plan; Hobby only runs crons once a day
+export async function GET(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const result = await advanceExpiredGames();
+  return Response.json(result);
+}
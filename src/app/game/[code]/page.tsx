@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useState, useSyncExternalStore } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import { trpc } from "@/lib/trpc";
@@ -9,18 +9,54 @@ import { Lobby } from "@/components/Lobby";
 import { GamePlay } from "@/components/GamePlay";
 import { RoundResults } from "@/components/RoundResults";
 import { FinalResults } from "@/components/FinalResults";
-import type { GameState } from "@/lib/types";
+import { RejoinForm } from "@/components/RejoinForm";
+import type { GameState, SessionInfo } from "@/lib/types";
+
+// Shown to a kicked player; clears their session and sends them home
+function RemovedNotice({ code }: { code: string }) {
+  const router = useRouter();
+
+  useEffect(() => {
+    sessionStorage.removeItem(`game_${code}`);
+    const timeout = setTimeout(() => router.push("/"), 5000);
+    return () => clearTimeout(timeout);
+  }, [code, router]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center ghibli-bg p-4">
+      <motion.div
+        className="ghibli-card p-8 text-center max-w-md"
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+      >
+        <div className="text-5xl mb-4">🍂</div>
+        <h2 className="text-xl font-semibold mb-2">You were removed from this game</h2>
+        <p className="text-muted-foreground mb-6">
+          The host removed you from game {code}. Taking you back to the pond...
+        </p>
+        <motion.button
+          onClick={() => router.push("/")}
+          className="px-6 py-3 bg-forest text-white rounded-xl font-medium ghibli-button"
+          whileHover={{ y: -2 }}
+          whileTap={{ scale: 0.98 }}
+        >
+          Return to Pond
+        </motion.button>
+      </motion.div>
+    </div>
+  );
+}
+
+const subscribeToNothing = () => () => {};
 
 export default function GamePage() {
   const params = useParams();
   const router = useRouter();
   const code = (params.code as string).toUpperCase();
 
-  const [playerInfo] = useState<{
-    playerId: string;
-    isHost: boolean;
-    secretToken: string;
-  } | null>(() => {
+  // The server has no session, so nothing session-specific renders until the client has hydrated
+  const hydrated = useSyncExternalStore(subscribeToNothing, () => true, () => false);
+  const [playerInfo, setPlayerInfo] = useState<SessionInfo | null>(() => {
     // Initialize from sessionStorage on client
     if (typeof window !== "undefined") {
       const stored = sessionStorage.getItem(`game_${code}`);
@@ -30,13 +66,8 @@ export default function GamePage() {
     }
     return null;
   });
-
-  useEffect(() => {
-    // Redirect if no player info found
-    if (playerInfo === null) {
-      router.push("/");
-    }
-  }, [playerInfo, router]);
+  // Late joiners get their PIN during play, until they put it away
+  const [pinDismissed, setPinDismissed] = useState(false);
 
   const { data: initialState, isLoading, error } = trpc.game.getState.useQuery(
     { code },
@@ -59,7 +90,7 @@ export default function GamePage() {
   };
 
   // Loading states with Ghibli styling
-  if (!playerInfo || isLoading) {
+  if (!hydrated || isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center ghibli-bg">
         <motion.div
@@ -75,13 +106,22 @@ export default function GamePage() {
             🌊
           </motion.div>
           <p className="text-lg text-muted-foreground">
-            {!playerInfo ? "Preparing the pond..." : "Loading game..."}
+            {!hydrated ? "Preparing the pond..." : "Loading game..."}
           </p>
         </motion.div>
       </div>
     );
   }
 
+  // No session in this tab (closed tab, new device) - recover it with name + PIN
+  if (!playerInfo) {
+    return (
+      <div className="min-h-screen flex items-center justify-center ghibli-bg p-4">
+        <RejoinForm code={code} onRejoined={setPlayerInfo} />
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="min-h-screen flex items-center justify-center flex-col gap-6 ghibli-bg p-4">
@@ -108,6 +148,14 @@ export default function GamePage() {
 
   const currentState = gameState || initialState;
 
+  // The host kicked or banned this player - their row is gone from the roster
+  const wasRemoved =
+    !!currentState && !currentState.players.some((p) => p.id === playerInfo.playerId);
+
+  if (wasRemoved) {
+    return <RemovedNotice code={code} />;
+  }
+
   if (!currentState) {
     return (
       <div className="min-h-screen flex items-center justify-center ghibli-bg">
@@ -169,7 +217,7 @@ export default function GamePage() {
               gameState={currentState}
               playerId={playerInfo.playerId}
               isHost={playerInfo.isHost}
-              secretToken={playerInfo.secretToken}
+              recoveryPin={playerInfo.recoveryPin}
               onGameUpdate={handleGameUpdate}
             />
           </motion.div>
@@ -186,7 +234,10 @@ export default function GamePage() {
               gameState={currentState}
               playerId={playerInfo.playerId}
               isHost={playerInfo.isHost}
-              secretToken={playerInfo.secretToken}
+              recoveryPin={
+                playerInfo.joinedLate && !pinDismissed ? playerInfo.recoveryPin : undefined
+              }
+              onDismissRecoveryPin={() => setPinDismissed(true)}
               onGameUpdate={handleGameUpdate}
             />
           </motion.div>
@@ -203,7 +254,6 @@ export default function GamePage() {
               gameState={currentState}
               playerId={playerInfo.playerId}
               isHost={playerInfo.isHost}
-              secretToken={playerInfo.secretToken}
               onGameUpdate={handleGameUpdate}
             />
           </motion.div>
@@ -0,0 +1,85 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { motion } from "framer-motion";
+import { trpc } from "@/lib/trpc";
+import { useGameState } from "@/hooks/useGameState";
+import { PresenterView } from "@/components/PresenterView";
+import { HostControls } from "@/components/HostControls";
+import type { GameState, SessionInfo } from "@/lib/types";
+
+// Projector view: anyone with the code can open it, and it only reads public state.
+// If this tab holds the host's session, the host controls float in a corner.
+export default function PresentPage() {
+  const params = useParams();
+  const code = (params.code as string).toUpperCase();
+
+  const [session] = useState<SessionInfo | null>(() => {
+    if (typeof window !== "undefined") {
+      const stored = sessionStorage.getItem(`game_${code}`);
+      if (stored) {
+        return JSON.parse(stored);
+      }
+    }
+    return null;
+  });
+
+  const { data: initialState, isLoading, error } = trpc.game.getState.useQuery(
+    { code },
+    { refetchInterval: 2000 }
+  );
+
+  const { gameState, setGameState } = useGameState(code, initialState);
+
+  useEffect(() => {
+    if (initialState && !gameState) {
+      setGameState(initialState);
+    }
+  }, [initialState, gameState, setGameState]);
+
+  const handleGameUpdate = (newState: GameState) => {
+    setGameState(newState);
+  };
+
+  const currentState = gameState || initialState;
+
+  if (isLoading || error || !currentState) {
+    return (
+      <div className="min-h-screen flex items-center justify-center ghibli-bg">
+        <motion.div
+          className="ghibli-card p-8 text-center"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+        >
+          <div className="text-5xl mb-4">{isLoading ? "🌊" : "🔍"}</div>
+          <p className="text-lg text-muted-foreground">
+            {isLoading ? "Loading game..." : (error?.message ?? "Game not found")}
+          </p>
+        </motion.div>
+      </div>
+    );
+  }
+
+  const joinUrl = `${window.location.origin}/?join=${currentState.code}`;
+
+  return (
+    <main className="min-h-screen p-6 md:p-10 ghibli-bg">
+      <PresenterView
+        gameState={currentState}
+        joinUrl={joinUrl}
+        onGameUpdate={handleGameUpdate}
+      />
+
+      {session?.isHost && (
+        <div className="fixed bottom-4 right-4 w-80 z-20">
+          <HostControls
+            gameState={currentState}
+            onGameUpdate={handleGameUpdate}
+            showPresenterLink={false}
+          />
+        </div>
+      )}
+    </main>
+  );
+}
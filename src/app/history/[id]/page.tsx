@@ -0,0 +1,20 @@
+import { HomeDecorations } from "@/components/HomeDecorations";
+import { GameReplay } from "@/components/GameReplay";
+
+export default async function HistoryReplayPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+
+  return (
+    <main className="min-h-screen flex flex-col items-center p-4 md:p-8 ghibli-bg relative overflow-hidden">
+      {/* Decorative floating elements - client component for animations */}
+      <HomeDecorations />
+
+      {/* Read-only replay - client component */}
+      <GameReplay id={id} />
+    </main>
+  );
+}
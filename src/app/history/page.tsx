@@ -0,0 +1,14 @@
+import { HomeDecorations } from "@/components/HomeDecorations";
+import { HistoryDashboard } from "@/components/HistoryDashboard";
+
+export default function HistoryPage() {
+  return (
+    <main className="min-h-screen flex flex-col items-center p-4 md:p-8 ghibli-bg relative overflow-hidden">
+      {/* Decorative floating elements - client component for animations */}
+      <HomeDecorations />
+
+      {/* Teacher dashboard - client component */}
+      <HistoryDashboard />
+    </main>
+  );
+}
@@ -0,0 +1,14 @@
+import { HomeDecorations } from "@/components/HomeDecorations";
+import { ScenarioPackForm } from "@/components/ScenarioPackForm";
+
+export default function PacksPage() {
+  return (
+    <main className="min-h-screen flex flex-col items-center p-4 md:p-8 ghibli-bg relative overflow-hidden">
+      {/* Decorative floating elements - client component for animations */}
+      <HomeDecorations />
+
+      {/* Pack authoring - client component */}
+      <ScenarioPackForm />
+    </main>
+  );
+}
@@ -0,0 +1,14 @@
+import { HomeDecorations } from "@/components/HomeDecorations";
+import { PracticeGame } from "@/components/PracticeGame";
+
+export default function PracticePage() {
+  return (
+    <main className="min-h-screen flex flex-col items-center p-4 md:p-8 ghibli-bg relative overflow-hidden">
+      {/* Decorative floating elements - client component for animations */}
+      <HomeDecorations />
+
+      {/* Solo practice - runs entirely in the browser */}
+      <PracticeGame />
+    </main>
+  );
+}
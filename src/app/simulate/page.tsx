@@ -0,0 +1,14 @@
+import { HomeDecorations } from "@/components/HomeDecorations";
+import { StrategySimulator } from "@/components/StrategySimulator";
+
+export default function SimulatePage() {
+  return (
+    <main className="min-h-screen flex flex-col items-center p-4 md:p-8 ghibli-bg relative overflow-hidden">
+      {/* Decorative floating elements - client component for animations */}
+      <HomeDecorations />
+
+      {/* Monte Carlo simulator - client component */}
+      <StrategySimulator />
+    </main>
+  );
+}
@@ -1,11 +1,13 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { motion, useReducedMotion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { trpc } from "@/lib/trpc";
+import type { LateJoinMode, TeamDecision, TimerMode } from "@/lib/types";
 
 const ROUND_OPTIONS = [
   { value: 5, label: "Quick (5 rounds)" },
@@ -13,19 +15,75 @@ const ROUND_OPTIONS = [
   { value: 15, label: "Extended (15 rounds)" },
 ];
 
+const CAPACITY_OPTIONS: Array<{ value: number | null; short: string; label: string }> = [
+  { value: null, short: "Off", label: "Unlimited growth" },
+  { value: 1000, short: "1K", label: "Small pond - growth slows near 1,000" },
+  { value: 5000, short: "5K", label: "Lake - growth slows near 5,000" },
+  { value: 20000, short: "20K", label: "Sea - growth slows near 20,000" },
+];
+
+const DURATION_OPTIONS = [15, 30, 60, 90];
+
+const TIMER_MODE_OPTIONS: Array<{ value: TimerMode; short: string; label: string }> = [
+  { value: "fixed", short: "Timed", label: "Each round ends when the timer runs out" },
+  { value: "all_chosen", short: "Early end", label: "Ends as soon as everyone has chosen, or when time runs out" },
+  { value: "none", short: "No timer", label: "You end each round yourself" },
+];
+
+const RESULTS_DELAY_OPTIONS: Array<{ value: number | null; short: string; label: string }> = [
+  { value: null, short: "Host", label: "You move on from each results screen" },
+  { value: 10, short: "10s", label: "Next round starts 10 seconds after results" },
+  { value: 20, short: "20s", label: "Next round starts 20 seconds after results" },
+];
+
+const LATE_JOIN_OPTIONS: Array<{ value: LateJoinMode; short: string; label: string }> = [
+  { value: "off", short: "Closed", label: "Nobody can join once the game starts" },
+  { value: "initial", short: "Fresh", label: "Late arrivals start with 100 amoebas" },
+  { value: "median", short: "Median", label: "Late arrivals start with the median colony's population" },
+];
+
+const TEAM_OPTIONS: Array<{ value: number | null; short: string; label: string }> = [
+  { value: null, short: "Solo", label: "Every player grows their own colony" },
+  { value: 2, short: "2", label: "Players pool into 2 team colonies" },
+  { value: 3, short: "3", label: "Players pool into 3 team colonies" },
+  { value: 4, short: "4", label: "Players pool into 4 team colonies" },
+];
+
+const TEAM_DECISION_OPTIONS: Array<{ value: TeamDecision; short: string; label: string }> = [
+  { value: "majority", short: "Majority vote", label: "Each team goes with its most popular pick" },
+  { value: "captain", short: "Rotating captain", label: "One member decides each round, taking turns" },
+];
+
 export function CreateGameForm() {
   const [hostName, setHostName] = useState("");
   const [totalRounds, setTotalRounds] = useState(10);
+  const [scenarioPackId, setScenarioPackId] = useState<string | null>(null);
+  const [carryingCapacity, setCarryingCapacity] = useState<number | null>(null);
+  const [timerMode, setTimerMode] = useState<TimerMode>("fixed");
+  const [roundDuration, setRoundDuration] = useState(30);
+  const [resultsDelay, setResultsDelay] = useState<number | null>(null);
+  const [lateJoin, setLateJoin] = useState<LateJoinMode>("off");
+  const [allowSpectators, setAllowSpectators] = useState(false);
+  const [teamCount, setTeamCount] = useState<number | null>(null);
+  const [teamDecision, setTeamDecision] = useState<TeamDecision>("majority");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
   const shouldReduceMotion = useReducedMotion();
 
+  const { data: packs } = trpc.pack.list.useQuery();
+  const selectedPack = packs?.find((p) => p.id === scenarioPackId);
+
   const createGame = trpc.game.create.useMutation({
     onSuccess: (data) => {
       sessionStorage.setItem(
         `game_${data.code}`,
-        JSON.stringify({ playerId: data.hostId, isHost: true, secretToken: data.secretToken })
+        JSON.stringify({
+          playerId: data.hostId,
+          isHost: true,
+          secretToken: data.secretToken,
+          recoveryPin: data.recoveryPin,
+        })
       );
       router.push(`/game/${data.code}`);
     },
@@ -40,7 +98,19 @@ export function CreateGameForm() {
     setError(null);
     if (!hostName.trim()) return;
     setIsLoading(true);
-    createGame.mutate({ hostName: hostName.trim(), totalRounds });
+    createGame.mutate({
+      hostName: hostName.trim(),
+      totalRounds,
+      scenarioPackId,
+      carryingCapacity,
+      timerMode,
+      roundDuration,
+      resultsDelay,
+      lateJoin,
+      allowSpectators,
+      teamCount,
+      teamDecision,
+    });
   };
 
   const motionProps = shouldReduceMotion
@@ -129,6 +199,241 @@ export function CreateGameForm() {
           </p>
         </fieldset>
 
+        <fieldset>
+          <legend className="block text-sm font-medium text-muted-foreground mb-2 text-center">
+            Round Timer
+          </legend>
+          <div className="flex gap-2" role="radiogroup" aria-label="Timer mode">
+            {TIMER_MODE_OPTIONS.map((option) => (
+              <motion.button
+                key={option.value}
+                type="button"
+                role="radio"
+                aria-checked={timerMode === option.value}
+                onClick={() => setTimerMode(option.value)}
+                className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all border-2 ${
+                  timerMode === option.value
+                    ? "bg-forest/10 border-forest text-forest"
+                    : "border-muted hover:border-forest/30 text-muted-foreground"
+                }`}
+                {...buttonMotionProps}
+                disabled={isLoading}
+              >
+                {option.short}
+              </motion.button>
+            ))}
+          </div>
+          {timerMode !== "none" && (
+            <div className="flex gap-2 mt-2" role="radiogroup" aria-label="Round length">
+              {DURATION_OPTIONS.map((seconds) => (
+                <motion.button
+                  key={seconds}
+                  type="button"
+                  role="radio"
+                  aria-checked={roundDuration === seconds}
+                  onClick={() => setRoundDuration(seconds)}
+                  className={`flex-1 py-1 px-3 rounded-lg text-sm font-medium transition-all border-2 ${
+                    roundDuration === seconds
+                      ? "bg-pond/10 border-pond text-pond"
+                      : "border-muted hover:border-pond/30 text-muted-foreground"
+                  }`}
+                  {...buttonMotionProps}
+                  disabled={isLoading}
+                >
+                  {seconds}s
+                </motion.button>
+              ))}
+            </div>
+          )}
+          <p className="text-xs text-center text-muted-foreground mt-1">
+            {TIMER_MODE_OPTIONS.find((o) => o.value === timerMode)?.label}
+          </p>
+        </fieldset>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-muted-foreground mb-2 text-center">
+            Auto-Advance
+          </legend>
+          <div className="flex gap-2" role="radiogroup" aria-label="Auto-advance after results">
+            {RESULTS_DELAY_OPTIONS.map((option) => (
+              <motion.button
+                key={option.short}
+                type="button"
+                role="radio"
+                aria-checked={resultsDelay === option.value}
+                onClick={() => setResultsDelay(option.value)}
+                className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all border-2 ${
+                  resultsDelay === option.value
+                    ? "bg-forest/10 border-forest text-forest"
+                    : "border-muted hover:border-forest/30 text-muted-foreground"
+                }`}
+                {...buttonMotionProps}
+                disabled={isLoading}
+              >
+                {option.short}
+              </motion.button>
+            ))}
+          </div>
+          <p className="text-xs text-center text-muted-foreground mt-1">
+            {RESULTS_DELAY_OPTIONS.find((o) => o.value === resultsDelay)?.label}
+          </p>
+        </fieldset>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-muted-foreground mb-2 text-center">
+            Teams
+          </legend>
+          <div className="flex gap-2" role="radiogroup" aria-label="Teams">
+            {TEAM_OPTIONS.map((option) => (
+              <motion.button
+                key={option.short}
+                type="button"
+                role="radio"
+                aria-checked={teamCount === option.value}
+                onClick={() => setTeamCount(option.value)}
+                className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all border-2 ${
+                  teamCount === option.value
+                    ? "bg-forest/10 border-forest text-forest"
+                    : "border-muted hover:border-forest/30 text-muted-foreground"
+                }`}
+                {...buttonMotionProps}
+                disabled={isLoading}
+              >
+                {option.short}
+              </motion.button>
+            ))}
+          </div>
+          <p className="text-xs text-center text-muted-foreground mt-1">
+            {TEAM_OPTIONS.find((o) => o.value === teamCount)?.label}
+          </p>
+          {teamCount !== null && (
+            <>
+              <div className="flex gap-2 mt-2" role="radiogroup" aria-label="Team decisions">
+                {TEAM_DECISION_OPTIONS.map((option) => (
+                  <motion.button
+                    key={option.value}
+                    type="button"
+                    role="radio"
+                    aria-checked={teamDecision === option.value}
+                    onClick={() => setTeamDecision(option.value)}
+                    className={`flex-1 py-1.5 px-2 rounded-lg text-xs font-medium transition-all border-2 ${
+                      teamDecision === option.value
+                        ? "bg-pond/10 border-pond text-pond"
+                        : "border-muted hover:border-pond/30 text-muted-foreground"
+                    }`}
+                    {...buttonMotionProps}
+                    disabled={isLoading}
+                  >
+                    {option.short}
+                  </motion.button>
+                ))}
+              </div>
+              <p className="text-xs text-center text-muted-foreground mt-1">
+                {TEAM_DECISION_OPTIONS.find((o) => o.value === teamDecision)?.label}
+              </p>
+            </>
+          )}
+        </fieldset>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-muted-foreground mb-2 text-center">
+            Late Arrivals
+          </legend>
+          <div className="flex gap-2" role="radiogroup" aria-label="Late arrivals">
+            {LATE_JOIN_OPTIONS.map((option) => (
+              <motion.button
+                key={option.value}
+                type="button"
+                role="radio"
+                aria-checked={lateJoin === option.value}
+                onClick={() => setLateJoin(option.value)}
+                className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all border-2 ${
+                  lateJoin === option.value
+                    ? "bg-forest/10 border-forest text-forest"
+                    : "border-muted hover:border-forest/30 text-muted-foreground"
+                }`}
+                {...buttonMotionProps}
+                disabled={isLoading}
+              >
+                {option.short}
+              </motion.button>
+            ))}
+          </div>
+          <p className="text-xs text-center text-muted-foreground mt-1">
+            {LATE_JOIN_OPTIONS.find((o) => o.value === lateJoin)?.label}
+          </p>
+          <label className="flex items-center justify-center gap-2 text-sm text-muted-foreground mt-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allowSpectators}
+              onChange={(e) => setAllowSpectators(e.target.checked)}
+              disabled={isLoading}
+              className="h-4 w-4 accent-forest"
+            />
+            👀 Allow spectators
+          </label>
+        </fieldset>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-muted-foreground mb-2 text-center">
+            Carrying Capacity
+          </legend>
+          <div className="flex gap-2" role="radiogroup" aria-label="Carrying capacity">
+            {CAPACITY_OPTIONS.map((option) => (
+              <motion.button
+                key={option.short}
+                type="button"
+                role="radio"
+                aria-checked={carryingCapacity === option.value}
+                onClick={() => setCarryingCapacity(option.value)}
+                className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium transition-all border-2 ${
+                  carryingCapacity === option.value
+                    ? "bg-forest/10 border-forest text-forest"
+                    : "border-muted hover:border-forest/30 text-muted-foreground"
+                }`}
+                {...buttonMotionProps}
+                disabled={isLoading}
+              >
+                {option.short}
+              </motion.button>
+            ))}
+          </div>
+          <p className="text-xs text-center text-muted-foreground mt-1">
+            {CAPACITY_OPTIONS.find((o) => o.value === carryingCapacity)?.label}
+          </p>
+        </fieldset>
+
+        <div>
+          <label
+            htmlFor="scenario-pack"
+            className="block text-sm font-medium text-muted-foreground mb-2 text-center"
+          >
+            Scenario Pack
+          </label>
+          <select
+            id="scenario-pack"
+            value={scenarioPackId ?? ""}
+            onChange={(e) => setScenarioPackId(e.target.value || null)}
+            disabled={isLoading}
+            className="w-full h-10 px-3 rounded-lg text-sm border-2 border-muted focus:border-forest outline-none bg-background/50"
+          >
+            <option value="">🌊 Classic Pond (built-in)</option>
+            {packs?.map((pack) => (
+              <option key={pack.id} value={pack.id}>
+                {pack.name} ({pack.scenarioCount} scenarios)
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-center text-muted-foreground mt-1">
+            {selectedPack && selectedPack.scenarioCount < totalRounds ? (
+              <>This pack has {selectedPack.scenarioCount} scenarios, so the game will have {selectedPack.scenarioCount} rounds. </>
+            ) : null}
+            <Link href="/packs" className="underline hover:text-forest">
+              Write your own pack
+            </Link>
+          </p>
+        </div>
+
         <Button
           type="submit"
           className="w-full h-12 text-lg font-medium rounded-xl ghibli-button bg-forest hover:bg-forest-dark"
@@ -144,6 +449,15 @@ export function CreateGameForm() {
             </span>
           )}
         </Button>
+        <p className="text-xs text-center text-muted-foreground">
+          <Link href="/history" className="underline hover:text-forest">
+            📚 Browse past games
+          </Link>
+          {" · "}
+          <Link href="/simulate" className="underline hover:text-forest">
+            🎲 Simulate strategies
+          </Link>
+        </p>
       </form>
     </motion.div>
   );
@@ -1,13 +1,19 @@
 "use client";
 
-import { useEffect, useCallback } from "react";
+import { useEffect, useCallback, useState } from "react";
 import { useRouter } from "next/navigation";
 import { motion, useReducedMotion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import type { GameState } from "@/lib/types";
 import { Leaderboard } from "./Leaderboard";
 import { LessonsLearned } from "./LessonsLearned";
+import { PopulationChart } from "./PopulationChart";
+import { StrategyProfile } from "./StrategyProfile";
 import { getLeaderboard } from "@/lib/gameLogic";
+import { getTeamLeaderboard } from "@/lib/teams";
+import type { ExportFormat } from "@/lib/exportResults";
+import { analyzeColony } from "@/lib/analytics";
+import { trpc } from "@/lib/trpc";
 
 interface FinalResultsProps {
 	gameState: GameState;
@@ -17,10 +23,25 @@ interface FinalResultsProps {
 export function FinalResults({ gameState, playerId }: FinalResultsProps) {
 	const router = useRouter();
 	const shouldReduceMotion = useReducedMotion();
-	const leaderboard = getLeaderboard(gameState.players);
-	const winner = leaderboard[0];
-	const playerRank = leaderboard.findIndex((l) => l.player.id === playerId) + 1;
-	const isWinner = playerId === winner?.player.id;
+	// Team games crown a team, and every member shares its rank
+	const isTeamGame = gameState.teams.length > 0;
+	const standings = isTeamGame
+		? getTeamLeaderboard(gameState.teams).map(({ team }) => team)
+		: getLeaderboard(gameState.players).map(({ player }) => player);
+	const entryId = isTeamGame
+		? gameState.players.find((p) => p.id === playerId)?.teamId
+		: playerId;
+	const winner = standings[0];
+	const playerRank = standings.findIndex((entry) => entry.id === entryId) + 1;
+	const isWinner = !!entryId && entryId === winner?.id;
+	const profileOf = (colonyId: string) =>
+		analyzeColony(
+			gameState.roundResults,
+			colonyId,
+			gameState.scenarios,
+			gameState.carryingCapacity,
+		);
+	const ownProfile = entryId ? profileOf(entryId) : null;
 
 	const fireConfetti = useCallback(async () => {
 		// Skip confetti if user prefers reduced motion
@@ -108,6 +129,30 @@ export function FinalResults({ gameState, playerId }: FinalResultsProps) {
 		fireConfetti();
 	};
 
+	// Host-only gradebook download, built on the server from the round results
+	const isHost = gameState.hostId === playerId;
+	const utils = trpc.useUtils();
+	const [exporting, setExporting] = useState<ExportFormat | null>(null);
+	const [exportError, setExportError] = useState<string | null>(null);
+
+	const handleExport = async (format: ExportFormat) => {
+		setExporting(format);
+		setExportError(null);
+		try {
+			const file = await utils.game.exportResults.fetch({ code: gameState.code, format });
+			const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+			const link = document.createElement("a");
+			link.href = url;
+			link.download = file.filename;
+			link.click();
+			URL.revokeObjectURL(url);
+		} catch (err) {
+			setExportError(err instanceof Error ? err.message : "Could not export results");
+		} finally {
+			setExporting(null);
+		}
+	};
+
 	// Animation helpers
 	const fadeInScale = shouldReduceMotion
 		? { initial: { opacity: 0 }, animate: { opacity: 1 } }
@@ -244,12 +289,12 @@ export function FinalResults({ gameState, playerId }: FinalResultsProps) {
 								{...hoverScale}
 							>
 								<h2 className="text-3xl md:text-4xl font-bold text-forest dark:text-meadow mb-2">
-									{winner.player.name}
+									{winner.name}
 								</h2>
 								<div className="flex items-center justify-center gap-2 text-xl text-muted-foreground">
 									<motion.span {...pulseAnimation}>🦠</motion.span>
 									<span className="font-bold text-forest dark:text-meadow font-mono">
-										{winner.player.population.toLocaleString()}
+										{winner.population.toLocaleString()}
 									</span>
 									<span>amoebas</span>
 								</div>
@@ -293,9 +338,53 @@ export function FinalResults({ gameState, playerId }: FinalResultsProps) {
 
 			{/* Full Leaderboard */}
 			<motion.div {...fadeInUp(0.6)}>
-				<Leaderboard players={gameState.players} currentPlayerId={playerId} />
+				<Leaderboard
+					players={gameState.players}
+					teams={gameState.teams}
+					roundResults={gameState.roundResults}
+					currentPlayerId={playerId}
+					carryingCapacity={gameState.carryingCapacity}
+				/>
 			</motion.div>
 
+			{/* Population History */}
+			<motion.div {...fadeInUp(0.65)}>
+				<PopulationChart
+					roundResults={gameState.roundResults}
+					totalRounds={gameState.totalRounds}
+					highlightId={entryId}
+					carryingCapacity={gameState.carryingCapacity}
+					hostId={gameState.hostId}
+				/>
+			</motion.div>
+
+			{/* Strategy Profile - the viewer's own decisions */}
+			{ownProfile && (
+				<motion.div {...fadeInUp(0.68)}>
+					<StrategyProfile
+						profile={ownProfile}
+						heading={isTeamGame ? "Your Team's Strategy" : "Your Strategy"}
+					/>
+				</motion.div>
+			)}
+
+			{/* Every colony's profile - host only */}
+			{isHost && standings.length > 0 && (
+				<motion.div className="ghibli-card p-6" {...fadeInUp(0.7)}>
+					<h2 className="font-semibold mb-2 flex items-center gap-2 text-lg">
+						<span>🧠</span> Class Strategy Profiles
+					</h2>
+					<div className="divide-y divide-border">
+						{standings.map((entry) => {
+							const profile = profileOf(entry.id);
+							return profile ? (
+								<StrategyProfile key={entry.id} profile={profile} name={entry.name} compact />
+							) : null;
+						})}
+					</div>
+				</motion.div>
+			)}
+
 			{/* Game Statistics */}
 			<motion.div className="ghibli-card p-6" {...fadeInUp(0.7)}>
 				<h2 className="font-semibold mb-6 flex items-center gap-2 text-lg">
@@ -310,16 +399,38 @@ export function FinalResults({ gameState, playerId }: FinalResultsProps) {
 						},
 						{
 							label: "Total Players",
-							value: gameState.players.filter((p) => !p.isHost).length,
+							value: gameState.players.filter((p) => !p.isHost && !p.isSpectator)
+								.length,
 							icon: "👥",
 						},
 						{
 							label: "Survivors",
 							value: gameState.players.filter(
-								(p) => !p.isEliminated && !p.isHost,
+								(p) => !p.isEliminated && !p.isHost && !p.isSpectator,
 							).length,
 							icon: "🌿",
 						},
+						...(gameState.carryingCapacity
+							? [
+									{
+										label: "Closest to Capacity",
+										value: `${Math.min(
+											100,
+											Math.round(
+												(Math.max(
+													...gameState.players
+														.filter((p) => !p.isHost && !p.isSpectator)
+														.map((p) => p.population),
+													0,
+												) /
+													gameState.carryingCapacity) *
+													100,
+											),
+										)}%`,
+										icon: "🫧",
+									},
+								]
+							: []),
 						{
 							label: "Highest Population",
 							value: Math.max(
@@ -349,6 +460,40 @@ export function FinalResults({ gameState, playerId }: FinalResultsProps) {
 				</div>
 			</motion.div>
 
+			{/* Gradebook Export - host only */}
+			{isHost && (
+				<motion.div className="ghibli-card p-6" {...fadeInUp(0.8)}>
+					<h2 className="font-semibold mb-2 flex items-center gap-2 text-lg">
+						<span>📥</span> Export Results
+					</h2>
+					<p className="text-sm text-muted-foreground mb-4">
+						One row per player per round, with their choice, populations, final rank and
+						the round they were eliminated - ready to paste into a gradebook.
+					</p>
+					{exportError && (
+						<div
+							role="alert"
+							className="p-3 mb-4 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-xl text-center"
+						>
+							{exportError}
+						</div>
+					)}
+					<div className="flex gap-3">
+						{(["csv", "json"] as const).map((format) => (
+							<Button
+								key={format}
+								type="button"
+								onClick={() => handleExport(format)}
+								disabled={exporting !== null}
+								className="flex-1 h-11 rounded-xl ghibli-button bg-pond hover:bg-pond/90"
+							>
+								{exporting === format ? "Preparing..." : `⬇️ Download ${format.toUpperCase()}`}
+							</Button>
+						))}
+					</div>
+				</motion.div>
+			)}
+
 			{/* Lessons Learned - Educational Content */}
 			<LessonsLearned />
 
@@ -3,22 +3,37 @@
 import { useState, useCallback } from "react";
 import { motion, AnimatePresence, useReducedMotion } from "framer-motion";
 import { Button } from "@/components/ui/button";
-import type { GameState } from "@/lib/types";
+import type { ChoiceId, GameState } from "@/lib/types";
+import { CHOICE_TONE_STYLES, getChoiceIds, getChoiceName, getChoiceTone } from "@/lib/choices";
+import { describeSharedEffect } from "@/lib/sharedEnvironment";
+import { getActivePlayerCount } from "@/lib/gameLogic";
+import { getTeamCaptain, getTeamMembers } from "@/lib/teams";
 import { ScenarioCard } from "./ScenarioCard";
 import { Timer } from "./Timer";
 import { Leaderboard } from "./Leaderboard";
+import { HostControls } from "./HostControls";
+import { TeamPicker } from "./TeamPicker";
+import { RecoveryPinCard } from "./RecoveryPinCard";
 import { trpc } from "@/lib/trpc";
 
 interface GamePlayProps {
   gameState: GameState;
   playerId: string;
   isHost: boolean;
-  secretToken: string;
+  recoveryPin?: string; // late joiners skip the lobby, so they see their PIN here
+  onDismissRecoveryPin?: () => void;
   onGameUpdate: (state: GameState) => void;
 }
 
-export function GamePlay({ gameState, playerId, isHost, secretToken, onGameUpdate }: GamePlayProps) {
-  const [selectedChoice, setSelectedChoice] = useState<"safe" | "risky" | null>(null);
+export function GamePlay({
+  gameState,
+  playerId,
+  isHost,
+  recoveryPin,
+  onDismissRecoveryPin,
+  onGameUpdate,
+}: GamePlayProps) {
+  const [selectedChoice, setSelectedChoice] = useState<ChoiceId | null>(null);
   const [hasSubmitted, setHasSubmitted] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const shouldReduceMotion = useReducedMotion();
@@ -37,71 +52,34 @@ export function GamePlay({ gameState, playerId, isHost, secretToken, onGameUpdat
     },
   });
 
-  const endRound = trpc.game.endRound.useMutation({
+  const checkDeadline = trpc.game.checkDeadline.useMutation({
     onSuccess: (data) => {
       onGameUpdate(data);
     },
-    onError: (err) => {
-      setError(err.message);
-    },
-  });
-
-  const pauseRound = trpc.game.pause.useMutation({
-    onSuccess: (data) => {
-      onGameUpdate(data);
-    },
-    onError: (err) => {
-      setError(err.message);
-    },
-  });
-
-  const resumeRound = trpc.game.resume.useMutation({
-    onSuccess: (data) => {
-      onGameUpdate(data);
-    },
-    onError: (err) => {
-      setError(err.message);
-    },
   });
 
-  const handleChoice = (choice: "safe" | "risky") => {
+  const handleChoice = (choice: ChoiceId) => {
     setSelectedChoice(choice);
   };
 
   const handleSubmit = () => {
     if (!selectedChoice) return;
     setError(null);
-    makeChoice.mutate({
-      code: gameState.code,
-      playerId,
-      secretToken,
-      choice: selectedChoice,
-    });
+    makeChoice.mutate({ code: gameState.code, choice: selectedChoice });
   };
 
-  const handleEndRound = useCallback(() => {
-    if (isHost && !isPaused) {
-      setError(null);
-      endRound.mutate({ code: gameState.code, hostId: playerId, secretToken });
+  // Every client nudges the server when its countdown hits zero, and again while the round
+  // hasn't ended; the server owns the deadline
+  const handleExpire = useCallback(() => {
+    if (!isPaused && !checkDeadline.isPending) {
+      checkDeadline.mutate({ code: gameState.code });
     }
-  }, [isHost, isPaused, gameState.code, playerId, secretToken, endRound]);
-
-  const handlePause = () => {
-    setError(null);
-    pauseRound.mutate({ code: gameState.code, hostId: playerId, secretToken });
-  };
-
-  const handleResume = () => {
-    setError(null);
-    resumeRound.mutate({ code: gameState.code, hostId: playerId, secretToken });
-  };
+  }, [isPaused, gameState.code, checkDeadline]);
 
   const playersChosen = gameState.players.filter(
-    (p) => !p.isHost && !p.isEliminated && p.hasChosen
-  ).length;
-  const totalActivePlayers = gameState.players.filter(
-    (p) => !p.isHost && !p.isEliminated
+    (p) => !p.isHost && !p.isEliminated && !p.isSpectator && p.hasChosen
   ).length;
+  const totalActivePlayers = getActivePlayerCount(gameState.players);
 
   // Animation helpers
   const spinAnimation = shouldReduceMotion
@@ -132,7 +110,7 @@ export function GamePlay({ gameState, playerId, isHost, secretToken, onGameUpdat
     ? {}
     : { initial: { scale: 1.2 }, animate: { scale: 1 }, transition: { type: "spring", stiffness: 200 } };
 
-  const choiceButtonProps = (direction: "left" | "right", disabled: boolean) => {
+  const choiceButtonProps = (direction: "left" | "up" | "right", disabled: boolean) => {
     if (shouldReduceMotion) {
       return {
         initial: { opacity: 0 },
@@ -143,9 +121,9 @@ export function GamePlay({ gameState, playerId, isHost, secretToken, onGameUpdat
     return {
       whileHover: !disabled ? { y: -4 } : {},
       whileTap: !disabled ? { scale: 0.98 } : {},
-      initial: { opacity: 0, x: direction === "left" ? -20 : 20 },
-      animate: { opacity: 1, x: 0 },
-      exit: { opacity: 0, x: direction === "left" ? -20 : 20 },
+      initial: { opacity: 0, x: direction === "left" ? -20 : direction === "right" ? 20 : 0, y: direction === "up" ? 20 : 0 },
+      animate: { opacity: 1, x: 0, y: 0 },
+      exit: { opacity: 0, x: direction === "left" ? -20 : direction === "right" ? 20 : 0 },
       transition: { duration: 0.4 },
     };
   };
@@ -164,10 +142,6 @@ export function GamePlay({ gameState, playerId, isHost, secretToken, onGameUpdat
     ? {}
     : { animate: { y: [0, -5, 0] }, transition: { duration: 2, repeat: Infinity } };
 
-  const progressAnimation = shouldReduceMotion
-    ? { style: { width: `${(playersChosen / totalActivePlayers) * 100}%` } }
-    : { initial: { width: 0 }, animate: { width: `${(playersChosen / totalActivePlayers) * 100}%` }, transition: { duration: 0.5 } };
-
   if (!scenario) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -179,7 +153,21 @@ export function GamePlay({ gameState, playerId, isHost, secretToken, onGameUpdat
   }
 
   const isEliminated = currentPlayer?.isEliminated;
+  // Spectators watch the round like the host does, minus the controls
+  const isSpectator = !!currentPlayer?.isSpectator;
+  const hasColony = !isHost && !isSpectator;
+
+  // Team games: the team's colony is what's at stake, and in captain games one member decides
+  const isTeamGame = gameState.teams.length > 0;
+  const myTeam = gameState.teams.find((t) => t.id === currentPlayer?.teamId);
+  const captain =
+    myTeam && gameState.teamDecision === "captain"
+      ? getTeamCaptain(getTeamMembers(gameState.players, myTeam.id), gameState.currentRound)
+      : null;
+  const canChoose =
+    hasColony && (!isTeamGame || (!!myTeam && (!captain || captain.id === playerId)));
   const alreadyChosen = currentPlayer?.hasChosen || hasSubmitted;
+  const choiceIds = getChoiceIds(scenario);
 
   return (
     <div className="w-full max-w-4xl mx-auto space-y-6">
@@ -193,16 +181,26 @@ export function GamePlay({ gameState, playerId, isHost, secretToken, onGameUpdat
         </div>
       )}
 
-      {/* Timer */}
-      <motion.div {...fadeInDown}>
-        <Timer
-          startTime={gameState.roundStartTime}
-          duration={gameState.roundDuration}
-          pausedTimeRemaining={gameState.pausedTimeRemaining}
-          isPaused={isPaused}
-          onExpire={handleEndRound}
+      {recoveryPin && (
+        <RecoveryPinCard
+          code={gameState.code}
+          recoveryPin={recoveryPin}
+          onDismiss={onDismissRecoveryPin}
         />
-      </motion.div>
+      )}
+
+      {/* Timer - untimed games wait for the host instead */}
+      {gameState.timerMode !== "none" && (
+        <motion.div {...fadeInDown}>
+          <Timer
+            startTime={gameState.roundStartTime}
+            duration={gameState.roundDuration}
+            pausedTimeRemaining={gameState.pausedTimeRemaining}
+            isPaused={isPaused}
+            onExpire={handleExpire}
+          />
+        </motion.div>
+      )}
 
       {/* Scenario */}
       <motion.div {...fadeInScale}>
@@ -210,6 +208,9 @@ export function GamePlay({ gameState, playerId, isHost, secretToken, onGameUpdat
           scenario={scenario}
           roundNumber={gameState.currentRound}
           totalRounds={gameState.totalRounds}
+          showOdds={gameState.teachingMode === "live"}
+          population={hasColony ? (myTeam?.population ?? currentPlayer?.population) : undefined}
+          carryingCapacity={gameState.carryingCapacity}
         />
       </motion.div>
 
@@ -230,23 +231,42 @@ export function GamePlay({ gameState, playerId, isHost, secretToken, onGameUpdat
       )}
 
       {/* Player Population */}
-      {currentPlayer && !isHost && (
+      {isSpectator && (
+        <motion.div className="ghibli-card p-4 text-center" {...fadeInUp}>
+          <p className="text-muted-foreground">
+            👀 You&apos;re spectating - {playersChosen} of {totalActivePlayers} colonies have chosen
+          </p>
+        </motion.div>
+      )}
+
+      {currentPlayer && hasColony && (
         <motion.div className="ghibli-card p-6" {...fadeInUp}>
           <div className="flex justify-between items-center">
             <div className="flex items-center gap-3">
               <motion.span className="text-3xl" {...colonyPulse}>
                 🦠
               </motion.span>
-              <span className="text-lg text-muted-foreground">Your Colony:</span>
+              <span className="text-lg text-muted-foreground">
+                {myTeam ? `${myTeam.name}'s Colony:` : "Your Colony:"}
+              </span>
             </div>
             <motion.span
               className="text-4xl font-bold text-forest"
               key={currentPlayer.population}
               {...popAnimation}
             >
-              {currentPlayer.population.toLocaleString()}
+              {(myTeam?.population ?? currentPlayer.population).toLocaleString()}
             </motion.span>
           </div>
+          {myTeam && !isEliminated && (
+            <p className="mt-3 text-sm text-muted-foreground">
+              {captain
+                ? captain.id === playerId
+                  ? "🧭 You're captain this round - your pick is the team's choice"
+                  : `🧭 ${captain.name} is captain this round and picks for the team`
+                : "🗳️ Your vote counts toward the team's majority"}
+            </p>
+          )}
           {isEliminated && (
             <motion.div
               className="mt-4 p-3 bg-destructive/10 rounded-xl text-center text-destructive"
@@ -254,80 +274,75 @@ export function GamePlay({ gameState, playerId, isHost, secretToken, onGameUpdat
               animate={{ opacity: 1 }}
               role="alert"
             >
-              Your colony has perished! 🥀
+              {myTeam ? "Your team's colony has perished! 🥀" : "Your colony has perished! 🥀"}
             </motion.div>
           )}
         </motion.div>
       )}
 
       {/* Choice Buttons */}
-      {!isHost && !isEliminated && !isPaused && (
-        <fieldset className="grid md:grid-cols-2 gap-6">
+      {/* Late arrivals to a team game pick a team first */}
+      {hasColony && isTeamGame && !myTeam && (
+        <TeamPicker gameState={gameState} playerId={playerId} onGameUpdate={onGameUpdate} />
+      )}
+
+      {canChoose && !isEliminated && !isPaused && (
+        <fieldset
+          className={`grid gap-6 ${choiceIds.length === 2 ? "md:grid-cols-2" : "md:grid-cols-3"}`}
+        >
           <legend className="sr-only">Choose your strategy</legend>
           <AnimatePresence>
-            {/* Safe Choice */}
-            <motion.button
-              type="button"
-              role="radio"
-              aria-checked={selectedChoice === "safe"}
-              className={`p-6 rounded-2xl text-left transition-all choice-safe ${
-                selectedChoice === "safe" ? "selected" : ""
-              } ${alreadyChosen ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
-              onClick={() => !alreadyChosen && handleChoice("safe")}
-              disabled={alreadyChosen}
-              {...choiceButtonProps("left", !!alreadyChosen)}
-            >
-              <div className="flex items-center gap-3 mb-3">
-                <motion.span className="text-3xl" {...selectedPulse(selectedChoice === "safe")}>
-                  🌿
-                </motion.span>
-                <span className="text-xl font-semibold text-forest">SAFE</span>
-              </div>
-              <p className="text-muted-foreground mb-4">{scenario.choices.safe.label}</p>
-              <div className="flex gap-4 text-sm">
-                <span className="px-3 py-1 bg-forest/10 text-forest rounded-full">
-                  Risk: {Math.round(scenario.choices.safe.risk * 100)}%
-                </span>
-                <span className="px-3 py-1 bg-meadow/20 text-forest-dark rounded-full">
-                  Reward: ×{scenario.choices.safe.multiplier}
-                </span>
-              </div>
-            </motion.button>
-
-            {/* Risky Choice */}
-            <motion.button
-              type="button"
-              role="radio"
-              aria-checked={selectedChoice === "risky"}
-              className={`p-6 rounded-2xl text-left transition-all choice-risky ${
-                selectedChoice === "risky" ? "selected" : ""
-              } ${alreadyChosen ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
-              onClick={() => !alreadyChosen && handleChoice("risky")}
-              disabled={alreadyChosen}
-              {...choiceButtonProps("right", !!alreadyChosen)}
-            >
-              <div className="flex items-center gap-3 mb-3">
-                <motion.span className="text-3xl" {...selectedPulse(selectedChoice === "risky")}>
-                  🔥
-                </motion.span>
-                <span className="text-xl font-semibold text-sunset">RISKY</span>
-              </div>
-              <p className="text-muted-foreground mb-4">{scenario.choices.risky.label}</p>
-              <div className="flex gap-4 text-sm">
-                <span className="px-3 py-1 bg-sunset/10 text-sunset rounded-full">
-                  Risk: {Math.round(scenario.choices.risky.risk * 100)}%
-                </span>
-                <span className="px-3 py-1 bg-sunset/20 text-orange-700 dark:text-orange-300 rounded-full">
-                  Reward: ×{scenario.choices.risky.multiplier}
-                </span>
-              </div>
-            </motion.button>
+            {choiceIds.map((choiceId, index) => {
+              const choice = scenario.choices[choiceId];
+              const tone = CHOICE_TONE_STYLES[getChoiceTone(scenario, choiceId)];
+              const isSelected = selectedChoice === choiceId;
+              const direction =
+                index === 0 ? "left" : index === choiceIds.length - 1 ? "right" : "up";
+
+              return (
+                <motion.button
+                  key={choiceId}
+                  type="button"
+                  role="radio"
+                  aria-checked={isSelected}
+                  className={`p-6 rounded-2xl text-left transition-all ${tone.button} ${
+                    isSelected ? "selected" : ""
+                  } ${alreadyChosen ? "opacity-50 cursor-not-allowed" : "cursor-pointer"}`}
+                  onClick={() => !alreadyChosen && handleChoice(choiceId)}
+                  disabled={alreadyChosen}
+                  {...choiceButtonProps(direction, !!alreadyChosen)}
+                >
+                  <div className="flex items-center gap-3 mb-3">
+                    <motion.span className="text-3xl" {...selectedPulse(isSelected)}>
+                      {tone.emoji}
+                    </motion.span>
+                    <span className={`text-xl font-semibold uppercase ${tone.text}`}>
+                      {getChoiceName(scenario, choiceId)}
+                    </span>
+                  </div>
+                  <p className="text-muted-foreground mb-4">{choice.label}</p>
+                  <div className="flex flex-wrap gap-4 text-sm">
+                    <span className={`px-3 py-1 rounded-full ${tone.chip}`}>
+                      Risk: {Math.round(choice.risk * 100)}%
+                    </span>
+                    <span className={`px-3 py-1 rounded-full ${tone.chip}`}>
+                      Reward: ×{choice.multiplier}
+                    </span>
+                    {describeSharedEffect(choice.shared).map((hint) => (
+                      <span key={hint} className="px-3 py-1 rounded-full bg-muted text-muted-foreground">
+                        {hint}
+                      </span>
+                    ))}
+                  </div>
+                </motion.button>
+              );
+            })}
           </AnimatePresence>
         </fieldset>
       )}
 
       {/* Submit Button */}
-      {!isHost && !isEliminated && !alreadyChosen && selectedChoice && !isPaused && (
+      {canChoose && !isEliminated && !alreadyChosen && selectedChoice && !isPaused && (
         <motion.div {...fadeInUp} transition={shouldReduceMotion ? undefined : { duration: 0.3 }}>
           <Button
             onClick={handleSubmit}
@@ -348,7 +363,7 @@ export function GamePlay({ gameState, playerId, isHost, secretToken, onGameUpdat
       )}
 
       {/* Waiting State */}
-      {!isHost && alreadyChosen && !isPaused && (
+      {canChoose && alreadyChosen && !isPaused && (
         <motion.div className="ghibli-card p-6 text-center" {...fadeInScale}>
           <motion.div className="text-4xl mb-3" {...floatAnimation}>
             ✨
@@ -360,67 +375,8 @@ export function GamePlay({ gameState, playerId, isHost, secretToken, onGameUpdat
 
       {/* Host View */}
       {isHost && (
-        <motion.div className="ghibli-card p-6" {...fadeInUp}>
-          <div className="flex justify-between items-center mb-4">
-            <span className="text-lg font-semibold flex items-center gap-2">
-              <span>📊</span> Players answered:
-            </span>
-            <span className="text-2xl font-bold text-forest">
-              {playersChosen} / {totalActivePlayers}
-            </span>
-          </div>
-          <div
-            className="w-full bg-muted rounded-full h-3 mb-4 overflow-hidden"
-            role="progressbar"
-            aria-valuenow={playersChosen}
-            aria-valuemin={0}
-            aria-valuemax={totalActivePlayers}
-            aria-label={`${playersChosen} of ${totalActivePlayers} players answered`}
-          >
-            <motion.div
-              className="h-full bg-gradient-to-r from-forest to-meadow rounded-full"
-              {...progressAnimation}
-            />
-          </div>
-
-          {/* Host Control Buttons */}
-          <div className="flex gap-3">
-            {isPaused ? (
-              <Button
-                type="button"
-                onClick={handleResume}
-                disabled={resumeRound.isPending}
-                className="flex-1 h-12 rounded-xl ghibli-button bg-forest hover:bg-forest-dark"
-              >
-                {resumeRound.isPending ? "Resuming..." : "▶️ Resume Round"}
-              </Button>
-            ) : (
-              <Button
-                type="button"
-                onClick={handlePause}
-                disabled={pauseRound.isPending}
-                className="flex-1 h-12 rounded-xl ghibli-button bg-sunset hover:bg-sunset/90"
-              >
-                {pauseRound.isPending ? "Pausing..." : "⏸️ Pause Round"}
-              </Button>
-            )}
-            <Button
-              type="button"
-              onClick={() => {
-                setError(null);
-                endRound.mutate({ code: gameState.code, hostId: playerId, secretToken });
-              }}
-              disabled={endRound.isPending}
-              className="flex-1 h-12 rounded-xl ghibli-button bg-pond hover:bg-pond/90"
-            >
-              {endRound.isPending ? "Processing..." : "⏭️ End Round Now"}
-            </Button>
-          </div>
-          <p className="text-sm text-muted-foreground mt-3 text-center">
-            {isPaused
-              ? "Game is paused. Players can still make choices."
-              : "Players who haven't chosen will default to SAFE"}
-          </p>
+        <motion.div {...fadeInUp}>
+          <HostControls gameState={gameState} onGameUpdate={onGameUpdate} />
         </motion.div>
       )}
 
@@ -429,7 +385,14 @@ export function GamePlay({ gameState, playerId, isHost, secretToken, onGameUpdat
         {...fadeInUp}
         transition={shouldReduceMotion ? undefined : { delay: 0.2 }}
       >
-        <Leaderboard players={gameState.players} currentPlayerId={playerId} compact />
+        <Leaderboard
+          players={gameState.players}
+          teams={gameState.teams}
+          roundResults={gameState.roundResults}
+          currentPlayerId={playerId}
+          carryingCapacity={gameState.carryingCapacity}
+          compact
+        />
       </motion.div>
     </div>
   );
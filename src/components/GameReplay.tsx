@@ -0,0 +1,198 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { motion, useReducedMotion } from "framer-motion";
+import type { GameHistory } from "@/lib/types";
+import { getScenarioById } from "@/lib/scenarios";
+import { CHOICE_TONE_STYLES, getChoiceName, getChoiceTone } from "@/lib/choices";
+import { trpc } from "@/lib/trpc";
+import { ScenarioCard } from "./ScenarioCard";
+import { Leaderboard } from "./Leaderboard";
+
+interface GameReplayProps {
+  id: string;
+}
+
+// Read-only walk through an archived game: one round at a time, then the final standings
+export function GameReplay({ id }: GameReplayProps) {
+  const { data: history, isLoading, error } = trpc.history.get.useQuery({ id }, { retry: false });
+
+  if (isLoading || error || !history) {
+    return (
+      <motion.div
+        className="ghibli-card p-8 text-center max-w-md mx-auto relative z-10"
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+      >
+        <div className="text-5xl mb-4">{isLoading ? "🌊" : "🔍"}</div>
+        <p className="text-lg text-muted-foreground mb-4">
+          {isLoading ? "Loading game..." : (error?.message ?? "Game not found in history")}
+        </p>
+        {!isLoading && (
+          <Link href="/history" className="text-sm text-pond hover:underline">
+            ← Back to past games
+          </Link>
+        )}
+      </motion.div>
+    );
+  }
+
+  return <ReplayContent history={history} />;
+}
+
+function ReplayContent({ history }: { history: GameHistory }) {
+  const { finalState } = history;
+  const rounds = finalState.roundResults;
+  const [roundIndex, setRoundIndex] = useState(0);
+  const shouldReduceMotion = useReducedMotion();
+
+  const round = rounds[roundIndex];
+  const scenario = round ? getScenarioById(round.scenarioId, finalState.scenarios) : null;
+  const teamNames = new Map(finalState.teams.map((t) => [t.id, t.name]));
+
+  const fadeIn = shouldReduceMotion
+    ? { initial: { opacity: 0 }, animate: { opacity: 1 } }
+    : { initial: { opacity: 0, y: 10 }, animate: { opacity: 1, y: 0 } };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-6 relative z-10">
+      <div className="ghibli-card p-6">
+        <Link href="/history" className="text-sm text-pond hover:underline">
+          ← Back to past games
+        </Link>
+        <h1 className="text-2xl font-bold gradient-text-nature mt-2">
+          Game <span className="font-mono tracking-widest">{history.code}</span>
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Finished {new Date(history.finishedAt).toLocaleString()} · {history.playerCount}{" "}
+          {history.playerCount === 1 ? "colony" : "colonies"} · {history.totalRounds} rounds
+          {history.isTeamGame && " · Teams"}
+          {finalState.seed !== null && ` · Seed ${finalState.seed}`}
+        </p>
+      </div>
+
+      {round && scenario && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <button
+              type="button"
+              onClick={() => setRoundIndex((i) => i - 1)}
+              disabled={roundIndex === 0}
+              className="px-4 py-2 rounded-xl text-sm font-medium border-2 border-forest/30 text-forest hover:bg-forest/10 disabled:opacity-40"
+            >
+              ← Previous
+            </button>
+            <span className="text-sm font-medium">
+              Round {round.round} of {rounds.length}
+            </span>
+            <button
+              type="button"
+              onClick={() => setRoundIndex((i) => i + 1)}
+              disabled={roundIndex === rounds.length - 1}
+              className="px-4 py-2 rounded-xl text-sm font-medium border-2 border-forest/30 text-forest hover:bg-forest/10 disabled:opacity-40"
+            >
+              Next →
+            </button>
+          </div>
+
+          <ScenarioCard
+            key={round.round}
+            scenario={scenario}
+            roundNumber={round.round}
+            totalRounds={history.totalRounds}
+          />
+
+          <motion.div key={`outcomes-${round.round}`} className="ghibli-card p-6" {...fadeIn}>
+            <h2 className="font-semibold mb-4">📊 What Each {history.isTeamGame ? "Team" : "Colony"} Did</h2>
+            <ul className="divide-y divide-border">
+              {[...round.players]
+                .sort((a, b) => b.populationAfter - a.populationAfter)
+                .map((entry) => {
+                  const tone = CHOICE_TONE_STYLES[getChoiceTone(scenario, entry.choice)];
+                  return (
+                    <li key={entry.playerId} className="py-2 flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                      <span className="font-medium w-36 truncate">{entry.name}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs ${tone.chip}`}>
+                        {tone.emoji} {getChoiceName(scenario, entry.choice)}
+                      </span>
+                      <span className="text-muted-foreground">{entry.outcome}</span>
+                      <span className="ml-auto font-mono">
+                        {entry.populationBefore.toLocaleString()} →{" "}
+                        <span className={entry.survived ? "text-forest" : "text-destructive"}>
+                          {entry.populationAfter.toLocaleString()}
+                        </span>
+                      </span>
+                    </li>
+                  );
+                })}
+            </ul>
+          </motion.div>
+        </div>
+      )}
+
+      <div className="ghibli-card p-6 overflow-x-auto">
+        <h2 className="font-semibold mb-4">🧭 Choices by Round</h2>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-muted-foreground">
+              <th className="text-left font-medium pb-2 pr-4">Colony</th>
+              {rounds.map((r, i) => (
+                <th key={r.round} className="font-medium pb-2 px-1">
+                  <button
+                    type="button"
+                    onClick={() => setRoundIndex(i)}
+                    className={i === roundIndex ? "text-forest underline" : "hover:underline"}
+                  >
+                    {r.round}
+                  </button>
+                </th>
+              ))}
+              <th className="text-right font-medium pb-2 pl-4">Final</th>
+            </tr>
+          </thead>
+          <tbody>
+            {history.players.map((player) => (
+              <tr key={player.playerId} className="border-t border-border">
+                <td className="py-1.5 pr-4">
+                  <span className="font-medium">{player.name}</span>
+                  {player.teamId && (
+                    <span className="block text-xs text-muted-foreground">
+                      {teamNames.get(player.teamId) ?? player.teamId}
+                    </span>
+                  )}
+                </td>
+                {player.choices.map((choice, i) => {
+                  const roundScenario = rounds[i]
+                    ? getScenarioById(rounds[i].scenarioId, finalState.scenarios)
+                    : null;
+                  return (
+                    <td key={i} className="text-center px-1">
+                      {choice ? (
+                        <span title={getChoiceName(roundScenario, choice)}>
+                          {CHOICE_TONE_STYLES[getChoiceTone(roundScenario, choice)].emoji}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">·</span>
+                      )}
+                    </td>
+                  );
+                })}
+                <td className="text-right font-mono pl-4">
+                  {player.isEliminated ? "💀" : player.finalPopulation.toLocaleString()}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <Leaderboard
+        players={finalState.players}
+        teams={finalState.teams}
+        roundResults={finalState.roundResults}
+        carryingCapacity={finalState.carryingCapacity}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { motion, useReducedMotion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { HISTORY_KEY_STORAGE } from "./Providers";
+
+// Date inputs give local calendar days; the server filters on exact instants
+function startOfDay(date: string): string | undefined {
+  return date ? new Date(`${date}T00:00:00`).toISOString() : undefined;
+}
+
+function endOfDay(date: string): string | undefined {
+  return date ? new Date(`${date}T23:59:59.999`).toISOString() : undefined;
+}
+
+function parseCount(value: string): number | undefined {
+  const count = parseInt(value, 10);
+  return Number.isNaN(count) ? undefined : count;
+}
+
+// Teacher-only list of finished games, filtered by when they ended and how many colonies played
+export function HistoryDashboard() {
+  const [historyKey, setHistoryKey] = useState<string | null>(() =>
+    typeof window !== "undefined" ? sessionStorage.getItem(HISTORY_KEY_STORAGE) : null
+  );
+  const [keyInput, setKeyInput] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [minPlayers, setMinPlayers] = useState("");
+  const [maxPlayers, setMaxPlayers] = useState("");
+  const shouldReduceMotion = useReducedMotion();
+
+  const { data: games, isLoading, error } = trpc.history.list.useQuery(
+    {
+      from: startOfDay(fromDate),
+      to: endOfDay(toDate),
+      minPlayers: parseCount(minPlayers),
+      maxPlayers: parseCount(maxPlayers),
+    },
+    { enabled: !!historyKey, retry: false }
+  );
+
+  const isRejected = error?.data?.code === "UNAUTHORIZED";
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    const key = keyInput.trim();
+    if (!key) return;
+    sessionStorage.setItem(HISTORY_KEY_STORAGE, key);
+    setHistoryKey(key);
+    setKeyInput("");
+  };
+
+  const handleLock = () => {
+    sessionStorage.removeItem(HISTORY_KEY_STORAGE);
+    setHistoryKey(null);
+  };
+
+  const fadeInUp = shouldReduceMotion
+    ? { initial: { opacity: 0 }, animate: { opacity: 1 } }
+    : { initial: { opacity: 0, y: 20 }, animate: { opacity: 1, y: 0 }, transition: { duration: 0.5 } };
+
+  if (!historyKey || isRejected) {
+    return (
+      <motion.div className="ghibli-card p-6 w-full max-w-md mx-auto relative z-10" {...fadeInUp}>
+        <div className="text-center mb-6">
+          <div className="text-4xl mb-2">📚</div>
+          <h1 className="text-2xl font-bold gradient-text-nature">Past Games</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Enter the teacher key to browse finished games
+          </p>
+        </div>
+        <form onSubmit={handleUnlock} className="space-y-4">
+          {isRejected && (
+            <div
+              role="alert"
+              className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-xl text-center"
+            >
+              {error.message}
+            </div>
+          )}
+          <label htmlFor="history-key" className="sr-only">
+            Teacher key
+          </label>
+          <Input
+            id="history-key"
+            type="password"
+            placeholder="Teacher key"
+            value={keyInput}
+            onChange={(e) => setKeyInput(e.target.value)}
+            className="h-12 text-center text-lg border-2 border-forest/20 focus:border-forest rounded-xl bg-background/50"
+          />
+          <Button
+            type="submit"
+            disabled={!keyInput.trim()}
+            className="w-full h-12 rounded-xl ghibli-button bg-forest hover:bg-forest-dark"
+          >
+            🔓 Open History
+          </Button>
+        </form>
+      </motion.div>
+    );
+  }
+
+  const filterInputClass =
+    "h-10 border-2 border-forest/20 focus:border-forest rounded-xl bg-background/50";
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-6 relative z-10">
+      <motion.div className="ghibli-card p-6" {...fadeInUp}>
+        <div className="flex items-start justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold gradient-text-nature">📚 Past Games</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Every finished game, newest first. Open one to replay it round by round.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleLock}
+            className="text-xs text-muted-foreground hover:text-foreground hover:underline"
+          >
+            🔒 Lock
+          </button>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-4">
+          <div>
+            <label htmlFor="history-from" className="block text-xs font-medium text-muted-foreground mb-1">
+              Finished from
+            </label>
+            <Input
+              id="history-from"
+              type="date"
+              value={fromDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className={filterInputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="history-to" className="block text-xs font-medium text-muted-foreground mb-1">
+              Finished to
+            </label>
+            <Input
+              id="history-to"
+              type="date"
+              value={toDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className={filterInputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="history-min" className="block text-xs font-medium text-muted-foreground mb-1">
+              Min colonies
+            </label>
+            <Input
+              id="history-min"
+              type="number"
+              min={0}
+              value={minPlayers}
+              onChange={(e) => setMinPlayers(e.target.value)}
+              className={filterInputClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="history-max" className="block text-xs font-medium text-muted-foreground mb-1">
+              Max colonies
+            </label>
+            <Input
+              id="history-max"
+              type="number"
+              min={0}
+              value={maxPlayers}
+              onChange={(e) => setMaxPlayers(e.target.value)}
+              className={filterInputClass}
+            />
+          </div>
+        </div>
+      </motion.div>
+
+      <motion.div className="ghibli-card p-6" {...fadeInUp}>
+        {error ? (
+          <p role="alert" className="text-sm text-destructive text-center">
+            {error.message}
+          </p>
+        ) : isLoading ? (
+          <p className="text-sm text-muted-foreground text-center">Loading games...</p>
+        ) : !games || games.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center">
+            🍃 No finished games match these filters
+          </p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {games.map((game) => (
+              <li key={game.id} className="py-3 flex flex-wrap items-center gap-x-6 gap-y-1">
+                <span className="font-mono font-bold tracking-widest text-forest w-20">
+                  {game.code}
+                </span>
+                <span className="text-sm text-muted-foreground w-44">
+                  {new Date(game.finishedAt).toLocaleString()}
+                </span>
+                <span className="text-sm">
+                  🦠 {game.playerCount} {game.playerCount === 1 ? "colony" : "colonies"}
+                </span>
+                <span className="text-sm">🔄 {game.totalRounds} rounds</span>
+                {game.isTeamGame && (
+                  <span className="px-2 py-0.5 rounded-full text-xs bg-pond/10 text-pond">
+                    🤝 Teams
+                  </span>
+                )}
+                {game.winner && <span className="text-sm">👑 {game.winner}</span>}
+                <Link
+                  href={`/history/${game.id}`}
+                  className="ml-auto text-sm font-medium text-pond hover:underline"
+                >
+                  Replay →
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </motion.div>
+    </div>
+  );
+}
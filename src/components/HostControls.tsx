@@ -0,0 +1,231 @@
+"use client";
+
+import { useState } from "react";
+import { motion, useReducedMotion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import type { GameState, TeachingMode } from "@/lib/types";
+import { getActivePlayerCount } from "@/lib/gameLogic";
+import { countTeamsDecided } from "@/lib/teams";
+import { trpc } from "@/lib/trpc";
+
+const TEACHING_MODES: Array<{ mode: TeachingMode; label: string; hint: string }> = [
+  { mode: "off", label: "Off", hint: "Players see each option's risk and reward, with no extra math" },
+  { mode: "live", label: "Live", hint: "Survival odds, penalties and expected values show while players choose" },
+  { mode: "reveal", label: "After round", hint: "Expected values stay hidden until the results, then sit beside the class's rolls" },
+];
+
+interface HostControlsProps {
+  gameState: GameState;
+  onGameUpdate: (state: GameState) => void;
+  showPresenterLink?: boolean;
+}
+
+// Compact panel with everything the host needs to run a round; used on the host's
+// game screen and, when the host's session is in the tab, on the presenter view
+export function HostControls({
+  gameState,
+  onGameUpdate,
+  showPresenterLink = true,
+}: HostControlsProps) {
+  const [error, setError] = useState<string | null>(null);
+  const shouldReduceMotion = useReducedMotion();
+
+  const mutationHandlers = {
+    onSuccess: (data: GameState) => {
+      onGameUpdate(data);
+    },
+    onError: (err: { message: string }) => {
+      setError(err.message);
+    },
+  };
+
+  const startGame = trpc.game.start.useMutation(mutationHandlers);
+  const pauseRound = trpc.game.pause.useMutation(mutationHandlers);
+  const resumeRound = trpc.game.resume.useMutation(mutationHandlers);
+  const endRound = trpc.game.endRound.useMutation(mutationHandlers);
+  const nextRound = trpc.game.nextRound.useMutation(mutationHandlers);
+  const setTeachingMode = trpc.game.setTeachingMode.useMutation(mutationHandlers);
+
+  const run = (mutation: { mutate: (input: { code: string }) => void }) => {
+    setError(null);
+    mutation.mutate({ code: gameState.code });
+  };
+
+  const { phase } = gameState;
+  const isPaused = phase === "paused";
+  const isLastRound = gameState.currentRound >= gameState.totalRounds;
+  const isTeamGame = gameState.teams.length > 0;
+  const teamProgress = countTeamsDecided(
+    gameState.teams,
+    gameState.players,
+    gameState.teamDecision,
+    gameState.currentRound
+  );
+  // Team games count decided teams rather than individual votes
+  const playersChosen = isTeamGame
+    ? teamProgress.decided
+    : gameState.players.filter(
+        (p) => !p.isHost && !p.isEliminated && !p.isSpectator && p.hasChosen
+      ).length;
+  const totalActivePlayers = isTeamGame
+    ? teamProgress.total
+    : getActivePlayerCount(gameState.players);
+  const unit = isTeamGame ? "Teams decided" : "Players answered";
+
+  const progressAnimation = shouldReduceMotion
+    ? { style: { width: `${totalActivePlayers > 0 ? (playersChosen / totalActivePlayers) * 100 : 0}%` } }
+    : {
+        initial: { width: 0 },
+        animate: { width: `${totalActivePlayers > 0 ? (playersChosen / totalActivePlayers) * 100 : 0}%` },
+        transition: { duration: 0.5, ease: "easeOut" },
+      };
+
+  if (phase === "finished") return null;
+
+  return (
+    <div className="ghibli-card p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold flex items-center gap-2">
+          <span>🎛️</span> Host Controls
+        </span>
+        {showPresenterLink && (
+          <a
+            href={`/game/${gameState.code}/present`}
+            target="_blank"
+            // opener: the new tab copies this tab's sessionStorage, so the host session comes along
+            rel="opener"
+            className="text-xs text-pond hover:underline"
+          >
+            📽️ Open presenter view
+          </a>
+        )}
+      </div>
+
+      {error && (
+        <div
+          role="alert"
+          className="p-2 text-xs text-destructive bg-destructive/10 border border-destructive/20 rounded-lg text-center"
+        >
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2 text-xs">
+        <span className="text-muted-foreground">🧮 Show the odds</span>
+        <div role="radiogroup" aria-label="Teaching mode" className="flex rounded-lg bg-muted p-0.5">
+          {TEACHING_MODES.map(({ mode, label, hint }) => (
+            <button
+              key={mode}
+              type="button"
+              role="radio"
+              aria-checked={gameState.teachingMode === mode}
+              title={hint}
+              onClick={() => {
+                setError(null);
+                setTeachingMode.mutate({ code: gameState.code, mode });
+              }}
+              disabled={setTeachingMode.isPending}
+              className={`px-2 py-1 rounded-md ${
+                gameState.teachingMode === mode
+                  ? "bg-background text-forest font-medium shadow-sm"
+                  : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {(phase === "playing" || isPaused) && (
+        <>
+          <div className="flex justify-between items-center text-sm">
+            <span className="text-muted-foreground">📊 {unit}</span>
+            <span className="font-bold text-forest">
+              {playersChosen} / {totalActivePlayers}
+            </span>
+          </div>
+          <div
+            className="w-full bg-muted rounded-full h-2 overflow-hidden"
+            role="progressbar"
+            aria-valuenow={playersChosen}
+            aria-valuemin={0}
+            aria-valuemax={totalActivePlayers}
+            aria-label={`${playersChosen} of ${totalActivePlayers} ${unit.toLowerCase()}`}
+          >
+            <motion.div
+              className="h-full bg-gradient-to-r from-forest to-meadow rounded-full"
+              {...progressAnimation}
+            />
+          </div>
+          <div className="flex gap-2">
+            {isPaused ? (
+              <Button
+                type="button"
+                onClick={() => run(resumeRound)}
+                disabled={resumeRound.isPending}
+                className="flex-1 h-10 rounded-xl ghibli-button bg-forest hover:bg-forest-dark"
+              >
+                {resumeRound.isPending ? "Resuming..." : "▶️ Resume"}
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                onClick={() => run(pauseRound)}
+                disabled={pauseRound.isPending}
+                className="flex-1 h-10 rounded-xl ghibli-button bg-sunset hover:bg-sunset/90"
+              >
+                {pauseRound.isPending ? "Pausing..." : "⏸️ Pause"}
+              </Button>
+            )}
+            <Button
+              type="button"
+              onClick={() => run(endRound)}
+              disabled={endRound.isPending}
+              className="flex-1 h-10 rounded-xl ghibli-button bg-pond hover:bg-pond/90"
+            >
+              {endRound.isPending ? "Processing..." : "⏭️ End Round"}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground text-center">
+            {isPaused
+              ? "Game is paused. Players can still make choices."
+              : gameState.timerMode === "all_chosen"
+                ? "The round ends automatically once everyone has chosen"
+                : "Players who haven't chosen will default to the safest option"}
+          </p>
+        </>
+      )}
+
+      {phase === "lobby" && (
+        <Button
+          type="button"
+          onClick={() => run(startGame)}
+          disabled={startGame.isPending || totalActivePlayers < 1}
+          className="w-full h-10 rounded-xl ghibli-button bg-forest hover:bg-forest-dark"
+        >
+          {startGame.isPending
+            ? "Starting..."
+            : totalActivePlayers < 1
+              ? "Waiting for players..."
+              : "🌊 Start Game"}
+        </Button>
+      )}
+
+      {phase === "results" && (
+        <Button
+          type="button"
+          onClick={() => run(nextRound)}
+          disabled={nextRound.isPending}
+          className="w-full h-10 rounded-xl ghibli-button bg-forest hover:bg-forest-dark"
+        >
+          {nextRound.isPending
+            ? "Loading..."
+            : isLastRound
+              ? "🏆 Show Final Results"
+              : `🌸 Next Round (${gameState.currentRound + 1}/${gameState.totalRounds})`}
+        </Button>
+      )}
+    </div>
+  );
+}
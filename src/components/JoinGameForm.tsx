@@ -1,15 +1,32 @@
 "use client";
 
-import { useState } from "react";
-import { useRouter } from "next/navigation";
+import { Suspense, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
 import { motion, useReducedMotion } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { trpc } from "@/lib/trpc";
 
+// Presenter QR codes link to /?join=CODE to prefill the code
+// Reading the query on the client keeps the landing page static
 export function JoinGameForm() {
-  const [code, setCode] = useState("");
+  return (
+    <Suspense fallback={<JoinGameCard />}>
+      <LinkedJoinGameCard />
+    </Suspense>
+  );
+}
+
+function LinkedJoinGameCard() {
+  const searchParams = useSearchParams();
+  return <JoinGameCard initialCode={searchParams.get("join") ?? undefined} />;
+}
+
+function JoinGameCard({ initialCode }: { initialCode?: string }) {
+  const [code, setCode] = useState(initialCode?.toUpperCase().slice(0, 6) ?? "");
   const [playerName, setPlayerName] = useState("");
+  const [asSpectator, setAsSpectator] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
@@ -19,7 +36,13 @@ export function JoinGameForm() {
     onSuccess: (data) => {
       sessionStorage.setItem(
         `game_${data.gameState.code}`,
-        JSON.stringify({ playerId: data.playerId, isHost: false, secretToken: data.secretToken })
+        JSON.stringify({
+          playerId: data.playerId,
+          isHost: false,
+          secretToken: data.secretToken,
+          recoveryPin: data.recoveryPin,
+          joinedLate: data.gameState.phase !== "lobby",
+        })
       );
       router.push(`/game/${data.gameState.code}`);
     },
@@ -34,7 +57,11 @@ export function JoinGameForm() {
     setError(null);
     if (!code.trim() || !playerName.trim()) return;
     setIsLoading(true);
-    joinGame.mutate({ code: code.trim().toUpperCase(), playerName: playerName.trim() });
+    joinGame.mutate({
+      code: code.trim().toUpperCase(),
+      playerName: playerName.trim(),
+      asSpectator,
+    });
   };
 
   const motionProps = shouldReduceMotion
@@ -105,6 +132,16 @@ export function JoinGameForm() {
             className="h-12 text-center text-lg border-2 border-pond/20 focus:border-pond rounded-xl bg-background/50"
           />
         </div>
+        <label className="flex items-center justify-center gap-2 text-sm text-muted-foreground cursor-pointer">
+          <input
+            type="checkbox"
+            checked={asSpectator}
+            onChange={(e) => setAsSpectator(e.target.checked)}
+            disabled={isLoading}
+            className="h-4 w-4 accent-pond"
+          />
+          👀 Just watch (no colony)
+        </label>
         <Button
           type="submit"
           className="w-full h-12 text-lg font-medium rounded-xl ghibli-button bg-pond hover:bg-pond/90"
@@ -116,10 +153,16 @@ export function JoinGameForm() {
             </motion.span>
           ) : (
             <span className="flex items-center gap-2">
-              <span>🌿</span> Join Game
+              <span>🌿</span> {asSpectator ? "Watch Game" : "Join Game"}
             </span>
           )}
         </Button>
+        <p className="text-xs text-center text-muted-foreground">
+          No class right now?{" "}
+          <Link href="/practice" className="underline hover:text-pond">
+            🧫 Practice solo
+          </Link>
+        </p>
       </form>
     </motion.div>
   );
@@ -0,0 +1,42 @@
+"use client";
+
+import { useMemo } from "react";
+import { create } from "qrcode";
+
+interface JoinQRCodeProps {
+  url: string;
+  size?: number; // rendered width in px
+}
+
+// Drawn as an SVG so it stays sharp when projected
+export function JoinQRCode({ url, size = 220 }: JoinQRCodeProps) {
+  const { path, moduleCount } = useMemo(() => {
+    const { modules } = create(url, { errorCorrectionLevel: "M" });
+    let d = "";
+    for (let row = 0; row < modules.size; row++) {
+      for (let col = 0; col < modules.size; col++) {
+        if (modules.get(row, col)) d += `M${col} ${row}h1v1h-1z`;
+      }
+    }
+    return { path: d, moduleCount: modules.size };
+  }, [url]);
+
+  // Four modules of quiet zone keep it scannable against the card background
+  const quiet = 4;
+  const extent = moduleCount + quiet * 2;
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`${-quiet} ${-quiet} ${extent} ${extent}`}
+      role="img"
+      aria-label={`QR code for ${url}`}
+      shapeRendering="crispEdges"
+      className="rounded-xl"
+    >
+      <rect x={-quiet} y={-quiet} width={extent} height={extent} fill="#ffffff" />
+      <path d={path} fill="#1f2d24" />
+    </svg>
+  );
+}
@@ -1,19 +1,51 @@
 "use client";
 
 import { motion, AnimatePresence, useReducedMotion } from "framer-motion";
-import type { Player } from "@/lib/types";
+import type { Player, RoundResult, Team } from "@/lib/types";
 import { getLeaderboard } from "@/lib/gameLogic";
+import { getMemberContributions, getTeamLeaderboard, getTeamMembers } from "@/lib/teams";
+import { BOT_PERSONALITIES } from "@/lib/bots";
 
 interface LeaderboardProps {
   players: Player[];
   currentPlayerId?: string;
   compact?: boolean;
+  carryingCapacity?: number | null;
+  teams?: Team[]; // team games rank teams instead of players
+  roundResults?: RoundResult[]; // for each member's contribution to their team
 }
 
 const rankEmojis = ["👑", "🥈", "🥉"];
 
-export function Leaderboard({ players, currentPlayerId, compact = false }: LeaderboardProps) {
+function BotBadge({ player }: { player: Player }) {
+  if (!player.isBot) return null;
+  const personality = player.botPersonality ? BOT_PERSONALITIES[player.botPersonality] : null;
+  return (
+    <span
+      className="text-xs px-2 py-0.5 bg-pond/10 text-pond rounded-full"
+      title={personality ? `${personality.label} bot: ${personality.description}` : "Bot"}
+    >
+      🤖 Bot
+    </span>
+  );
+}
+
+export function Leaderboard({ teams, roundResults = [], ...props }: LeaderboardProps) {
+  if (teams && teams.length > 0) {
+    return <TeamLeaderboard teams={teams} roundResults={roundResults} {...props} />;
+  }
+  return <PlayerLeaderboard {...props} />;
+}
+
+function PlayerLeaderboard({
+  players,
+  currentPlayerId,
+  compact = false,
+  carryingCapacity = null,
+}: LeaderboardProps) {
   const leaderboard = getLeaderboard(players);
+  const capacityPercent = (population: number) =>
+    carryingCapacity ? Math.min(100, Math.round((population / carryingCapacity) * 100)) : null;
   const shouldReduceMotion = useReducedMotion();
 
   const fadeIn = shouldReduceMotion
@@ -79,9 +111,15 @@ export function Leaderboard({ players, currentPlayerId, compact = false }: Leade
                 {player.id === currentPlayerId && (
                   <span className="text-xs text-forest">(You)</span>
                 )}
+                <BotBadge player={player} />
               </span>
               <span className="font-mono font-medium">
                 {player.population.toLocaleString()}
+                {carryingCapacity && (
+                  <span className="ml-1 text-xs text-muted-foreground">
+                    ({capacityPercent(player.population)}% of K)
+                  </span>
+                )}
               </span>
             </motion.div>
           ))}
@@ -137,6 +175,7 @@ export function Leaderboard({ players, currentPlayerId, compact = false }: Leade
                         You
                       </span>
                     )}
+                    <BotBadge player={player} />
                     {player.isEliminated && (
                       <span className="text-xs px-2 py-0.5 bg-destructive/10 text-destructive rounded-full">
                         Eliminated
@@ -160,6 +199,26 @@ export function Leaderboard({ players, currentPlayerId, compact = false }: Leade
                   {player.population.toLocaleString()}
                 </motion.div>
                 <div className="text-xs text-muted-foreground">population</div>
+                {carryingCapacity && (
+                  <div
+                    className="mt-1 w-28 ml-auto"
+                    role="progressbar"
+                    aria-valuenow={capacityPercent(player.population) ?? 0}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-label={`${capacityPercent(player.population)}% of carrying capacity`}
+                  >
+                    <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-gradient-to-r from-meadow to-forest rounded-full"
+                        style={{ width: `${capacityPercent(player.population)}%` }}
+                      />
+                    </div>
+                    <div className="text-[10px] text-muted-foreground mt-0.5">
+                      {capacityPercent(player.population)}% of capacity
+                    </div>
+                  </div>
+                )}
               </div>
             </motion.div>
           ))}
@@ -168,3 +227,83 @@ export function Leaderboard({ players, currentPlayerId, compact = false }: Leade
     </motion.div>
   );
 }
+
+// Teams ranked by their shared colony, with what each member's picks added or cost
+function TeamLeaderboard({
+  teams,
+  roundResults,
+  players,
+  currentPlayerId,
+  compact = false,
+}: LeaderboardProps & { teams: Team[]; roundResults: RoundResult[] }) {
+  const shouldReduceMotion = useReducedMotion();
+  const leaderboard = getTeamLeaderboard(teams);
+
+  const slideIn = (index: number) => shouldReduceMotion
+    ? { initial: { opacity: 0 }, animate: { opacity: 1 } }
+    : { initial: { opacity: 0, x: -10 }, animate: { opacity: 1, x: 0 }, transition: { delay: index * 0.05 } };
+
+  return (
+    <motion.div className={compact ? "ghibli-card p-4" : "ghibli-card p-6"} initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+      <h3 className={`font-semibold mb-3 flex items-center gap-2 ${compact ? "text-sm" : "text-xl"}`}>
+        <span>🏆</span> Team Leaderboard
+      </h3>
+      <div className="space-y-3">
+        {leaderboard.map(({ rank, team }, index) => {
+          const members = getTeamMembers(players, team.id);
+          const contributions = getMemberContributions(roundResults, team.id);
+          const isMine = members.some((m) => m.id === currentPlayerId);
+          return (
+            <motion.div
+              key={team.id}
+              className={`rounded-lg px-3 py-2 ${
+                isMine ? "bg-forest/10 border border-forest/20" : "bg-muted/50"
+              } ${team.isEliminated ? "opacity-50" : ""}`}
+              {...slideIn(index)}
+            >
+              <div className={`flex justify-between items-center ${compact ? "text-sm" : "text-lg"}`}>
+                <span className="flex items-center gap-2">
+                  <span className="w-6 text-center">
+                    {rank <= 3 ? rankEmojis[rank - 1] : `${rank}.`}
+                  </span>
+                  <span className={isMine ? "font-medium text-forest" : "font-medium"}>{team.name}</span>
+                  {team.isEliminated && (
+                    <span className="text-xs px-2 py-0.5 bg-destructive/10 text-destructive rounded-full">
+                      Eliminated
+                    </span>
+                  )}
+                </span>
+                <span className="font-mono font-medium">{team.population.toLocaleString()}</span>
+              </div>
+              {members.length > 0 && (
+                <ul className="mt-1 ml-8 space-y-0.5 text-xs text-muted-foreground">
+                  {members.map((member) => {
+                    const contribution = contributions[member.id] ?? 0;
+                    return (
+                      <li key={member.id} className="flex justify-between">
+                        <span className={member.id === currentPlayerId ? "text-forest font-medium" : ""}>
+                          {member.name}
+                          {member.isBot && " 🤖"}
+                          {member.id === currentPlayerId && " (You)"}
+                        </span>
+                        <span
+                          className={`font-mono ${
+                            contribution > 0 ? "text-forest" : contribution < 0 ? "text-destructive" : ""
+                          }`}
+                          title="Population gained or lost in rounds where this member backed the team's choice"
+                        >
+                          {contribution > 0 ? "+" : ""}
+                          {contribution.toLocaleString()}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </motion.div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+}
@@ -3,18 +3,28 @@
 import { useState } from "react";
 import { motion, AnimatePresence, useReducedMotion } from "framer-motion";
 import { Button } from "@/components/ui/button";
-import type { GameState } from "@/lib/types";
+import { Input } from "@/components/ui/input";
+import type { BotPersonality, GameState } from "@/lib/types";
 import { trpc } from "@/lib/trpc";
+import { BOT_PERSONALITIES, MAX_BOTS } from "@/lib/bots";
+import { TeamPicker } from "./TeamPicker";
+import { RecoveryPinCard } from "./RecoveryPinCard";
 
 interface LobbyProps {
   gameState: GameState;
   playerId: string;
   isHost: boolean;
-  secretToken: string;
+  recoveryPin?: string;
   onGameUpdate: (state: GameState) => void;
 }
 
-export function Lobby({ gameState, playerId, isHost, secretToken, onGameUpdate }: LobbyProps) {
+export function Lobby({
+  gameState,
+  playerId,
+  isHost,
+  recoveryPin,
+  onGameUpdate,
+}: LobbyProps) {
   const [error, setError] = useState<string | null>(null);
   const shouldReduceMotion = useReducedMotion();
 
@@ -27,12 +37,43 @@ export function Lobby({ gameState, playerId, isHost, secretToken, onGameUpdate }
     },
   });
 
+  // Host moderation
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+
+  const moderationHandlers = {
+    onSuccess: (data: GameState) => {
+      setEditingId(null);
+      onGameUpdate(data);
+    },
+    onError: (err: { message: string }) => {
+      setError(err.message);
+    },
+  };
+  const kickPlayer = trpc.game.kickPlayer.useMutation(moderationHandlers);
+  const renamePlayer = trpc.game.renamePlayer.useMutation(moderationHandlers);
+  const banName = trpc.game.banName.useMutation(moderationHandlers);
+  const addBot = trpc.game.addBot.useMutation(moderationHandlers);
+  const isModerating =
+    kickPlayer.isPending || renamePlayer.isPending || banName.isPending || addBot.isPending;
+
+  const handleRename = (e: React.FormEvent, playerId: string) => {
+    e.preventDefault();
+    setError(null);
+    if (!draftName.trim()) return;
+    renamePlayer.mutate({ code: gameState.code, playerId, name: draftName.trim() });
+  };
+
   const handleStart = () => {
     setError(null);
-    startGame.mutate({ code: gameState.code, hostId: playerId, secretToken });
+    startGame.mutate({ code: gameState.code });
   };
 
-  const players = gameState.players.filter((p) => !p.isHost);
+  const players = gameState.players.filter((p) => !p.isHost && !p.isSpectator);
+  // Spectators get cards too, so the host can moderate them like anyone else
+  const roster = gameState.players.filter((p) => !p.isHost);
+  const spectatorCount = gameState.players.filter((p) => p.isSpectator).length;
+  const botCount = players.filter((p) => p.isBot).length;
   const canStart = players.length >= 1;
 
   // Animation variants
@@ -125,8 +166,30 @@ export function Lobby({ gameState, playerId, isHost, secretToken, onGameUpdate }
             🍃
           </motion.div>
         </motion.div>
+        {isHost && (
+          <p className="mt-4">
+            <a
+              href={`/game/${gameState.code}/present`}
+              target="_blank"
+              rel="opener"
+              className="text-sm text-pond hover:underline"
+            >
+              📽️ Open presenter view for the projector
+            </a>
+          </p>
+        )}
       </motion.div>
 
+      {/* Recovery PIN - lets this player back in from another tab or device */}
+      {recoveryPin && <RecoveryPinCard code={gameState.code} recoveryPin={recoveryPin} />}
+
+      {/* Teams */}
+      {gameState.teams.length > 0 && (
+        <motion.div {...fadeInUp}>
+          <TeamPicker gameState={gameState} playerId={playerId} onGameUpdate={onGameUpdate} />
+        </motion.div>
+      )}
+
       {/* Players List */}
       <motion.div
         className="ghibli-card p-6"
@@ -138,7 +201,8 @@ export function Lobby({ gameState, playerId, isHost, secretToken, onGameUpdate }
           <h2 className="text-xl font-semibold flex items-center gap-2">
             <span>🦠</span> Amoebas in the Pond
             <span className="text-sm font-normal text-muted-foreground">
-              ({players.length} {players.length === 1 ? "player" : "players"})
+              ({players.length} {players.length === 1 ? "player" : "players"}
+              {spectatorCount > 0 && `, ${spectatorCount} watching`})
             </span>
           </h2>
           {players.length === 0 && (
@@ -153,29 +217,116 @@ export function Lobby({ gameState, playerId, isHost, secretToken, onGameUpdate }
 
         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4 min-h-[100px]">
           <AnimatePresence mode="popLayout">
-            {players.map((player, index) => (
+            {roster.map((player, index) => (
               <motion.div
                 key={player.id}
                 {...playerCardAnimation(index)}
                 className="relative"
               >
                 <motion.div
-                  className="p-4 bg-meadow/10 rounded-xl text-center border-2 border-meadow/20"
+                  className={`p-4 rounded-xl text-center border-2 ${
+                    player.isSpectator
+                      ? "bg-muted/40 border-dashed border-border"
+                      : "bg-meadow/10 border-meadow/20"
+                  }`}
                   {...playerHover}
                 >
                   <motion.div
                     className="text-2xl mb-1"
                     {...playerFloat(index)}
                   >
-                    🦠
+                    {player.isSpectator ? "👀" : player.isBot ? "🤖" : "🦠"}
                   </motion.div>
-                  <span className="font-medium text-sm">{player.name}</span>
+                  {editingId === player.id ? (
+                    <form onSubmit={(e) => handleRename(e, player.id)} className="space-y-2">
+                      <label htmlFor={`rename-${player.id}`} className="sr-only">
+                        New name for {player.name}
+                      </label>
+                      <Input
+                        id={`rename-${player.id}`}
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        maxLength={20}
+                        autoFocus
+                        disabled={isModerating}
+                        className="h-8 text-center text-sm"
+                      />
+                      <div className="flex justify-center gap-2 text-xs">
+                        <button type="submit" className="text-forest font-medium" disabled={isModerating}>
+                          Save
+                        </button>
+                        <button
+                          type="button"
+                          className="text-muted-foreground"
+                          onClick={() => setEditingId(null)}
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    </form>
+                  ) : (
+                    <span className="font-medium text-sm">{player.name}</span>
+                  )}
+                  {player.isSpectator && editingId !== player.id && (
+                    <span className="block text-xs text-muted-foreground">Watching</span>
+                  )}
+                  {player.isBot && player.botPersonality && editingId !== player.id && (
+                    <span className="block text-xs text-muted-foreground">
+                      {BOT_PERSONALITIES[player.botPersonality].emoji}{" "}
+                      {BOT_PERSONALITIES[player.botPersonality].label} bot
+                    </span>
+                  )}
+
+                  {/* Host moderation */}
+                  {isHost && editingId !== player.id && (
+                    <div className="flex justify-center gap-1 mt-2">
+                      <button
+                        type="button"
+                        title="Rename"
+                        aria-label={`Rename ${player.name}`}
+                        disabled={isModerating}
+                        onClick={() => {
+                          setEditingId(player.id);
+                          setDraftName(player.name);
+                        }}
+                        className="px-2 py-0.5 rounded-md text-xs hover:bg-pond/10"
+                      >
+                        ✏️
+                      </button>
+                      <button
+                        type="button"
+                        title="Remove"
+                        aria-label={`Remove ${player.name}`}
+                        disabled={isModerating}
+                        onClick={() => {
+                          setError(null);
+                          kickPlayer.mutate({ code: gameState.code, playerId: player.id });
+                        }}
+                        className="px-2 py-0.5 rounded-md text-xs hover:bg-sunset/10"
+                      >
+                        ✖️
+                      </button>
+                      <button
+                        type="button"
+                        title="Remove and ban this name"
+                        aria-label={`Ban the name ${player.name}`}
+                        disabled={isModerating}
+                        onClick={() => {
+                          setError(null);
+                          banName.mutate({ code: gameState.code, name: player.name });
+                        }}
+                        className="px-2 py-0.5 rounded-md text-xs hover:bg-destructive/10"
+                      >
+                        🚫
+                      </button>
+                    </div>
+                  )}
                 </motion.div>
               </motion.div>
             ))}
           </AnimatePresence>
 
-          {players.length === 0 && (
+          {roster.length === 0 && (
             <div className="col-span-full flex items-center justify-center">
               <motion.div
                 className="text-center text-muted-foreground"
@@ -187,8 +338,43 @@ export function Lobby({ gameState, playerId, isHost, secretToken, onGameUpdate }
             </div>
           )}
         </div>
+
+        {/* Host adds bot colonies to fill out a small class */}
+        {isHost && (
+          <div className="mt-6 pt-4 border-t border-border/50">
+            <p className="text-sm font-medium mb-2 flex items-center gap-2">
+              <span>🤖</span> Add a bot colony
+              <span className="text-xs font-normal text-muted-foreground">
+                ({botCount}/{MAX_BOTS})
+              </span>
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(BOT_PERSONALITIES) as BotPersonality[]).map((personality) => (
+                <button
+                  key={personality}
+                  type="button"
+                  title={BOT_PERSONALITIES[personality].description}
+                  disabled={isModerating || botCount >= MAX_BOTS}
+                  onClick={() => {
+                    setError(null);
+                    addBot.mutate({ code: gameState.code, personality });
+                  }}
+                  className="px-3 py-1.5 rounded-xl border-2 border-meadow/20 text-sm hover:border-forest/40 disabled:opacity-50"
+                >
+                  {BOT_PERSONALITIES[personality].emoji} {BOT_PERSONALITIES[personality].label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </motion.div>
 
+      {isHost && gameState.bannedNames.length > 0 && (
+        <p className="text-xs text-center text-muted-foreground">
+          🚫 Banned names: {gameState.bannedNames.join(", ")}
+        </p>
+      )}
+
       {/* Start Button / Waiting Message */}
       <motion.div
         initial={fadeInUp.initial}
@@ -247,7 +433,7 @@ export function Lobby({ gameState, playerId, isHost, secretToken, onGameUpdate }
           </li>
           <li className="flex items-start gap-3">
             <span className="text-lg">⚖️</span>
-            <span>Choose between <span className="text-forest font-medium">SAFE</span> (low risk, modest growth) or <span className="text-sunset font-medium">RISKY</span> (high risk, big rewards)</span>
+            <span>Choose between <span className="text-forest font-medium">SAFE</span> (low risk, modest growth) or <span className="text-sunset font-medium">RISKY</span> (high risk, big rewards) - some scenarios offer options in between</span>
           </li>
           <li className="flex items-start gap-3">
             <span className="text-lg">📈</span>
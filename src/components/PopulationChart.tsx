@@ -0,0 +1,210 @@
+"use client";
+
+import { useId, useState } from "react";
+import { motion, useReducedMotion } from "framer-motion";
+import type { RoundResult } from "@/lib/types";
+import {
+  buildPopulationSeries,
+  getPopulationTicks,
+  scalePopulation,
+} from "@/lib/populationChart";
+
+interface PopulationChartProps {
+  roundResults: RoundResult[];
+  totalRounds: number;
+  highlightId?: string | null; // the viewer's colony (or team), drawn on top and thicker
+  carryingCapacity?: number | null;
+  hostId?: string | null; // left off the chart
+}
+
+// Theme colours, cycled when there are more colonies than colours
+const LINE_COLORS = [
+  "var(--forest)",
+  "var(--pond)",
+  "var(--sunset)",
+  "var(--meadow)",
+  "var(--earth)",
+  "var(--chart-1)",
+  "var(--chart-2)",
+  "var(--chart-3)",
+  "var(--chart-4)",
+  "var(--chart-5)",
+];
+
+const WIDTH = 640;
+const HEIGHT = 280;
+const PAD = { top: 12, right: 16, bottom: 28, left: 48 };
+const PLOT_WIDTH = WIDTH - PAD.left - PAD.right;
+const PLOT_HEIGHT = HEIGHT - PAD.top - PAD.bottom;
+
+const compactNumber = new Intl.NumberFormat(undefined, { notation: "compact" });
+
+// Population over time, one line per colony, with a ✕ wherever a roll failed
+export function PopulationChart({
+  roundResults,
+  totalRounds,
+  highlightId = null,
+  carryingCapacity = null,
+  hostId = null,
+}: PopulationChartProps) {
+  const [logScale, setLogScale] = useState(false);
+  const shouldReduceMotion = useReducedMotion();
+  const toggleId = useId();
+
+  const series = buildPopulationSeries(roundResults, hostId);
+  if (series.length === 0) return null;
+
+  const peak = Math.max(
+    ...series.flatMap((s) => s.points.map((p) => p.population)),
+    carryingCapacity ?? 0,
+    1
+  );
+  const ticks = getPopulationTicks(peak, logScale);
+  const max = logScale ? peak : Math.max(peak, ticks[ticks.length - 1]);
+  const rounds = Math.max(totalRounds, roundResults.length, 1);
+
+  const x = (round: number) => PAD.left + (round / rounds) * PLOT_WIDTH;
+  const y = (population: number) =>
+    PAD.top + (1 - scalePopulation(population, max, logScale)) * PLOT_HEIGHT;
+
+  // The viewer's line is drawn last so it sits on top
+  const ordered = [...series].sort(
+    (a, b) => Number(a.id === highlightId) - Number(b.id === highlightId)
+  );
+  const colorOf = new Map(series.map((s, i) => [s.id, LINE_COLORS[i % LINE_COLORS.length]]));
+
+  const drawLine = shouldReduceMotion
+    ? {}
+    : { initial: { pathLength: 0 }, animate: { pathLength: 1 }, transition: { duration: 1.2, ease: "easeOut" as const } };
+
+  return (
+    <div className="ghibli-card p-6">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h2 className="font-semibold flex items-center gap-2 text-lg">
+          <span>📈</span> Population Over Time
+        </h2>
+        <label htmlFor={toggleId} className="flex items-center gap-2 text-sm text-muted-foreground">
+          <input
+            id={toggleId}
+            type="checkbox"
+            checked={logScale}
+            onChange={(e) => setLogScale(e.target.checked)}
+            className="accent-forest"
+          />
+          Log scale
+        </label>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={`Population of ${series.length} ${series.length === 1 ? "colony" : "colonies"} over ${roundResults.length} rounds`}
+      >
+        {/* Gridlines and population labels */}
+        {ticks.map((tick) => (
+          <g key={tick}>
+            <line
+              x1={PAD.left}
+              x2={WIDTH - PAD.right}
+              y1={y(tick)}
+              y2={y(tick)}
+              stroke="var(--border)"
+              strokeWidth={1}
+            />
+            <text
+              x={PAD.left - 6}
+              y={y(tick)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              className="fill-muted-foreground text-[10px]"
+            >
+              {compactNumber.format(tick)}
+            </text>
+          </g>
+        ))}
+
+        {/* Round labels */}
+        {Array.from({ length: rounds + 1 }, (_, round) => (
+          <text
+            key={round}
+            x={x(round)}
+            y={HEIGHT - PAD.bottom + 16}
+            textAnchor="middle"
+            className="fill-muted-foreground text-[10px]"
+          >
+            {round === 0 ? "Start" : round}
+          </text>
+        ))}
+
+        {carryingCapacity && (
+          <line
+            x1={PAD.left}
+            x2={WIDTH - PAD.right}
+            y1={y(carryingCapacity)}
+            y2={y(carryingCapacity)}
+            stroke="var(--pond)"
+            strokeWidth={1.5}
+            strokeDasharray="6 4"
+          >
+            <title>Carrying capacity: {carryingCapacity.toLocaleString()}</title>
+          </line>
+        )}
+
+        {ordered.map((s) => {
+          const isHighlighted = s.id === highlightId;
+          const color = colorOf.get(s.id)!;
+          const path = s.points
+            .map((p, i) => `${i === 0 ? "M" : "L"}${x(p.round).toFixed(1)},${y(p.population).toFixed(1)}`)
+            .join(" ");
+          return (
+            <g key={s.id} opacity={highlightId && !isHighlighted ? 0.55 : 1}>
+              <motion.path
+                key={`${s.id}-${logScale}`}
+                d={path}
+                fill="none"
+                stroke={color}
+                strokeWidth={isHighlighted ? 3.5 : 2}
+                strokeLinejoin="round"
+                strokeLinecap="round"
+                {...drawLine}
+              >
+                <title>{s.name}</title>
+              </motion.path>
+              {s.failedRounds.map((round) => {
+                const point = s.points.find((p) => p.round === round)!;
+                const cx = x(round);
+                const cy = y(point.population);
+                return (
+                  <g key={round} stroke="var(--destructive)" strokeWidth={2} strokeLinecap="round">
+                    <title>
+                      {s.name}: roll failed in round {round}
+                    </title>
+                    <line x1={cx - 4} y1={cy - 4} x2={cx + 4} y2={cy + 4} />
+                    <line x1={cx - 4} y1={cy + 4} x2={cx + 4} y2={cy - 4} />
+                  </g>
+                );
+              })}
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Legend */}
+      <ul className="flex flex-wrap gap-x-4 gap-y-1 mt-3 text-xs">
+        {series.map((s) => (
+          <li
+            key={s.id}
+            className={`flex items-center gap-1.5 ${s.id === highlightId ? "font-semibold" : "text-muted-foreground"}`}
+          >
+            <span className="inline-block w-3 h-1 rounded-full" style={{ background: colorOf.get(s.id) }} />
+            {s.name}
+          </li>
+        ))}
+        <li className="flex items-center gap-1.5 text-muted-foreground">
+          <span className="text-destructive font-bold">✕</span> roll failed
+        </li>
+      </ul>
+    </div>
+  );
+}
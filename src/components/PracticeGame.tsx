@@ -0,0 +1,332 @@
+"use client";
+
+import { useId, useMemo, useState, useSyncExternalStore } from "react";
+import Link from "next/link";
+import { motion, useReducedMotion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import type { ChoiceId } from "@/lib/types";
+import { CHOICE_TONE_STYLES, getChoiceIds, getChoiceName, getChoiceTone } from "@/lib/choices";
+import { getScenarioById } from "@/lib/scenarios";
+import { generateSeed } from "@/lib/random";
+import {
+  compareToBaselines,
+  createPracticeGame,
+  getPracticeScenario,
+  isNewPersonalBest,
+  isPracticeOver,
+  parsePersonalBest,
+  playPracticeRound,
+  PRACTICE_BEST_STORAGE,
+  PRACTICE_PLAYER_ID,
+  PRACTICE_ROUNDS,
+  PRACTICE_SCENARIOS,
+  type PracticeBest,
+  type PracticeGame as Practice,
+} from "@/lib/practice";
+import { ScenarioCard } from "./ScenarioCard";
+import { PopulationChart } from "./PopulationChart";
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Other tabs setting a new best; this tab's own record is kept in state
+function subscribeToStorage(onChange: () => void) {
+  window.addEventListener("storage", onChange);
+  return () => window.removeEventListener("storage", onChange);
+}
+
+// Solo run through the scenarios at the student's own pace, ending in a personal best
+export function PracticeGame() {
+  const [game, setGame] = useState<Practice | null>(null);
+  const [selectedChoice, setSelectedChoice] = useState<ChoiceId | null>(null);
+  const [showingResult, setShowingResult] = useState(false);
+  const [showOdds, setShowOdds] = useState(false);
+  // The server has no stored best, so the first render matches it; the client fills it in after
+  const storedBest = useSyncExternalStore(
+    subscribeToStorage,
+    () => localStorage.getItem(PRACTICE_BEST_STORAGE),
+    () => null
+  );
+  const [record, setRecord] = useState<PracticeBest | null>(null);
+  const best = useMemo(() => record ?? parsePersonalBest(storedBest), [record, storedBest]);
+  const [isNewBest, setIsNewBest] = useState(false);
+  const shouldReduceMotion = useReducedMotion();
+  const oddsToggleId = useId();
+
+  const isOver = !!game && isPracticeOver(game);
+  const scenario = game ? getPracticeScenario(game) : null;
+  const lastRound = game?.roundResults[game.roundResults.length - 1];
+  const lastEntry = lastRound?.players[0];
+  const lastScenario = lastRound && getScenarioById(lastRound.scenarioId, PRACTICE_SCENARIOS);
+
+  // Baselines replay thousands of games, so only work them out once per finished run
+  const finalPopulation = isOver ? game.player.population : null;
+  const rounds = game?.scenarioOrder.length;
+  const seed = game?.seed;
+  const baselines = useMemo(
+    () => (finalPopulation === null ? [] : compareToBaselines(finalPopulation, rounds, seed)),
+    [finalPopulation, rounds, seed]
+  );
+
+  const handleStart = () => {
+    setGame(createPracticeGame(generateSeed()));
+    setSelectedChoice(null);
+    setShowingResult(false);
+    setIsNewBest(false);
+  };
+
+  const handleSubmit = () => {
+    if (!game || !selectedChoice) return;
+    const next = playPracticeRound(game, selectedChoice);
+    setGame(next);
+    setSelectedChoice(null);
+    setShowingResult(true);
+
+    if (isPracticeOver(next) && isNewPersonalBest(best, next.player.population)) {
+      const newBest: PracticeBest = {
+        population: next.player.population,
+        seed: next.seed,
+        achievedAt: new Date().toISOString(),
+      };
+      localStorage.setItem(PRACTICE_BEST_STORAGE, JSON.stringify(newBest));
+      setRecord(newBest);
+      setIsNewBest(true);
+    }
+  };
+
+  const fadeInUp = shouldReduceMotion
+    ? { initial: { opacity: 0 }, animate: { opacity: 1 } }
+    : { initial: { opacity: 0, y: 20 }, animate: { opacity: 1, y: 0 }, transition: { duration: 0.5 } };
+
+  const colonyPulse = shouldReduceMotion
+    ? {}
+    : { animate: { scale: [1, 1.1, 1] }, transition: { duration: 2, repeat: Infinity } };
+
+  const bestLine = best && (
+    <p className="text-sm text-muted-foreground">
+      🏅 Personal best: <span className="font-semibold text-forest">{best.population.toLocaleString()}</span>{" "}
+      ({new Date(best.achievedAt).toLocaleDateString()})
+    </p>
+  );
+
+  if (!game) {
+    return (
+      <motion.div className="ghibli-card p-6 w-full max-w-md mx-auto relative z-10 text-center" {...fadeInUp}>
+        <div className="text-4xl mb-2">🧫</div>
+        <h1 className="text-2xl font-bold gradient-text-nature">Solo Practice</h1>
+        <p className="text-sm text-muted-foreground mt-1 mb-6">
+          Guide one colony through {PRACTICE_ROUNDS} rounds on your own.
+          No host, no timer - take as long as you like.
+        </p>
+        <div className="mb-6">{bestLine}</div>
+        <Button
+          type="button"
+          onClick={handleStart}
+          className="w-full h-12 rounded-xl ghibli-button bg-forest hover:bg-forest-dark"
+        >
+          🌱 Start Practicing
+        </Button>
+        <p className="text-xs text-muted-foreground mt-4">
+          <Link href="/" className="underline hover:text-forest">
+            Back to class games
+          </Link>
+        </p>
+      </motion.div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-6 relative z-10">
+      {/* Colony */}
+      <motion.div className="ghibli-card p-6" {...fadeInUp}>
+        <div className="flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <motion.span className="text-3xl" {...colonyPulse}>
+              🦠
+            </motion.span>
+            <span className="text-lg text-muted-foreground">Your Colony:</span>
+          </div>
+          <span className="text-4xl font-bold text-forest">
+            {game.player.population.toLocaleString()}
+          </span>
+        </div>
+        {bestLine && <div className="mt-2">{bestLine}</div>}
+      </motion.div>
+
+      {/* Last round's roll */}
+      {showingResult && lastRound && lastEntry && lastScenario && (
+        <motion.div
+          key={lastRound.round}
+          className={`ghibli-card p-6 text-center ${lastEntry.survived ? "" : "bg-sunset/5"}`}
+          {...fadeInUp}
+        >
+          <div className="text-4xl mb-2">{lastEntry.survived ? "🌸" : "🥀"}</div>
+          <h2 className="text-xl font-semibold mb-1">
+            {lastEntry.survived ? "Your colony thrived" : lastEntry.outcome}
+          </h2>
+          <p className="text-muted-foreground mb-3">
+            {getChoiceName(lastScenario, lastEntry.choice)}{" "}
+            · {lastEntry.populationBefore.toLocaleString()} → {lastEntry.populationAfter.toLocaleString()}
+          </p>
+          <p className="text-sm text-muted-foreground mb-4">
+            {lastScenario.explanation}
+          </p>
+          {!isOver && (
+            <Button
+              type="button"
+              onClick={() => setShowingResult(false)}
+              className="h-12 px-8 rounded-xl ghibli-button bg-forest hover:bg-forest-dark"
+            >
+              Next Round →
+            </Button>
+          )}
+        </motion.div>
+      )}
+
+      {/* Choosing */}
+      {!showingResult && scenario && (
+        <>
+          <motion.div {...fadeInUp}>
+            <ScenarioCard
+              scenario={scenario}
+              roundNumber={game.roundResults.length + 1}
+              totalRounds={game.scenarioOrder.length}
+              showOdds={showOdds}
+              population={game.player.population}
+            />
+          </motion.div>
+
+          <label htmlFor={oddsToggleId} className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <input
+              id={oddsToggleId}
+              type="checkbox"
+              checked={showOdds}
+              onChange={(e) => setShowOdds(e.target.checked)}
+              className="accent-forest"
+            />
+            Show the odds and expected values
+          </label>
+
+          <fieldset
+            className={`grid gap-4 ${getChoiceIds(scenario).length === 2 ? "md:grid-cols-2" : "md:grid-cols-3"}`}
+          >
+            <legend className="sr-only">Choose your strategy</legend>
+            {getChoiceIds(scenario).map((choiceId) => {
+              const choice = scenario.choices[choiceId];
+              const tone = CHOICE_TONE_STYLES[getChoiceTone(scenario, choiceId)];
+              return (
+                <button
+                  key={choiceId}
+                  type="button"
+                  role="radio"
+                  aria-checked={selectedChoice === choiceId}
+                  onClick={() => setSelectedChoice(choiceId)}
+                  className={`p-6 rounded-2xl text-left transition-all cursor-pointer ${tone.button} ${
+                    selectedChoice === choiceId ? "selected" : ""
+                  }`}
+                >
+                  <div className="flex items-center gap-3 mb-3">
+                    <span className="text-3xl">{tone.emoji}</span>
+                    <span className={`text-xl font-semibold uppercase ${tone.text}`}>
+                      {getChoiceName(scenario, choiceId)}
+                    </span>
+                  </div>
+                  <p className="text-muted-foreground mb-4">{choice.label}</p>
+                  <div className="flex flex-wrap gap-4 text-sm">
+                    <span className={`px-3 py-1 rounded-full ${tone.chip}`}>
+                      Risk: {Math.round(choice.risk * 100)}%
+                    </span>
+                    <span className={`px-3 py-1 rounded-full ${tone.chip}`}>
+                      Reward: ×{choice.multiplier}
+                    </span>
+                  </div>
+                </button>
+              );
+            })}
+          </fieldset>
+
+          <Button
+            type="button"
+            onClick={handleSubmit}
+            disabled={!selectedChoice}
+            className="w-full h-14 text-lg font-semibold rounded-2xl ghibli-button bg-forest hover:bg-forest-dark disabled:opacity-50"
+          >
+            {selectedChoice ? "✨ Roll the Dice" : "Pick an option"}
+          </Button>
+        </>
+      )}
+
+      {/* Finished */}
+      {isOver && (
+        <>
+          <motion.div className="ghibli-card p-6 text-center" {...fadeInUp}>
+            <div className="text-5xl mb-2">{game.player.isEliminated ? "🥀" : "🏆"}</div>
+            <h2 className="text-2xl font-bold gradient-text-nature mb-1">
+              {game.player.isEliminated
+                ? `Wiped out in round ${game.roundResults.length}`
+                : `Finished with ${game.player.population.toLocaleString()} amoebas`}
+            </h2>
+            {isNewBest && (
+              <p className="text-forest font-semibold mb-2">🎉 New personal best!</p>
+            )}
+            <Button
+              type="button"
+              onClick={handleStart}
+              className="mt-4 h-12 px-8 rounded-xl ghibli-button bg-forest hover:bg-forest-dark"
+            >
+              🔁 Play Again
+            </Button>
+          </motion.div>
+
+          {game.roundResults.length > 1 && (
+            <PopulationChart
+              roundResults={game.roundResults}
+              totalRounds={game.scenarioOrder.length}
+              highlightId={PRACTICE_PLAYER_ID}
+            />
+          )}
+
+          <motion.div className="ghibli-card p-6 overflow-x-auto" {...fadeInUp}>
+            <h2 className="font-semibold mb-1 flex items-center gap-2 text-lg">
+              <span>⚖️</span> You vs. Fixed Strategies
+            </h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Each strategy played the same scenarios thousands of times. &quot;You beat&quot; is the
+              share of those games your colony finished ahead of.
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground">
+                  <th className="text-left font-medium pb-2">Strategy</th>
+                  <th className="text-right font-medium pb-2">Typical result</th>
+                  <th className="text-right font-medium pb-2">Wiped out</th>
+                  <th className="text-right font-medium pb-2">You beat</th>
+                </tr>
+              </thead>
+              <tbody>
+                {baselines.map((row) => (
+                  <tr key={row.strategy} className="border-t border-border/50">
+                    <td className="py-1.5">{row.label}</td>
+                    <td className="py-1.5 text-right font-mono">{row.median.toLocaleString()}</td>
+                    <td className="py-1.5 text-right">{percent(row.eliminationRate)}</td>
+                    <td
+                      className={`py-1.5 text-right font-semibold ${
+                        row.beatRate >= 0.5 ? "text-forest" : "text-sunset"
+                      }`}
+                    >
+                      {percent(row.beatRate)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-muted-foreground mt-3">
+              <Link href="/simulate" className="underline hover:text-forest">
+                Explore these strategies in the simulator
+              </Link>
+            </p>
+          </motion.div>
+        </>
+      )}
+    </div>
+  );
+}
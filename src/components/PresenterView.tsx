@@ -0,0 +1,263 @@
+"use client";
+
+import { useCallback } from "react";
+import { motion, AnimatePresence, useReducedMotion } from "framer-motion";
+import type { GameState, RoundResult, Scenario } from "@/lib/types";
+import { getActivePlayerCount, getLeaderboard } from "@/lib/gameLogic";
+import { countTeamsDecided, getTeamLeaderboard } from "@/lib/teams";
+import { getScenarioById } from "@/lib/scenarios";
+import { CHOICE_TONE_STYLES, getChoiceIds, getChoiceName, getChoiceTone } from "@/lib/choices";
+import { trpc } from "@/lib/trpc";
+import { ScenarioCard } from "./ScenarioCard";
+import { Timer } from "./Timer";
+import { Leaderboard } from "./Leaderboard";
+import { JoinQRCode } from "./JoinQRCode";
+import { TheoryVsRolls } from "./TeachingOverlay";
+
+interface PresenterViewProps {
+  gameState: GameState;
+  joinUrl: string;
+  onGameUpdate: (state: GameState) => void;
+}
+
+// Big-screen layout for projecting a game to the class - read-only, no player is "you"
+export function PresenterView({ gameState, joinUrl, onGameUpdate }: PresenterViewProps) {
+  const shouldReduceMotion = useReducedMotion();
+  const { phase } = gameState;
+  const isPaused = phase === "paused";
+
+  const checkDeadline = trpc.game.checkDeadline.useMutation({
+    onSuccess: (data) => {
+      onGameUpdate(data);
+    },
+  });
+
+  // The projector is one more client that can nudge the server when time runs out
+  const handleExpire = useCallback(() => {
+    if (!isPaused && !checkDeadline.isPending) {
+      checkDeadline.mutate({ code: gameState.code });
+    }
+  }, [isPaused, gameState.code, checkDeadline]);
+
+  const colonies = gameState.players.filter((p) => !p.isHost && !p.isSpectator);
+  const isTeamGame = gameState.teams.length > 0;
+  const teamProgress = countTeamsDecided(
+    gameState.teams,
+    gameState.players,
+    gameState.teamDecision,
+    gameState.currentRound
+  );
+  const playersChosen = isTeamGame
+    ? teamProgress.decided
+    : colonies.filter((p) => !p.isEliminated && p.hasChosen).length;
+  const totalActivePlayers = isTeamGame
+    ? teamProgress.total
+    : getActivePlayerCount(gameState.players);
+  const lastResult = gameState.roundResults[gameState.roundResults.length - 1];
+  const lastScenario = lastResult
+    ? getScenarioById(lastResult.scenarioId, gameState.scenarios)
+    : null;
+  const winner =
+    phase !== "finished"
+      ? undefined
+      : isTeamGame
+        ? getTeamLeaderboard(gameState.teams)[0]?.team
+        : getLeaderboard(gameState.players)[0]?.player;
+
+  const fadeIn = shouldReduceMotion
+    ? { initial: { opacity: 0 }, animate: { opacity: 1 }, exit: { opacity: 0 } }
+    : { initial: { opacity: 0, y: 20 }, animate: { opacity: 1, y: 0 }, exit: { opacity: 0, y: -20 } };
+
+  const countPop = shouldReduceMotion
+    ? {}
+    : { initial: { scale: 1.3 }, animate: { scale: 1 }, transition: { type: "spring", stiffness: 200 } };
+
+  return (
+    <div className="w-full max-w-7xl mx-auto grid gap-8 lg:grid-cols-[1fr_22rem]">
+      <div className="space-y-8 min-w-0">
+        <AnimatePresence mode="wait">
+          {phase === "lobby" && (
+            <motion.div key="lobby" className="ghibli-card p-10 text-center" {...fadeIn}>
+              <h1 className="text-4xl font-bold gradient-text-nature mb-4">Join the Pond</h1>
+              <p className="text-xl text-muted-foreground mb-8">
+                Scan the code or go to <span className="font-medium text-foreground">{joinUrl.split("?")[0]}</span>
+              </p>
+              <div className="flex flex-wrap items-center justify-center gap-10">
+                <JoinQRCode url={joinUrl} size={280} />
+                <div className="text-8xl font-bold tracking-[0.2em] text-forest font-mono">
+                  {gameState.code}
+                </div>
+              </div>
+              <p className="text-2xl text-muted-foreground mt-10">
+                🦠 {colonies.length} {colonies.length === 1 ? "colony" : "colonies"} in the pond
+              </p>
+              <div className="flex flex-wrap justify-center gap-3 mt-4">
+                {colonies.map((player) => (
+                  <motion.span
+                    key={player.id}
+                    className="px-4 py-2 rounded-full bg-meadow/15 text-lg"
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                  >
+                    {player.name}
+                  </motion.span>
+                ))}
+              </div>
+            </motion.div>
+          )}
+
+          {(phase === "playing" || isPaused) && gameState.currentScenario && (
+            <motion.div key={`round-${gameState.currentRound}`} className="space-y-8" {...fadeIn}>
+              {gameState.timerMode !== "none" && (
+                <Timer
+                  startTime={gameState.roundStartTime}
+                  duration={gameState.roundDuration}
+                  pausedTimeRemaining={gameState.pausedTimeRemaining}
+                  isPaused={isPaused}
+                  onExpire={handleExpire}
+                />
+              )}
+              <ScenarioCard
+                scenario={gameState.currentScenario}
+                roundNumber={gameState.currentRound}
+                totalRounds={gameState.totalRounds}
+                showOdds={gameState.teachingMode === "live"}
+                carryingCapacity={gameState.carryingCapacity}
+              />
+              <div className="ghibli-card p-8 text-center">
+                {isPaused ? (
+                  <p className="text-3xl font-semibold text-sunset">⏸️ Paused</p>
+                ) : (
+                  <>
+                    <p className="text-xl text-muted-foreground mb-2">
+                      {isTeamGame ? "Teams that have decided" : "Colonies that have chosen"}
+                    </p>
+                    <motion.p
+                      key={playersChosen}
+                      className="text-7xl font-bold text-forest"
+                      {...countPop}
+                    >
+                      {playersChosen} / {totalActivePlayers}
+                    </motion.p>
+                  </>
+                )}
+              </div>
+            </motion.div>
+          )}
+
+          {phase === "results" && lastResult && lastScenario && (
+            <motion.div key={`results-${lastResult.round}`} className="space-y-8" {...fadeIn}>
+              <div className="ghibli-card p-8 text-center">
+                <h1 className="text-4xl font-bold gradient-text-nature mb-2">
+                  Round {lastResult.round} Complete
+                </h1>
+                <p className="text-xl text-muted-foreground">{lastScenario.title}</p>
+              </div>
+              <SplitReveal result={lastResult} scenario={lastScenario} />
+              {gameState.teachingMode !== "off" && (
+                <TheoryVsRolls
+                  scenario={lastScenario}
+                  roundResult={lastResult}
+                  carryingCapacity={gameState.carryingCapacity}
+                  hostId={gameState.hostId}
+                />
+              )}
+              <div className="ghibli-card p-8">
+                <h2 className="text-2xl font-semibold mb-3 text-pond">🔬 Science Fact</h2>
+                <p className="text-xl text-muted-foreground leading-relaxed">
+                  {lastScenario.explanation}
+                </p>
+              </div>
+            </motion.div>
+          )}
+
+          {phase === "finished" && (
+            <motion.div key="finished" className="ghibli-card p-10 text-center" {...fadeIn}>
+              <div className="text-7xl mb-4">🏆</div>
+              <h1 className="text-5xl font-bold gradient-text-nature mb-4">Game Over</h1>
+              {winner && (
+                <p className="text-3xl">
+                  <span className="font-bold text-forest">{winner.name}</span> wins with{" "}
+                  {winner.population.toLocaleString()} amoebas
+                </p>
+              )}
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      <aside className="space-y-6">
+        {phase !== "lobby" && (
+          <div className="ghibli-card p-4 flex items-center gap-4">
+            <JoinQRCode url={joinUrl} size={96} />
+            <div>
+              <p className="text-sm text-muted-foreground">Game code</p>
+              <p className="text-3xl font-bold font-mono tracking-[0.2em] text-forest">
+                {gameState.code}
+              </p>
+            </div>
+          </div>
+        )}
+        <Leaderboard
+          players={gameState.players}
+          teams={gameState.teams}
+          roundResults={gameState.roundResults}
+          carryingCapacity={gameState.carryingCapacity}
+          compact={phase !== "finished"}
+        />
+      </aside>
+    </div>
+  );
+}
+
+// Bars grow from nothing so the class sees the split land, then the counts appear
+function SplitReveal({ result, scenario }: { result: RoundResult; scenario: Scenario }) {
+  const shouldReduceMotion = useReducedMotion();
+  const choiceIds = getChoiceIds(scenario);
+  const total = choiceIds.reduce((sum, id) => sum + (result.split[id] ?? 0), 0);
+  if (total === 0) return null;
+
+  const grow = (index: number, percent: number) =>
+    shouldReduceMotion
+      ? { style: { width: `${percent}%` } }
+      : {
+          initial: { width: 0 },
+          animate: { width: `${percent}%` },
+          transition: { duration: 1.2, delay: 0.4 + index * 0.3, ease: "easeOut" as const },
+        };
+
+  const revealCount = (index: number) =>
+    shouldReduceMotion
+      ? { initial: { opacity: 0 }, animate: { opacity: 1 } }
+      : {
+          initial: { opacity: 0, scale: 0.5 },
+          animate: { opacity: 1, scale: 1 },
+          transition: { delay: 1.6 + index * 0.3, type: "spring" as const },
+        };
+
+  return (
+    <div className="ghibli-card p-8 space-y-5">
+      <h2 className="text-2xl font-semibold">👥 How the Pond Split</h2>
+      {choiceIds.map((id, index) => {
+        const count = result.split[id] ?? 0;
+        const percent = Math.round((count / total) * 100);
+        const tone = CHOICE_TONE_STYLES[getChoiceTone(scenario, id)];
+        return (
+          <div key={id} className="space-y-2">
+            <div className="flex items-center justify-between text-xl">
+              <span className={`font-semibold uppercase ${tone.text}`}>
+                {tone.emoji} {getChoiceName(scenario, id)}
+              </span>
+              <motion.span className="font-bold" {...revealCount(index)}>
+                {count} ({percent}%)
+              </motion.span>
+            </div>
+            <div className="h-8 rounded-full bg-muted overflow-hidden">
+              <motion.div className={`h-full rounded-full ${tone.bar}`} {...grow(index, percent)} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { httpBatchLink } from "@trpc/client";
 import { useState } from "react";
 import { trpc } from "@/lib/trpc";
+import type { SessionInfo } from "@/lib/types";
+import { HISTORY_KEY_HEADER, PLAYER_HEADER, TOKEN_HEADER } from "@/server/context";
 import superjson from "superjson";
 
 function getBaseUrl() {
@@ -11,6 +13,34 @@ function getBaseUrl() {
   return `http://localhost:${process.env.PORT ?? 3000}`;
 }
 
+// sessionStorage key for the teacher key the history dashboard and pack form ask for
+export const HISTORY_KEY_STORAGE = "history_key";
+
+// Attach the stored credentials for the game a batch targets (by its input.code),
+// and the teacher key for history routes and publishing packs
+function getCredentialHeaders(
+  opList: ReadonlyArray<{ path: string; input: unknown }>
+): Record<string, string> {
+  if (typeof window === "undefined") return {};
+
+  if (opList.some((op) => op.path.startsWith("history.") || op.path === "pack.create")) {
+    const historyKey = sessionStorage.getItem(HISTORY_KEY_STORAGE);
+    if (historyKey) return { [HISTORY_KEY_HEADER]: historyKey };
+  }
+
+  for (const op of opList) {
+    const code = (op.input as { code?: unknown } | undefined)?.code;
+    if (typeof code !== "string") continue;
+
+    const stored = sessionStorage.getItem(`game_${code.toUpperCase()}`);
+    if (!stored) continue;
+
+    const { playerId, secretToken } = JSON.parse(stored) as SessionInfo;
+    return { [PLAYER_HEADER]: playerId, [TOKEN_HEADER]: secretToken };
+  }
+  return {};
+}
+
 export function TRPCProvider({ children }: { children: React.ReactNode }) {
   const [queryClient] = useState(() => new QueryClient());
   const [trpcClient] = useState(() =>
@@ -19,6 +49,7 @@ export function TRPCProvider({ children }: { children: React.ReactNode }) {
         httpBatchLink({
           url: `${getBaseUrl()}/api/trpc`,
           transformer: superjson,
+          headers: ({ opList }) => getCredentialHeaders(opList),
         }),
       ],
     })
@@ -0,0 +1,36 @@
+"use client";
+
+import { motion, useReducedMotion } from "framer-motion";
+
+interface RecoveryPinCardProps {
+  code: string;
+  recoveryPin: string;
+  onDismiss?: () => void; // mid-game the card can be put away once the PIN is written down
+}
+
+// Recovery PIN - lets this player back in from another tab or device
+export function RecoveryPinCard({ code, recoveryPin, onDismiss }: RecoveryPinCardProps) {
+  const shouldReduceMotion = useReducedMotion();
+
+  const fadeInUp = shouldReduceMotion
+    ? { initial: { opacity: 0 }, animate: { opacity: 1 } }
+    : { initial: { opacity: 0, y: 20 }, animate: { opacity: 1, y: 0 }, transition: { duration: 0.5 } };
+
+  return (
+    <motion.div
+      className="ghibli-card p-4 flex flex-wrap items-center justify-center gap-3 text-center"
+      {...fadeInUp}
+    >
+      <span className="text-sm text-muted-foreground">🔑 Your rejoin PIN</span>
+      <span className="text-2xl font-bold font-mono tracking-[0.3em] text-pond">{recoveryPin}</span>
+      <span className="text-xs text-muted-foreground w-full">
+        Write it down - if you close this tab, open /game/{code} and enter your name and PIN
+      </span>
+      {onDismiss && (
+        <button type="button" onClick={onDismiss} className="text-xs text-pond hover:underline">
+          Got it
+        </button>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { motion, useReducedMotion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import type { SessionInfo } from "@/lib/types";
+
+interface RejoinFormProps {
+  code: string;
+  onRejoined: (info: SessionInfo) => void;
+}
+
+export function RejoinForm({ code, onRejoined }: RejoinFormProps) {
+  const [playerName, setPlayerName] = useState("");
+  const [recoveryPin, setRecoveryPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const shouldReduceMotion = useReducedMotion();
+
+  const rejoin = trpc.game.rejoin.useMutation({
+    onSuccess: (data) => {
+      const info: SessionInfo = {
+        playerId: data.playerId,
+        isHost: data.isHost,
+        secretToken: data.secretToken,
+        recoveryPin,
+      };
+      sessionStorage.setItem(`game_${code}`, JSON.stringify(info));
+      onRejoined(info);
+    },
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    if (!playerName.trim() || recoveryPin.length !== 6) return;
+    rejoin.mutate({ code, playerName: playerName.trim(), recoveryPin });
+  };
+
+  const fadeInUp = shouldReduceMotion
+    ? { initial: { opacity: 0 }, animate: { opacity: 1 } }
+    : { initial: { opacity: 0, y: 20 }, animate: { opacity: 1, y: 0 } };
+
+  const pulseAnimation = shouldReduceMotion
+    ? {}
+    : { animate: { opacity: [1, 0.5, 1] }, transition: { duration: 1, repeat: Infinity } };
+
+  return (
+    <motion.div className="ghibli-card p-8 w-full max-w-md" {...fadeInUp}>
+      <div className="text-center mb-6">
+        <div className="text-5xl mb-4">🔑</div>
+        <h1 className="text-xl font-semibold text-pond">Rejoin Game {code}</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Enter your name and the 6-digit PIN you were shown when you joined
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {error && (
+          <div
+            role="alert"
+            className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-xl text-center"
+          >
+            {error}
+          </div>
+        )}
+        <div>
+          <label htmlFor="rejoin-name" className="sr-only">
+            Your name
+          </label>
+          <Input
+            id="rejoin-name"
+            type="text"
+            placeholder="Your name"
+            value={playerName}
+            onChange={(e) => setPlayerName(e.target.value)}
+            maxLength={20}
+            disabled={rejoin.isPending}
+            className="h-12 text-center text-lg border-2 border-pond/20 focus:border-pond rounded-xl bg-background/50"
+          />
+        </div>
+        <div>
+          <label htmlFor="rejoin-pin" className="sr-only">
+            Recovery PIN
+          </label>
+          <Input
+            id="rejoin-pin"
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            placeholder="PIN"
+            value={recoveryPin}
+            onChange={(e) => setRecoveryPin(e.target.value.replace(/\D/g, "").slice(0, 6))}
+            disabled={rejoin.isPending}
+            className="h-12 text-center text-2xl tracking-[0.3em] font-mono border-2 border-pond/20 focus:border-pond rounded-xl bg-background/50"
+          />
+        </div>
+        <Button
+          type="submit"
+          className="w-full h-12 text-lg font-medium rounded-xl ghibli-button bg-pond hover:bg-pond/90"
+          disabled={rejoin.isPending || !playerName.trim() || recoveryPin.length !== 6}
+        >
+          {rejoin.isPending ? (
+            <motion.span {...pulseAnimation}>
+              Rejoining...
+            </motion.span>
+          ) : (
+            <span className="flex items-center gap-2">
+              <span>🌿</span> Rejoin
+            </span>
+          )}
+        </Button>
+      </form>
+
+      <p className="text-sm text-center text-muted-foreground mt-6">
+        New to this game?{" "}
+        <Link href="/" className="underline hover:text-pond">
+          Join from the home page
+        </Link>
+      </p>
+    </motion.div>
+  );
+}
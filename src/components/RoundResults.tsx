@@ -1,18 +1,22 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { motion, useReducedMotion } from "framer-motion";
-import { Button } from "@/components/ui/button";
 import type { GameState } from "@/lib/types";
 import { Leaderboard } from "./Leaderboard";
+import { HostControls } from "./HostControls";
+import { PopulationChart } from "./PopulationChart";
+import { TheoryVsRolls } from "./TeachingOverlay";
 import { trpc } from "@/lib/trpc";
 import { getScenarioById } from "@/lib/scenarios";
+import { DEADLINE_RETRY_SECONDS, getResultsDeadline } from "@/lib/gameLogic";
+import { CHOICE_TONE_STYLES, getChoiceIds, getChoiceName, getChoiceTone } from "@/lib/choices";
+import { getFailureModel, getFailureTiers } from "@/lib/outcomes";
 
 interface RoundResultsProps {
   gameState: GameState;
   playerId: string;
   isHost: boolean;
-  secretToken: string;
   onGameUpdate: (state: GameState) => void;
 }
 
@@ -20,30 +24,64 @@ export function RoundResults({
   gameState,
   playerId,
   isHost,
-  secretToken,
   onGameUpdate,
 }: RoundResultsProps) {
-  const [error, setError] = useState<string | null>(null);
   const shouldReduceMotion = useReducedMotion();
 
-  const nextRound = trpc.game.nextRound.useMutation({
+  const checkDeadline = trpc.game.checkDeadline.useMutation({
     onSuccess: (data) => {
       onGameUpdate(data);
     },
-    onError: (err) => {
-      setError(err.message);
-    },
   });
 
+  // Auto-advance countdown; the server moves on once the delay passes
+  const resultsDeadline = getResultsDeadline(gameState);
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const [showChart, setShowChart] = useState(false);
+  const { mutate: nudgeDeadline } = checkDeadline;
+
+  useEffect(() => {
+    if (resultsDeadline === null) return;
+
+    // Keep nudging until the server agrees, in case this clock runs ahead of it
+    let lastNudge: number | null = null;
+    const tick = () => {
+      const now = Date.now();
+      const remaining = Math.max(0, Math.ceil((resultsDeadline - now) / 1000));
+      setSecondsLeft(remaining);
+      if (
+        remaining === 0 &&
+        (lastNudge === null || now - lastNudge >= DEADLINE_RETRY_SECONDS * 1000)
+      ) {
+        lastNudge = now;
+        nudgeDeadline({ code: gameState.code });
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [resultsDeadline, gameState.code, nudgeDeadline]);
+
   const lastResult = gameState.roundResults[gameState.roundResults.length - 1];
-  const scenario = lastResult ? getScenarioById(lastResult.scenarioId) : null;
-  const playerResult = lastResult?.players.find((p) => p.playerId === playerId);
+  const scenario = lastResult ? getScenarioById(lastResult.scenarioId, gameState.scenarios) : null;
+  const teamId = gameState.players.find((p) => p.id === playerId)?.teamId;
+  // Team games record one result per team
+  const playerResult = lastResult?.players.find(
+    (p) => p.playerId === playerId || (!!teamId && p.playerId === teamId)
+  );
   const isLastRound = gameState.currentRound >= gameState.totalRounds;
-
-  const handleNext = () => {
-    setError(null);
-    nextRound.mutate({ code: gameState.code, hostId: playerId, secretToken });
-  };
+  const playerChoice = playerResult ? scenario?.choices[playerResult.choice] : undefined;
+  // Shared scenarios record the odds everyone actually rolled against
+  const playerOdds = playerResult
+    ? (lastResult?.adjustedChoices?.[playerResult.choice] ?? playerChoice)
+    : undefined;
+  const split = lastResult?.split;
+  const splitTotal = split ? Object.values(split).reduce((sum, count) => sum + count, 0) : 0;
+  const failureTiers =
+    playerResult && playerChoice && !playerResult.survived
+      ? getFailureTiers(getFailureModel(playerChoice), playerResult.populationBefore)
+      : [];
 
   // Animation helpers
   const fadeInScale = shouldReduceMotion
@@ -82,26 +120,12 @@ export function RoundResults({
     ? { initial: { opacity: 0 }, animate: { opacity: 1 } }
     : { initial: { opacity: 0, x: -20 }, animate: { opacity: 1, x: 0 }, transition: { delay: 0.5 + index * 0.05 } };
 
-  const pulseAnimation = shouldReduceMotion
-    ? {}
-    : { animate: { opacity: [1, 0.5, 1] }, transition: { duration: 1, repeat: Infinity } };
-
   const spinAnimation = shouldReduceMotion
     ? {}
     : { animate: { rotate: [0, 360] }, transition: { duration: 8, repeat: Infinity, ease: "linear" } };
 
   return (
     <div className="w-full max-w-4xl mx-auto space-y-6">
-      {/* Error Alert */}
-      {error && (
-        <div
-          role="alert"
-          className="p-4 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-xl text-center"
-        >
-          {error}
-        </div>
-      )}
-
       {/* Round Results Header */}
       <motion.div
         className="ghibli-card p-6 text-center"
@@ -141,14 +165,13 @@ export function RoundResults({
           <div className="mb-4">
             <span className="text-sm text-muted-foreground">You chose</span>
             <motion.div
-              className={`inline-block mx-2 px-4 py-1 rounded-full text-sm font-medium ${
-                playerResult.choice === "safe"
-                  ? "bg-forest/20 text-forest"
-                  : "bg-sunset/20 text-sunset"
+              className={`inline-block mx-2 px-4 py-1 rounded-full text-sm font-medium uppercase ${
+                CHOICE_TONE_STYLES[getChoiceTone(scenario, playerResult.choice)].chip
               }`}
               {...popIn(0.3)}
             >
-              {playerResult.choice === "safe" ? "🌿 SAFE" : "🔥 RISKY"}
+              {CHOICE_TONE_STYLES[getChoiceTone(scenario, playerResult.choice)].emoji}{" "}
+              {getChoiceName(scenario, playerResult.choice)}
             </motion.div>
           </div>
 
@@ -175,9 +198,95 @@ export function RoundResults({
               {playerResult.populationAfter.toLocaleString()}
             </span>
             <span className="text-sm text-muted-foreground">
-              ({playerResult.survived ? `×${playerResult.multiplier}` : "×0.5"})
+              (×{playerResult.multiplier})
             </span>
           </motion.div>
+
+          {/* Logistic growth slowed this colony down */}
+          {playerResult.survived &&
+            playerOdds &&
+            playerResult.multiplier < playerOdds.multiplier && (
+              <motion.p className="mt-4 text-sm text-muted-foreground" {...fadeIn(0.6)}>
+                🫧 Crowding near the carrying capacity slowed growth from ×
+                {playerOdds.multiplier} to ×{playerResult.multiplier}
+              </motion.p>
+            )}
+
+          {/* Which outcome tier hit, against everything that could have happened */}
+          {!playerResult.survived && (
+            <motion.div className="mt-6 text-sm" {...fadeIn(0.6)}>
+              <p className="text-muted-foreground mb-2">
+                Your roll failed ({Math.round((playerOdds?.risk ?? 0) * 100)}% risk):{" "}
+                <span className="font-semibold text-destructive">{playerResult.outcome}</span>
+              </p>
+              {failureTiers.length > 1 && (
+                <div className="flex flex-wrap justify-center gap-2">
+                  {failureTiers.map((tier) => (
+                    <span
+                      key={tier.label}
+                      className={`px-3 py-1 rounded-full ${
+                        tier.label === playerResult.outcome
+                          ? "bg-destructive/15 text-destructive font-medium"
+                          : "bg-muted text-muted-foreground"
+                      }`}
+                    >
+                      {tier.label}: ×{tier.multiplier} ({Math.round(tier.probability * 100)}%)
+                    </span>
+                  ))}
+                </div>
+              )}
+            </motion.div>
+          )}
+        </motion.div>
+      )}
+
+      {/* How everyone chose, and how that shifted the odds in shared scenarios */}
+      {scenario && split && splitTotal > 0 && (
+        <motion.div
+          className="ghibli-card p-6"
+          {...fadeInUp(0.25)}
+        >
+          <h2 className="font-semibold mb-4 flex items-center gap-2">
+            <span>👥</span> How the Pond Split
+          </h2>
+          <div className="flex h-4 rounded-full overflow-hidden bg-muted mb-4">
+            {getChoiceIds(scenario).map((id) =>
+              split[id] ? (
+                <div
+                  key={id}
+                  className={CHOICE_TONE_STYLES[getChoiceTone(scenario, id)].bar}
+                  style={{ width: `${(split[id] / splitTotal) * 100}%` }}
+                />
+              ) : null
+            )}
+          </div>
+          <div className="space-y-2 text-sm">
+            {getChoiceIds(scenario).map((id) => {
+              const base = scenario.choices[id];
+              const adjusted = lastResult?.adjustedChoices?.[id];
+              const shifted =
+                adjusted && (adjusted.risk !== base.risk || adjusted.multiplier !== base.multiplier);
+              return (
+                <div key={id} className="flex flex-wrap justify-between items-center gap-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${
+                    CHOICE_TONE_STYLES[getChoiceTone(scenario, id)].chip
+                  }`}>
+                    {getChoiceName(scenario, id)}: {split[id] ?? 0} (
+                    {Math.round(((split[id] ?? 0) / splitTotal) * 100)}%)
+                  </span>
+                  {adjusted && shifted && (
+                    <span className="text-muted-foreground">
+                      {adjusted.cooperative && "🤝 "}
+                      {Math.round(base.risk * 100)}% risk ×{base.multiplier} →{" "}
+                      <span className="font-medium text-foreground">
+                        {Math.round(adjusted.risk * 100)}% risk ×{adjusted.multiplier}
+                      </span>
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
         </motion.div>
       )}
 
@@ -194,6 +303,18 @@ export function RoundResults({
         </motion.div>
       )}
 
+      {/* Teaching mode: the odds next to what the class rolled */}
+      {scenario && lastResult && gameState.teachingMode !== "off" && (
+        <motion.div {...fadeInUp(0.35)}>
+          <TheoryVsRolls
+            scenario={scenario}
+            roundResult={lastResult}
+            carryingCapacity={gameState.carryingCapacity}
+            hostId={gameState.hostId}
+          />
+        </motion.div>
+      )}
+
       {/* Round Breakdown */}
       <motion.div
         className="ghibli-card p-6"
@@ -217,15 +338,18 @@ export function RoundResults({
                 <span className="text-lg">{result.survived ? "✨" : "💫"}</span>
                 <span className="font-medium">{result.name}</span>
                 <span className={`px-2 py-0.5 rounded-full text-xs ${
-                  result.choice === "safe"
-                    ? "bg-forest/10 text-forest"
-                    : "bg-sunset/10 text-sunset"
+                  CHOICE_TONE_STYLES[getChoiceTone(scenario, result.choice)].chip
                 }`}>
-                  {result.choice}
+                  {getChoiceName(scenario, result.choice).toLowerCase()}
                 </span>
               </div>
-              <span className="font-mono">
-                {result.populationBefore.toLocaleString()} → {result.populationAfter.toLocaleString()}
+              <span className="flex items-center gap-3">
+                {!result.survived && result.outcome && (
+                  <span className="text-xs text-destructive">{result.outcome}</span>
+                )}
+                <span className="font-mono">
+                  {result.populationBefore.toLocaleString()} → {result.populationAfter.toLocaleString()}
+                </span>
               </span>
             </motion.div>
           ))}
@@ -234,31 +358,50 @@ export function RoundResults({
 
       {/* Leaderboard */}
       <motion.div {...fadeInUp(0.5)}>
-        <Leaderboard players={gameState.players} currentPlayerId={playerId} compact />
+        <Leaderboard
+          players={gameState.players}
+          teams={gameState.teams}
+          roundResults={gameState.roundResults}
+          currentPlayerId={playerId}
+          carryingCapacity={gameState.carryingCapacity}
+          compact
+        />
       </motion.div>
 
-      {/* Next Button */}
+      {/* Population History - opt-in so the round's own result stays the focus */}
+      {gameState.roundResults.length > 1 && (
+        <motion.div className="space-y-3" {...fadeInUp(0.55)}>
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={() => setShowChart((shown) => !shown)}
+              aria-expanded={showChart}
+              className="text-sm text-pond hover:underline"
+            >
+              {showChart ? "Hide population chart" : "📈 Show population over time"}
+            </button>
+          </div>
+          {showChart && (
+            <PopulationChart
+              roundResults={gameState.roundResults}
+              totalRounds={gameState.totalRounds}
+              highlightId={teamId ?? playerId}
+              carryingCapacity={gameState.carryingCapacity}
+              hostId={gameState.hostId}
+            />
+          )}
+        </motion.div>
+      )}
+
+      {/* Host Controls */}
+      {isHost && resultsDeadline !== null && secondsLeft !== null && (
+        <p className="text-sm text-center text-muted-foreground">
+          ⏳ Continuing automatically in {secondsLeft}s
+        </p>
+      )}
       {isHost ? (
         <motion.div {...fadeInUp(0.6)}>
-          <Button
-            onClick={handleNext}
-            disabled={nextRound.isPending}
-            className="w-full h-14 text-xl font-semibold rounded-2xl ghibli-button bg-forest hover:bg-forest-dark"
-          >
-            {nextRound.isPending ? (
-              <motion.span {...pulseAnimation}>
-                Loading...
-              </motion.span>
-            ) : isLastRound ? (
-              <span className="flex items-center gap-2">
-                <span>🏆</span> Show Final Results <span>🏆</span>
-              </span>
-            ) : (
-              <span className="flex items-center gap-2">
-                <span>🌸</span> Next Round ({gameState.currentRound + 1}/{gameState.totalRounds}) <span>🌸</span>
-              </span>
-            )}
-          </Button>
+          <HostControls gameState={gameState} onGameUpdate={onGameUpdate} />
         </motion.div>
       ) : (
         <motion.div
@@ -271,7 +414,11 @@ export function RoundResults({
           >
             🍃
           </motion.div>
-          <p className="text-muted-foreground">Waiting for the host to continue...</p>
+          <p className="text-muted-foreground">
+            {resultsDeadline !== null && secondsLeft !== null
+              ? `${isLastRound ? "Final results" : "Next round"} in ${secondsLeft}s...`
+              : "Waiting for the host to continue..."}
+          </p>
         </motion.div>
       )}
     </div>
@@ -2,11 +2,15 @@
 
 import { motion, useReducedMotion } from "framer-motion";
 import type { Scenario } from "@/lib/types";
+import { ChoiceOdds } from "./TeachingOverlay";
 
 interface ScenarioCardProps {
   scenario: Scenario;
   roundNumber: number;
   totalRounds: number;
+  showOdds?: boolean; // teaching mode: each option's odds and expected value
+  population?: number; // the viewer's colony, for expected values
+  carryingCapacity?: number | null;
 }
 
 const scenarioIcons: Record<number, string> = {
@@ -27,8 +31,15 @@ const scenarioIcons: Record<number, string> = {
   15: "⛈️", // Perfect Storm
 };
 
-export function ScenarioCard({ scenario, roundNumber, totalRounds }: ScenarioCardProps) {
-  const icon = scenarioIcons[scenario.id] || "🌿";
+export function ScenarioCard({
+  scenario,
+  roundNumber,
+  totalRounds,
+  showOdds = false,
+  population,
+  carryingCapacity = null,
+}: ScenarioCardProps) {
+  const icon = scenario.icon || scenarioIcons[scenario.id] || "🌿";
   const shouldReduceMotion = useReducedMotion();
 
   const fadeInUp = shouldReduceMotion
@@ -106,6 +117,14 @@ export function ScenarioCard({ scenario, roundNumber, totalRounds }: ScenarioCar
           {scenario.description}
         </motion.p>
 
+        {showOdds && (
+          <ChoiceOdds
+            scenario={scenario}
+            population={population}
+            carryingCapacity={carryingCapacity}
+          />
+        )}
+
         {/* Decorative elements */}
         <div className="flex justify-center mt-6 gap-2">
           <motion.span
@@ -0,0 +1,277 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { motion, useReducedMotion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { scenarioPackSchema, MIN_PACK_SCENARIOS } from "@/lib/scenarioSchema";
+import { MIN_CHOICES, MAX_CHOICES } from "@/lib/choices";
+import { HISTORY_KEY_STORAGE } from "./Providers";
+
+const TEMPLATE_SCENARIOS = [
+  {
+    id: 1,
+    title: "Tide Pool Stranding",
+    description:
+      "The tide is going out and your colony is in a shallow pool that will warm up quickly.",
+    icon: "🌊",
+    choices: {
+      safe: { label: "Cling to the shaded rocks", risk: 0.1, multiplier: 1.2 },
+      risky: {
+        label: "Ride the last wave to open water",
+        risk: 0.4,
+        multiplier: 2.1,
+        failure: { type: "multiplier", multiplier: 0.2, label: "Beached - 80% lost" },
+      },
+    },
+    explanation:
+      "Intertidal organisms must survive rapid changes in temperature, salinity and oxygen twice a day.",
+  },
+  {
+    id: 2,
+    title: "Coral Spawning Night",
+    description: "The reef is releasing clouds of eggs - a feast, but every predator is here too.",
+    icon: "🪸",
+    choices: {
+      safe: { label: "Feed at the edge of the cloud", risk: 0.1, multiplier: 1.3 },
+      risky: { label: "Dive into the thickest part", risk: 0.45, multiplier: 2.4 },
+    },
+    explanation:
+      "Mass spawning overwhelms predators with more food than they can eat, so many eggs survive.",
+  },
+  {
+    id: 3,
+    title: "Kelp Forest Shade",
+    description: "A kelp forest offers shelter from the waves but blocks most of the sunlight.",
+    icon: "🌿",
+    choices: {
+      cautious: { name: "Cautious", label: "Shelter deep in the kelp", risk: 0.05, multiplier: 1.1 },
+      balanced: { name: "Balanced", label: "Graze the middle fronds", risk: 0.2, multiplier: 1.5 },
+      allin: { name: "All-in", label: "Drift to the sunny canopy", risk: 0.35, multiplier: 2.0 },
+    },
+    explanation: "Kelp forests are foundation species that create habitat for thousands of organisms.",
+  },
+];
+
+const TEMPLATE_JSON = JSON.stringify(TEMPLATE_SCENARIOS, null, 2);
+
+export function ScenarioPackForm() {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [scenariosJson, setScenariosJson] = useState(TEMPLATE_JSON);
+  const [teacherKey, setTeacherKey] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+  const [savedName, setSavedName] = useState<string | null>(null);
+  const shouldReduceMotion = useReducedMotion();
+
+  const utils = trpc.useUtils();
+  const { data: packs } = trpc.pack.list.useQuery();
+
+  const createPack = trpc.pack.create.useMutation({
+    onSuccess: (data) => {
+      setSavedName(data.name);
+      setName("");
+      setDescription("");
+      setScenariosJson(TEMPLATE_JSON);
+      utils.pack.list.invalidate();
+    },
+    onError: (err) => {
+      // A wrong key shouldn't stick around for the next try
+      if (err.data?.code === "UNAUTHORIZED") {
+        sessionStorage.removeItem(HISTORY_KEY_STORAGE);
+      }
+      setErrors([err.message]);
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors([]);
+    setSavedName(null);
+
+    let scenarios: unknown;
+    try {
+      scenarios = JSON.parse(scenariosJson);
+    } catch {
+      setErrors(["Scenarios must be valid JSON"]);
+      return;
+    }
+
+    // Validate on the client first so authors see every problem at once
+    const result = scenarioPackSchema.safeParse({ name, description, scenarios });
+    if (!result.success) {
+      setErrors(
+        result.error.issues.map((issue) =>
+          issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+        )
+      );
+      return;
+    }
+
+    // Publishing needs the teacher key; it's sent as a header, like the history dashboard's
+    if (teacherKey.trim()) {
+      sessionStorage.setItem(HISTORY_KEY_STORAGE, teacherKey.trim());
+      setTeacherKey("");
+    }
+    createPack.mutate(result.data);
+  };
+
+  const fadeInUp = shouldReduceMotion
+    ? { initial: { opacity: 0 }, animate: { opacity: 1 } }
+    : { initial: { opacity: 0, y: 20 }, animate: { opacity: 1, y: 0 }, transition: { duration: 0.5 } };
+
+  const pulseAnimation = shouldReduceMotion
+    ? {}
+    : { animate: { opacity: [1, 0.5, 1] }, transition: { duration: 1, repeat: Infinity } };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto space-y-8 relative z-10">
+      <motion.div className="ghibli-card p-6" {...fadeInUp}>
+        <div className="text-center mb-6">
+          <div className="text-4xl mb-2">📝</div>
+          <h1 className="text-2xl font-bold gradient-text-nature">Write a Scenario Pack</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Author your own ecosystem - at least {MIN_PACK_SCENARIOS} scenarios, each with{" "}
+            {MIN_CHOICES} to {MAX_CHOICES} choices keyed by a short id like safe, balanced or risky
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {errors.length > 0 && (
+            <div
+              role="alert"
+              className="p-3 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-xl"
+            >
+              <ul className="space-y-1">
+                {errors.map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {savedName && (
+            <div
+              role="status"
+              className="p-3 text-sm text-forest bg-forest/10 border border-forest/20 rounded-xl text-center"
+            >
+              🌸 &quot;{savedName}&quot; saved! Hosts can now pick it when creating a game.
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="pack-name" className="sr-only">
+              Pack name
+            </label>
+            <Input
+              id="pack-name"
+              type="text"
+              placeholder="Pack name (e.g. Marine Life)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={60}
+              disabled={createPack.isPending}
+              className="h-12 text-center text-lg border-2 border-forest/20 focus:border-forest rounded-xl bg-background/50"
+            />
+          </div>
+          <div>
+            <label htmlFor="pack-description" className="sr-only">
+              Pack description
+            </label>
+            <Input
+              id="pack-description"
+              type="text"
+              placeholder="Short description (optional)"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={300}
+              disabled={createPack.isPending}
+              className="h-10 border-2 border-forest/20 focus:border-forest rounded-xl bg-background/50"
+            />
+          </div>
+          <div>
+            <label
+              htmlFor="pack-scenarios"
+              className="block text-sm font-medium text-muted-foreground mb-2"
+            >
+              Scenarios (JSON)
+            </label>
+            <textarea
+              id="pack-scenarios"
+              value={scenariosJson}
+              onChange={(e) => setScenariosJson(e.target.value)}
+              disabled={createPack.isPending}
+              spellCheck={false}
+              rows={18}
+              className="w-full p-3 font-mono text-xs rounded-xl border-2 border-forest/20 focus:border-forest outline-none bg-background/50"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              Risk is the chance (0-1) of a bad outcome; the multiplier is applied when the colony
+              survives. An optional failure sets the damage: a multiplier, a fixed loss, or a
+              distribution of weighted tiers (default: lose half).
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="pack-teacher-key" className="sr-only">
+              Teacher key
+            </label>
+            <Input
+              id="pack-teacher-key"
+              type="password"
+              placeholder="Teacher key (remembered in this tab once entered)"
+              value={teacherKey}
+              onChange={(e) => setTeacherKey(e.target.value)}
+              disabled={createPack.isPending}
+              className="h-10 text-center border-2 border-forest/20 focus:border-forest rounded-xl bg-background/50"
+            />
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full h-12 text-lg font-medium rounded-xl ghibli-button bg-forest hover:bg-forest-dark"
+            disabled={createPack.isPending || !name.trim()}
+          >
+            {createPack.isPending ? (
+              <motion.span {...pulseAnimation}>Saving pack...</motion.span>
+            ) : (
+              <span className="flex items-center gap-2">
+                <span>📚</span> Save Pack
+              </span>
+            )}
+          </Button>
+        </form>
+      </motion.div>
+
+      {/* Existing packs */}
+      <motion.div className="ghibli-card p-6" {...fadeInUp}>
+        <h2 className="font-semibold mb-4 flex items-center gap-2">
+          <span>📚</span> Available Packs
+        </h2>
+        {packs && packs.length > 0 ? (
+          <ul className="space-y-2">
+            {packs.map((pack) => (
+              <li key={pack.id} className="p-3 bg-muted/50 rounded-xl text-sm">
+                <div className="flex justify-between items-center">
+                  <span className="font-medium">{pack.name}</span>
+                  <span className="text-muted-foreground">{pack.scenarioCount} scenarios</span>
+                </div>
+                {pack.description && (
+                  <p className="text-muted-foreground mt-1">{pack.description}</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No custom packs yet.</p>
+        )}
+        <div className="text-center mt-6">
+          <Link href="/" className="text-sm underline text-muted-foreground hover:text-forest">
+            ← Back to the pond
+          </Link>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+"use client";
+
+import { motion, useReducedMotion } from "framer-motion";
+import { STRATEGY_LABELS, type StrategyProfile as Profile } from "@/lib/analytics";
+
+interface StrategyProfileProps {
+  profile: Profile;
+  name?: string; // shown in the compact line
+  compact?: boolean; // one line, for the host's list of every colony
+  heading?: string;
+}
+
+function describeLuck(luck: number): { emoji: string; text: string; className: string } {
+  if (luck >= 0.5) return { emoji: "🍀", text: "Luckier than the odds", className: "text-forest" };
+  if (luck <= -0.5) return { emoji: "🌧️", text: "Unluckier than the odds", className: "text-sunset" };
+  return { emoji: "🎯", text: "About as lucky as the odds", className: "text-muted-foreground" };
+}
+
+// A colony's own decisions reflected back: how often it took risks, what each round was
+// worth on average against what actually happened, and whether the dice were kind
+export function StrategyProfile({
+  profile,
+  name,
+  compact = false,
+  heading = "Your Strategy",
+}: StrategyProfileProps) {
+  const shouldReduceMotion = useReducedMotion();
+  const label = STRATEGY_LABELS[profile.style];
+  const luck = describeLuck(profile.luck);
+  const riskyPercent = Math.round(profile.riskyRate * 100);
+
+  if (compact) {
+    return (
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 py-2 text-sm">
+        <span className="font-medium w-36 truncate">{name}</span>
+        <span className="px-2 py-0.5 rounded-full text-xs bg-meadow/15">
+          {label.emoji} {label.title}
+        </span>
+        <span className="text-muted-foreground">{riskyPercent}% risky</span>
+        <span className={`ml-auto ${luck.className}`} title={luck.text}>
+          {luck.emoji} {profile.successes}/{profile.expectedSuccesses.toFixed(1)} rolls won
+        </span>
+      </div>
+    );
+  }
+
+  const maxPopulation = Math.max(...profile.rounds.flatMap((r) => [r.expected, r.actual]), 1);
+  const growBar = (index: number, percent: number) =>
+    shouldReduceMotion
+      ? { style: { width: `${percent}%` } }
+      : {
+          initial: { width: 0 },
+          animate: { width: `${percent}%` },
+          transition: { duration: 0.6, delay: index * 0.05 },
+        };
+
+  return (
+    <div className="ghibli-card p-6">
+      <h2 className="font-semibold mb-4 flex items-center gap-2 text-lg">
+        <span>🧠</span> {heading}
+      </h2>
+
+      <div className="text-center mb-6">
+        <div className="text-5xl mb-2">{label.emoji}</div>
+        <p className="text-2xl font-bold text-forest dark:text-meadow">{label.title}</p>
+        <p className="text-sm text-muted-foreground mt-1">{label.description}</p>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mb-6 text-center">
+        <div className="p-3 bg-muted/50 rounded-xl">
+          <div className="text-xl font-bold">{riskyPercent}%</div>
+          <div className="text-xs text-muted-foreground">Risky picks</div>
+        </div>
+        <div className="p-3 bg-muted/50 rounded-xl">
+          <div className="text-xl font-bold">
+            {profile.successes} / {profile.rounds.length}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Rolls won (odds said {profile.expectedSuccesses.toFixed(1)})
+          </div>
+        </div>
+        <div className="p-3 bg-muted/50 rounded-xl">
+          <div className={`text-xl font-bold ${luck.className}`}>{luck.emoji}</div>
+          <div className="text-xs text-muted-foreground">{luck.text}</div>
+        </div>
+      </div>
+
+      <h3 className="text-sm font-medium mb-2">Expected vs. actual, round by round</h3>
+      <ul className="space-y-2">
+        {profile.rounds.map((round, index) => {
+          const delta = round.actual - round.expected;
+          return (
+            <li key={round.round} className="text-xs">
+              <div className="flex justify-between mb-1">
+                <span>
+                  Round {round.round} · {round.tookRisk ? "🔥 risky" : "🌿 safe"} ·{" "}
+                  {Math.round(round.successChance * 100)}% to thrive
+                </span>
+                <span className={delta >= 0 ? "text-forest" : "text-sunset"}>
+                  {delta >= 0 ? "+" : ""}
+                  {Math.round(delta).toLocaleString()} vs. expected
+                </span>
+              </div>
+              <div className="h-1.5 rounded-full bg-muted overflow-hidden mb-0.5">
+                <motion.div
+                  className="h-full rounded-full bg-pond/60"
+                  {...growBar(index, (round.expected / maxPopulation) * 100)}
+                />
+              </div>
+              <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                <motion.div
+                  className={`h-full rounded-full ${round.survived ? "bg-forest" : "bg-sunset"}`}
+                  {...growBar(index, (round.actual / maxPopulation) * 100)}
+                />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      <p className="text-xs text-muted-foreground mt-3">
+        Blue bars show the average result of each pick; green or orange show what the roll gave you.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+"use client";
+
+import { useId, useMemo, useState } from "react";
+import { motion, useReducedMotion } from "framer-motion";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { INITIAL_POPULATION } from "@/lib/gameLogic";
+import {
+  buildHistogram,
+  runSimulation,
+  SIMULATION_STRATEGIES,
+  type SimulationOptions,
+  type SimulationPick,
+  type SimulationStrategy,
+} from "@/lib/simulation";
+
+const STRATEGY_IDS = Object.keys(SIMULATION_STRATEGIES) as SimulationStrategy[];
+const GAME_COUNTS = [1000, 5000, 10000];
+const MAX_ROUNDS = 20;
+const HISTOGRAM_BINS = 24;
+
+const compactNumber = new Intl.NumberFormat(undefined, { notation: "compact" });
+
+// Runs thousands of games per strategy in the browser so a class can see the math behind risk
+export function StrategySimulator() {
+  const [strategy, setStrategy] = useState<SimulationStrategy>("risky");
+  const [rounds, setRounds] = useState(10);
+  const [games, setGames] = useState(GAME_COUNTS[0]);
+  const [threshold, setThreshold] = useState(INITIAL_POPULATION * 3);
+  const [customPicks, setCustomPicks] = useState<SimulationPick[]>(() =>
+    Array.from({ length: 10 }, (_, i) => (i % 3 === 2 ? "risky" : "safe"))
+  );
+  const [seed, setSeed] = useState(1);
+  const [logScale, setLogScale] = useState(true);
+  // Settings only take effect when the teacher presses Run
+  const [run, setRun] = useState<Omit<SimulationOptions, "strategy"> | null>(null);
+  const shouldReduceMotion = useReducedMotion();
+  const logToggleId = useId();
+
+  const summaries = useMemo(
+    () => (run ? STRATEGY_IDS.map((id) => runSimulation({ ...run, strategy: id })) : []),
+    [run]
+  );
+  const selected = summaries.find((s) => s.strategy === strategy);
+  const histogram = selected ? buildHistogram(selected.finalPopulations, HISTOGRAM_BINS, logScale) : [];
+  const tallest = Math.max(...histogram.map((bin) => bin.count), 1);
+
+  const handleRoundsChange = (value: number) => {
+    const next = Math.min(Math.max(value || 1, 1), MAX_ROUNDS);
+    setRounds(next);
+    setCustomPicks((picks) =>
+      Array.from({ length: next }, (_, i) => picks[i] ?? "safe")
+    );
+  };
+
+  const handleRun = () => {
+    setRun({ rounds, games, threshold, customPicks, seed });
+  };
+
+  const fadeInUp = shouldReduceMotion
+    ? { initial: { opacity: 0 }, animate: { opacity: 1 } }
+    : { initial: { opacity: 0, y: 20 }, animate: { opacity: 1, y: 0 }, transition: { duration: 0.5 } };
+
+  const grow = (index: number, percent: number) =>
+    shouldReduceMotion
+      ? { style: { height: `${percent}%` } }
+      : {
+          initial: { height: 0 },
+          animate: { height: `${percent}%` },
+          transition: { duration: 0.5, delay: index * 0.02 },
+        };
+
+  const fieldClass = "h-10 border-2 border-forest/20 focus:border-forest rounded-xl bg-background/50";
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-6 relative z-10">
+      <motion.div className="ghibli-card p-6" {...fadeInUp}>
+        <div className="text-center mb-6">
+          <div className="text-4xl mb-2">🎲</div>
+          <h1 className="text-2xl font-bold gradient-text-nature">Strategy Simulator</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Play one colony through thousands of games with a fixed strategy and see how it tends to end
+          </p>
+        </div>
+
+        <div role="radiogroup" aria-label="Strategy" className="grid gap-2 sm:grid-cols-5 mb-4">
+          {STRATEGY_IDS.map((id) => (
+            <button
+              key={id}
+              type="button"
+              role="radio"
+              aria-checked={strategy === id}
+              onClick={() => setStrategy(id)}
+              title={SIMULATION_STRATEGIES[id].description}
+              className={`p-2 rounded-xl border-2 text-sm font-medium ${
+                strategy === id
+                  ? "border-forest bg-forest/10 text-forest"
+                  : "border-meadow/20 text-muted-foreground hover:border-forest/40"
+              }`}
+            >
+              {SIMULATION_STRATEGIES[id].label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground text-center mb-4">
+          {SIMULATION_STRATEGIES[strategy].description}
+        </p>
+
+        <div className="grid gap-4 sm:grid-cols-3 mb-4">
+          <div>
+            <label htmlFor="sim-rounds" className="block text-xs font-medium text-muted-foreground mb-1">
+              Rounds per game
+            </label>
+            <Input
+              id="sim-rounds"
+              type="number"
+              min={1}
+              max={MAX_ROUNDS}
+              value={rounds}
+              onChange={(e) => handleRoundsChange(parseInt(e.target.value, 10))}
+              className={fieldClass}
+            />
+          </div>
+          <div>
+            <label htmlFor="sim-games" className="block text-xs font-medium text-muted-foreground mb-1">
+              Games to simulate
+            </label>
+            <select
+              id="sim-games"
+              value={games}
+              onChange={(e) => setGames(Number(e.target.value))}
+              className={`w-full px-3 ${fieldClass}`}
+            >
+              {GAME_COUNTS.map((count) => (
+                <option key={count} value={count}>
+                  {count.toLocaleString()}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="sim-seed" className="block text-xs font-medium text-muted-foreground mb-1">
+              Seed (same seed, same results)
+            </label>
+            <Input
+              id="sim-seed"
+              type="number"
+              min={0}
+              value={seed}
+              onChange={(e) => setSeed(Math.max(0, parseInt(e.target.value, 10) || 0))}
+              className={fieldClass}
+            />
+          </div>
+        </div>
+
+        {strategy === "threshold" && (
+          <div className="mb-4">
+            <label htmlFor="sim-threshold" className="block text-xs font-medium text-muted-foreground mb-1">
+              Play safe once the colony reaches
+            </label>
+            <Input
+              id="sim-threshold"
+              type="number"
+              min={1}
+              value={threshold}
+              onChange={(e) => setThreshold(Math.max(1, parseInt(e.target.value, 10) || 1))}
+              className={fieldClass}
+            />
+          </div>
+        )}
+
+        {strategy === "custom" && (
+          <div className="mb-4">
+            <p className="text-xs font-medium text-muted-foreground mb-2">
+              Your plan - click a round to flip it
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {customPicks.map((pick, i) => (
+                <button
+                  key={i}
+                  type="button"
+                  onClick={() =>
+                    setCustomPicks((picks) =>
+                      picks.map((p, j) => (j === i ? (p === "safe" ? "risky" : "safe") : p))
+                    )
+                  }
+                  aria-label={`Round ${i + 1}: ${pick}`}
+                  className={`w-10 py-1 rounded-lg text-xs border-2 ${
+                    pick === "risky"
+                      ? "border-sunset/40 bg-sunset/10 text-sunset"
+                      : "border-forest/30 bg-forest/10 text-forest"
+                  }`}
+                >
+                  <span className="block">{i + 1}</span>
+                  {pick === "risky" ? "🔥" : "🌿"}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <Button
+          type="button"
+          onClick={handleRun}
+          className="w-full h-12 rounded-xl ghibli-button bg-forest hover:bg-forest-dark"
+        >
+          ▶️ Run Simulation
+        </Button>
+      </motion.div>
+
+      {selected && run && (
+        <>
+          <motion.div key={`histogram-${strategy}-${logScale}`} className="ghibli-card p-6" {...fadeInUp}>
+            <div className="flex items-center justify-between gap-4 mb-1">
+              <h2 className="font-semibold flex items-center gap-2 text-lg">
+                <span>📊</span> {SIMULATION_STRATEGIES[strategy].label}: Final Populations
+              </h2>
+              <label htmlFor={logToggleId} className="flex items-center gap-2 text-sm text-muted-foreground">
+                <input
+                  id={logToggleId}
+                  type="checkbox"
+                  checked={logScale}
+                  onChange={(e) => setLogScale(e.target.checked)}
+                  className="accent-forest"
+                />
+                Log scale
+              </label>
+            </div>
+            <p className="text-sm text-muted-foreground mb-4">
+              Surviving colonies after {selected.rounds} rounds, across{" "}
+              {selected.games.toLocaleString()} games.{" "}
+              <span className="text-sunset font-medium">
+                {Math.round(selected.eliminationRate * 100)}% were wiped out
+              </span>{" "}
+              and aren&apos;t shown.
+            </p>
+
+            {histogram.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">🥀 No colony survived</p>
+            ) : (
+              <>
+                <div className="flex items-end gap-0.5 h-48" role="img" aria-label="Histogram of final populations">
+                  {histogram.map((bin, i) => (
+                    <div key={i} className="flex-1 h-full flex items-end">
+                      <motion.div
+                        className="w-full rounded-t bg-forest/70"
+                        title={`${compactNumber.format(Math.round(bin.start))}-${compactNumber.format(Math.round(bin.end))}: ${bin.count.toLocaleString()} games`}
+                        {...grow(i, (bin.count / tallest) * 100)}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                  <span>{compactNumber.format(Math.round(histogram[0].start))}</span>
+                  <span>{compactNumber.format(Math.round(histogram[histogram.length - 1].end))}</span>
+                </div>
+              </>
+            )}
+          </motion.div>
+
+          <motion.div className="ghibli-card p-6 overflow-x-auto" {...fadeInUp}>
+            <h2 className="font-semibold mb-1 flex items-center gap-2 text-lg">
+              <span>⚖️</span> Every Strategy Side by Side
+            </h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Same games and seed for each. The mean rewards the rare huge win; the median is what a
+              typical colony gets.
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground">
+                  <th className="text-left font-medium pb-2">Strategy</th>
+                  <th className="text-right font-medium pb-2">Wiped out</th>
+                  <th className="text-right font-medium pb-2">Median</th>
+                  <th className="text-right font-medium pb-2">Mean</th>
+                  <th className="text-right font-medium pb-2">Middle 80%</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summaries.map((summary) => (
+                  <tr
+                    key={summary.strategy}
+                    onClick={() => setStrategy(summary.strategy)}
+                    className={`border-t border-border/50 cursor-pointer ${
+                      summary.strategy === strategy ? "bg-forest/5 font-medium" : "hover:bg-muted/50"
+                    }`}
+                  >
+                    <td className="py-1.5">{SIMULATION_STRATEGIES[summary.strategy].label}</td>
+                    <td className="py-1.5 text-right">{Math.round(summary.eliminationRate * 100)}%</td>
+                    <td className="py-1.5 text-right font-mono">{compactNumber.format(summary.median)}</td>
+                    <td className="py-1.5 text-right font-mono">{compactNumber.format(Math.round(summary.mean))}</td>
+                    <td className="py-1.5 text-right font-mono">
+                      {compactNumber.format(summary.p10)}-{compactNumber.format(summary.p90)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-muted-foreground mt-3">
+              Every colony starts at {INITIAL_POPULATION}. Scenarios are shuffled each game, and
+              odds that depend on the class&apos;s split use their printed values.
+            </p>
+          </motion.div>
+        </>
+      )}
+    </div>
+  );
+}
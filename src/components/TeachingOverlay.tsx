@@ -0,0 +1,132 @@
+"use client";
+
+import type { RoundResult, Scenario } from "@/lib/types";
+import { CHOICE_TONE_STYLES, getChoiceName, getChoiceTone } from "@/lib/choices";
+import { compareTheoryToRolls, getOptionOdds } from "@/lib/teaching";
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const times = (value: number) => `×${value.toFixed(2)}`;
+
+interface ChoiceOddsProps {
+  scenario: Scenario;
+  population?: number; // the viewer's colony; expected values are worked out for its size
+  carryingCapacity?: number | null;
+}
+
+// The numbers behind each option while players choose (teaching mode "live")
+export function ChoiceOdds({ scenario, population, carryingCapacity = null }: ChoiceOddsProps) {
+  const options = getOptionOdds(scenario, population, {}, carryingCapacity);
+  const hasShared = Object.values(scenario.choices).some((c) => c.shared);
+
+  return (
+    <div className="mt-6 rounded-xl border-2 border-pond/20 bg-pond/5 p-4">
+      <h3 className="text-sm font-semibold text-pond mb-3 flex items-center gap-2">
+        <span>🧮</span> The Odds
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-muted-foreground">
+              <th className="text-left font-medium pb-2">Option</th>
+              <th className="text-right font-medium pb-2">Survive</th>
+              <th className="text-right font-medium pb-2">Growth</th>
+              <th className="text-left font-medium pb-2 pl-4">If it fails</th>
+              <th className="text-right font-medium pb-2">Expected</th>
+            </tr>
+          </thead>
+          <tbody>
+            {options.map((option) => {
+              const tone = CHOICE_TONE_STYLES[getChoiceTone(scenario, option.choice)];
+              return (
+                <tr key={option.choice} className="border-t border-border/50">
+                  <td className={`py-1.5 font-medium ${tone.text}`}>
+                    {tone.emoji} {getChoiceName(scenario, option.choice)}
+                  </td>
+                  <td className="py-1.5 text-right font-mono">{percent(option.survival)}</td>
+                  <td className="py-1.5 text-right font-mono">{times(option.multiplier)}</td>
+                  <td className="py-1.5 pl-4 text-muted-foreground">{option.penalty}</td>
+                  <td className="py-1.5 text-right font-mono font-semibold">
+                    {times(option.expectedMultiplier)}
+                    {population !== undefined && (
+                      <span className="block text-xs font-normal text-muted-foreground">
+                        ≈ {Math.round(option.expectedPopulation).toLocaleString()}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground mt-3">
+        Expected = survive chance × growth + fail chance × what remains after a failure.
+        {hasShared && " Some options' odds shift with how many colonies pick them."}
+      </p>
+    </div>
+  );
+}
+
+interface TheoryVsRollsProps {
+  scenario: Scenario;
+  roundResult: RoundResult;
+  carryingCapacity?: number | null;
+  hostId?: string | null;
+}
+
+// After a round: what the odds promised for each option next to what the class actually rolled
+export function TheoryVsRolls({
+  scenario,
+  roundResult,
+  carryingCapacity = null,
+  hostId = null,
+}: TheoryVsRollsProps) {
+  const comparisons = compareTheoryToRolls(scenario, roundResult, carryingCapacity, hostId);
+
+  return (
+    <div className="ghibli-card p-6">
+      <h2 className="font-semibold mb-1 flex items-center gap-2 text-lg">
+        <span>🧮</span> Theory vs. the Class
+      </h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        {roundResult.adjustedChoices
+          ? "Odds after the class's split shifted them."
+          : "The printed odds for each option."}{" "}
+        With only a few colonies per option, expect the class to drift from the theory.
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-muted-foreground">
+              <th className="text-left font-medium pb-2">Option</th>
+              <th className="text-right font-medium pb-2">Picked</th>
+              <th className="text-right font-medium pb-2">Survival: odds / class</th>
+              <th className="text-right font-medium pb-2">Growth: expected / class</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparisons.map((row) => {
+              const tone = CHOICE_TONE_STYLES[getChoiceTone(scenario, row.choice)];
+              return (
+                <tr key={row.choice} className="border-t border-border/50">
+                  <td className={`py-1.5 font-medium ${tone.text}`}>
+                    {tone.emoji} {getChoiceName(scenario, row.choice)}
+                  </td>
+                  <td className="py-1.5 text-right">{row.picked}</td>
+                  <td className="py-1.5 text-right font-mono">
+                    {percent(row.expectedSurvival)} /{" "}
+                    {row.actualSurvival === null ? "—" : `${percent(row.actualSurvival)} (${row.survived}/${row.picked})`}
+                  </td>
+                  <td className="py-1.5 text-right font-mono">
+                    {times(row.expectedMultiplier)} /{" "}
+                    {row.actualMultiplier === null ? "—" : times(row.actualMultiplier)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
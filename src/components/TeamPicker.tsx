@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import { motion, useReducedMotion } from "framer-motion";
+import type { GameState } from "@/lib/types";
+import { getTeamMembers } from "@/lib/teams";
+import { trpc } from "@/lib/trpc";
+
+interface TeamPickerProps {
+  gameState: GameState;
+  playerId: string;
+  onGameUpdate: (state: GameState) => void;
+}
+
+// Team cards with their members; players can switch freely in the lobby,
+// and someone who arrives mid-game picks once
+export function TeamPicker({ gameState, playerId, onGameUpdate }: TeamPickerProps) {
+  const [error, setError] = useState<string | null>(null);
+  const shouldReduceMotion = useReducedMotion();
+
+  const joinTeam = trpc.game.joinTeam.useMutation({
+    onSuccess: (data) => {
+      onGameUpdate(data);
+    },
+    onError: (err) => {
+      setError(err.message);
+    },
+  });
+
+  const currentPlayer = gameState.players.find((p) => p.id === playerId);
+  const canPick =
+    !!currentPlayer &&
+    !currentPlayer.isHost &&
+    !currentPlayer.isSpectator &&
+    (gameState.phase === "lobby" || !currentPlayer.teamId);
+
+  const cardHover = shouldReduceMotion ? {} : { whileHover: { y: -2 } };
+
+  return (
+    <div className="ghibli-card p-6">
+      <h2 className="text-xl font-semibold flex items-center gap-2 mb-1">
+        <span>🤝</span> Teams
+      </h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        {gameState.teamDecision === "captain"
+          ? "Each round one member captains the team's choice, taking turns."
+          : "Each round the team goes with its members' most popular pick."}
+        {canPick && !currentPlayer?.teamId && " Pick a team - anyone left over is seated when the game starts."}
+      </p>
+
+      {error && (
+        <div
+          role="alert"
+          className="p-3 mb-4 text-sm text-destructive bg-destructive/10 border border-destructive/20 rounded-xl text-center"
+        >
+          {error}
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        {gameState.teams.map((team) => {
+          const members = getTeamMembers(gameState.players, team.id);
+          const isMine = currentPlayer?.teamId === team.id;
+          return (
+            <motion.div
+              key={team.id}
+              className={`p-4 rounded-xl border-2 ${
+                isMine ? "border-forest bg-forest/5" : "border-meadow/20 bg-meadow/10"
+              } ${team.isEliminated ? "opacity-50" : ""}`}
+              {...cardHover}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-semibold">{team.name}</span>
+                <span className="text-xs text-muted-foreground">
+                  {members.length} {members.length === 1 ? "member" : "members"}
+                </span>
+              </div>
+              <div className="flex flex-wrap gap-1 min-h-6 mb-3">
+                {members.map((member) => (
+                  <span
+                    key={member.id}
+                    className={`px-2 py-0.5 rounded-full text-xs ${
+                      member.id === playerId ? "bg-forest/15 text-forest font-medium" : "bg-muted"
+                    }`}
+                  >
+                    {member.name}
+                  </span>
+                ))}
+              </div>
+              {canPick && !isMine && !team.isEliminated && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setError(null);
+                    joinTeam.mutate({ code: gameState.code, teamId: team.id });
+                  }}
+                  disabled={joinTeam.isPending}
+                  className="w-full py-1.5 rounded-lg text-sm font-medium border-2 border-forest/30 text-forest hover:bg-forest/10"
+                >
+                  {currentPlayer?.teamId ? "Switch to this team" : "Join this team"}
+                </button>
+              )}
+              {isMine && <p className="text-xs text-forest text-center">✓ Your team</p>}
+            </motion.div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useRef } from "react";
 import { motion, useReducedMotion } from "framer-motion";
+import { DEADLINE_RETRY_SECONDS } from "@/lib/gameLogic";
 
 // Hoisted animation configs - avoids recreation on every render
 const ANIMATIONS = {
@@ -36,12 +37,13 @@ interface TimerProps {
 
 export function Timer({ startTime, duration, pausedTimeRemaining, isPaused, onExpire }: TimerProps) {
   const [timeLeft, setTimeLeft] = useState(duration);
-  const hasExpiredRef = useRef(false);
+  // When onExpire last fired; it repeats until the round actually ends, in case this clock runs fast
+  const lastExpireRef = useRef<number | null>(null);
   const shouldReduceMotion = useReducedMotion();
 
   // Reset expired state when round changes
   useEffect(() => {
-    hasExpiredRef.current = false;
+    lastExpireRef.current = null;
   }, [startTime]);
 
   // Timer effect - handles all time updates
@@ -72,8 +74,13 @@ export function Timer({ startTime, duration, pausedTimeRemaining, isPaused, onEx
       const remaining = calculateRemaining();
       setTimeLeft(remaining);
 
-      if (remaining === 0 && !hasExpiredRef.current) {
-        hasExpiredRef.current = true;
+      const now = Date.now();
+      if (
+        remaining === 0 &&
+        (lastExpireRef.current === null ||
+          now - lastExpireRef.current >= DEADLINE_RETRY_SECONDS * 1000)
+      ) {
+        lastExpireRef.current = now;
         onExpire?.();
       }
     }, 1000);
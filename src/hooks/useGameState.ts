@@ -2,9 +2,16 @@
 
 import { useEffect, useState, useCallback, useRef } from "react";
 import { createClient } from "@/utils/supabase/client";
-import type { GameState } from "@/lib/types";
-import { getScenarioById } from "@/lib/scenarios";
-import { ROUND_DURATION } from "@/lib/gameLogic";
+import type {
+  BotPersonality,
+  GameState,
+  LateJoinMode,
+  Scenario,
+  TeachingMode,
+  TeamDecision,
+  TimerMode,
+} from "@/lib/types";
+import { getScenarioById, SCENARIOS } from "@/lib/scenarios";
 
 export function useGameState(code: string, initialState?: GameState) {
   const [gameState, setGameState] = useState<GameState | null>(
@@ -21,8 +28,13 @@ export function useGameState(code: string, initialState?: GameState) {
     try {
       // Parallelize game and player fetches - they're independent
       const [gameResult, playersResult] = await Promise.all([
-        supabase.from("games").select("*").eq("code", code).single(),
-        supabase.from("players").select("*").eq("game_code", code).order("created_at", { ascending: true }),
+        // Browsers only get the read-only views; writes go through tRPC
+        supabase.from("public_games").select("*").eq("code", code).single(),
+        supabase
+          .from("public_players")
+          .select("*")
+          .eq("game_code", code)
+          .order("created_at", { ascending: true }),
       ]);
 
       const gameRow = gameResult.data;
@@ -37,10 +49,15 @@ export function useGameState(code: string, initialState?: GameState) {
         isHost: p.is_host,
         hasChosen: p.has_chosen,
         isEliminated: p.is_eliminated,
+        isSpectator: p.is_spectator,
+        teamId: p.team_id,
+        isBot: p.is_bot,
+        botPersonality: p.bot_personality as BotPersonality | null,
       }));
 
+      const scenarios: Scenario[] = gameRow.scenarios || SCENARIOS;
       const currentScenario = gameRow.current_scenario_id
-        ? getScenarioById(gameRow.current_scenario_id)
+        ? getScenarioById(gameRow.current_scenario_id, scenarios)
         : null;
 
       const newState: GameState = {
@@ -52,12 +69,27 @@ export function useGameState(code: string, initialState?: GameState) {
         totalRounds: gameRow.total_rounds,
         currentScenario: currentScenario || null,
         scenarioOrder: gameRow.scenario_order || [],
+        scenarioPackId: gameRow.scenario_pack_id,
+        scenarios,
         roundStartTime: gameRow.round_start_time
           ? new Date(gameRow.round_start_time).getTime()
           : null,
-        roundDuration: ROUND_DURATION,
+        roundDuration: gameRow.round_duration,
+        timerMode: gameRow.timer_mode as TimerMode,
+        roundEndTime: gameRow.round_end_time
+          ? new Date(gameRow.round_end_time).getTime()
+          : null,
+        resultsDelay: gameRow.results_delay,
         roundResults: gameRow.round_results || [],
         pausedTimeRemaining: gameRow.paused_time_remaining,
+        seed: gameRow.seed, // public_games only reveals it once the game is finished
+        carryingCapacity: gameRow.carrying_capacity,
+        bannedNames: gameRow.banned_names ?? [],
+        lateJoin: gameRow.late_join as LateJoinMode,
+        allowSpectators: gameRow.allow_spectators,
+        teams: gameRow.teams ?? [],
+        teamDecision: gameRow.team_decision as TeamDecision,
+        teachingMode: gameRow.teaching_mode as TeachingMode,
       };
 
       setGameState(newState);
@@ -74,33 +106,12 @@ export function useGameState(code: string, initialState?: GameState) {
     // Initial fetch
     fetchGameState();
 
-    // Subscribe to game changes
+    // The server broadcasts on game:CODE whenever the game or its players change
     const channel = supabase
-      .channel(`game-realtime:${code}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "games",
-          filter: `code=eq.${code}`,
-        },
-        () => {
-          fetchGameState();
-        }
-      )
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "players",
-          filter: `game_code=eq.${code}`,
-        },
-        () => {
-          fetchGameState();
-        }
-      )
+      .channel(`game:${code}`)
+      .on("broadcast", { event: "changed" }, () => {
+        fetchGameState();
+      })
       .subscribe((status) => {
         setIsConnected(status === "SUBSCRIBED");
       });
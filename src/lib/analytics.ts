@@ -0,0 +1,138 @@
+import type { ChoiceId, RoundResult, Scenario } from "./types";
+import { applyCarryingCapacity } from "./gameLogic";
+import { getChoiceTone } from "./choices";
+import { getFailureModel, getFailureTiers } from "./outcomes";
+import { getScenarioById } from "./scenarios";
+
+// Decision analytics: how a colony played, separated from how its dice landed
+
+export interface RoundAnalysis {
+  round: number;
+  choice: ChoiceId;
+  tookRisk: boolean; // picked something other than the round's safest option
+  survived: boolean;
+  successChance: number; // 1 - risk, after any shared-environment shift
+  populationBefore: number;
+  expected: number; // average population after the round, over every way the roll could go
+  actual: number;
+}
+
+export type StrategyStyle = "gambler" | "balanced" | "steady";
+
+export interface StrategyProfile {
+  colonyId: string; // player id, or team id in team games
+  rounds: RoundAnalysis[];
+  riskyRate: number; // 0-1 share of rounds with a risky pick
+  successes: number;
+  expectedSuccesses: number; // sum of success chances - what an average-luck colony would get
+  luck: number; // successes - expectedSuccesses; positive = rolled better than the odds
+  style: StrategyStyle;
+}
+
+export const STRATEGY_LABELS: Record<
+  StrategyStyle,
+  { emoji: string; title: string; description: string }
+> = {
+  gambler: {
+    emoji: "🎲",
+    title: "Bold Gambler",
+    description: "You chased big growth, taking the risky path most rounds.",
+  },
+  balanced: {
+    emoji: "⚖️",
+    title: "Balanced Strategist",
+    description: "You mixed caution and daring, picking your moments to take a risk.",
+  },
+  steady: {
+    emoji: "🐢",
+    title: "Steady Survivor",
+    description: "You played it safe most rounds, trading fast growth for survival.",
+  },
+};
+
+// Risky-pick shares at or beyond these thresholds earn the gambler and steady labels
+const GAMBLER_RATE = 0.7;
+const STEADY_RATE = 0.3;
+
+/**
+ * Average population after a round for a given pick, using the odds that were rolled against
+ */
+export function getExpectedPopulation(
+  population: number,
+  scenario: Scenario,
+  choice: ChoiceId,
+  round: Pick<RoundResult, "adjustedChoices">,
+  carryingCapacity: number | null = null
+): number {
+  const option = scenario.choices[choice];
+  if (!option) return population;
+
+  const odds = round.adjustedChoices?.[choice] ?? option;
+  const success = carryingCapacity
+    ? applyCarryingCapacity(population, odds.multiplier, carryingCapacity).newPopulation
+    : Math.floor(population * odds.multiplier);
+  const failure = getFailureTiers(getFailureModel(option), population).reduce(
+    (sum, tier) => sum + tier.probability * Math.floor(population * tier.multiplier),
+    0
+  );
+
+  return (1 - odds.risk) * success + odds.risk * failure;
+}
+
+export function getStrategyStyle(riskyRate: number): StrategyStyle {
+  if (riskyRate >= GAMBLER_RATE) return "gambler";
+  if (riskyRate <= STEADY_RATE) return "steady";
+  return "balanced";
+}
+
+/**
+ * Profile one colony from the rounds it played; null if it never played a round
+ */
+export function analyzeColony(
+  roundResults: RoundResult[],
+  colonyId: string,
+  scenarios: Scenario[],
+  carryingCapacity: number | null = null
+): StrategyProfile | null {
+  const rounds: RoundAnalysis[] = [];
+
+  for (const round of roundResults) {
+    const entry = round.players.find((p) => p.playerId === colonyId);
+    const scenario = getScenarioById(round.scenarioId, scenarios);
+    if (!entry || !scenario?.choices[entry.choice]) continue;
+
+    const risk = round.adjustedChoices?.[entry.choice]?.risk ?? scenario.choices[entry.choice].risk;
+    rounds.push({
+      round: round.round,
+      choice: entry.choice,
+      tookRisk: getChoiceTone(scenario, entry.choice) !== "safe",
+      survived: entry.survived,
+      successChance: 1 - risk,
+      populationBefore: entry.populationBefore,
+      expected: getExpectedPopulation(
+        entry.populationBefore,
+        scenario,
+        entry.choice,
+        round,
+        carryingCapacity
+      ),
+      actual: entry.populationAfter,
+    });
+  }
+
+  if (rounds.length === 0) return null;
+
+  const riskyRate = rounds.filter((r) => r.tookRisk).length / rounds.length;
+  const successes = rounds.filter((r) => r.survived).length;
+  const expectedSuccesses = rounds.reduce((sum, r) => sum + r.successChance, 0);
+
+  return {
+    colonyId,
+    rounds,
+    riskyRate,
+    successes,
+    expectedSuccesses,
+    luck: successes - expectedSuccesses,
+    style: getStrategyStyle(riskyRate),
+  };
+}
@@ -0,0 +1,85 @@
+import type { BotPersonality, ChoiceId, GameState, Player, Scenario } from "./types";
+import { getChoiceIds } from "./choices";
+import { getLeaderboard } from "./gameLogic";
+import { getTeamLeaderboard } from "./teams";
+import type { Rng } from "./random";
+
+// Bot colonies: host-added players that pick on their own, so a small class still has a field to race
+
+export const MAX_BOTS = 10;
+
+export const BOT_PERSONALITIES: Record<
+  BotPersonality,
+  { label: string; emoji: string; description: string }
+> = {
+  cautious: { label: "Cautious", emoji: "🐢", description: "Almost always plays it safe" },
+  reckless: { label: "Reckless", emoji: "🎲", description: "Almost always takes the gamble" },
+  adaptive: {
+    label: "Adaptive",
+    emoji: "🦊",
+    description: "Protects a lead, gambles to catch up",
+  },
+};
+
+const BOT_NAMES = ["Blip", "Wobble", "Squish", "Drift", "Pip", "Glimmer", "Fizz", "Murk", "Ripple", "Sprout"];
+
+// How often each personality reaches for the riskier options (0 = safest, 1 = riskiest)
+const APPETITE: Record<Exclude<BotPersonality, "adaptive">, number> = {
+  cautious: 0.15,
+  reckless: 0.85,
+};
+const ADAPTIVE_LEADER_APPETITE = 0.1;
+const ADAPTIVE_TRAILER_APPETITE = 0.9;
+
+/**
+ * A name no one in the game is using yet, e.g. "Bot Wobble" (then "Bot Wobble 2", ...)
+ */
+export function getBotName(takenNames: string[], rng: Rng): string {
+  const taken = new Set(takenNames.map((name) => name.toLowerCase()));
+  const start = Math.floor(rng() * BOT_NAMES.length);
+  for (let suffix = 1; ; suffix++) {
+    for (let i = 0; i < BOT_NAMES.length; i++) {
+      const base = `Bot ${BOT_NAMES[(start + i) % BOT_NAMES.length]}`;
+      const name = suffix === 1 ? base : `${base} ${suffix}`;
+      if (!taken.has(name.toLowerCase())) return name;
+    }
+  }
+}
+
+/**
+ * Where the bot's colony stands, 0 = leading and 1 = last
+ * Team games rank the bot's team; eliminated colonies don't count
+ */
+export function getBotStanding(gameState: GameState, bot: Player): number {
+  if (gameState.teams.length > 0) {
+    const ranked = getTeamLeaderboard(gameState.teams.filter((t) => !t.isEliminated));
+    const index = ranked.findIndex(({ team }) => team.id === bot.teamId);
+    return ranked.length > 1 && index >= 0 ? index / (ranked.length - 1) : 0;
+  }
+
+  const ranked = getLeaderboard(gameState.players.filter((p) => !p.isHost && !p.isEliminated));
+  const index = ranked.findIndex(({ player }) => player.id === bot.id);
+  return ranked.length > 1 && index >= 0 ? index / (ranked.length - 1) : 0;
+}
+
+/**
+ * The option a bot picks this round
+ * Options are lined up from safest to riskiest and the bot aims at its appetite, give or take
+ * one step, so with two options the appetite is exactly its chance of gambling
+ */
+export function chooseBotChoice(
+  personality: BotPersonality,
+  scenario: Scenario,
+  standing: number,
+  rng: Rng
+): ChoiceId {
+  const options = getChoiceIds(scenario).sort(
+    (a, b) => scenario.choices[a].risk - scenario.choices[b].risk
+  );
+  const appetite =
+    personality === "adaptive"
+      ? ADAPTIVE_LEADER_APPETITE + (ADAPTIVE_TRAILER_APPETITE - ADAPTIVE_LEADER_APPETITE) * standing
+      : APPETITE[personality];
+  const index = Math.round(appetite * (options.length - 1) + rng() - 0.5);
+  return options[Math.min(Math.max(index, 0), options.length - 1)];
+}
@@ -0,0 +1,99 @@
+import type { ChoiceId, Scenario } from "./types";
+
+// Helpers for scenarios with any number of labelled options
+
+export type ChoiceTone = "safe" | "balanced" | "risky";
+
+export const MIN_CHOICES = 2;
+export const MAX_CHOICES = 5;
+
+export const CHOICE_TONE_STYLES: Record<
+  ChoiceTone,
+  { emoji: string; button: string; text: string; chip: string; bar: string }
+> = {
+  safe: {
+    emoji: "🌿",
+    button: "choice-safe",
+    text: "text-forest",
+    chip: "bg-forest/10 text-forest",
+    bar: "bg-forest",
+  },
+  balanced: {
+    emoji: "🌊",
+    button: "choice-balanced",
+    text: "text-pond",
+    chip: "bg-pond/10 text-pond",
+    bar: "bg-pond",
+  },
+  risky: {
+    emoji: "🔥",
+    button: "choice-risky",
+    text: "text-sunset",
+    chip: "bg-sunset/10 text-sunset",
+    bar: "bg-sunset",
+  },
+};
+
+export function getChoiceIds(scenario: Scenario): ChoiceId[] {
+  return Object.keys(scenario.choices);
+}
+
+export function isValidChoice(scenario: Scenario, choice: string): choice is ChoiceId {
+  return Object.hasOwn(scenario.choices, choice);
+}
+
+/**
+ * The option a player gets when they don't choose: the lowest-risk one
+ */
+export function getDefaultChoice(scenario: Scenario): ChoiceId {
+  let best: ChoiceId | null = null;
+  for (const [id, choice] of Object.entries(scenario.choices)) {
+    if (best === null || choice.risk < scenario.choices[best].risk) {
+      best = id;
+    }
+  }
+  return best!;
+}
+
+/**
+ * The highest-risk option - what an always-risky strategy picks
+ */
+export function getRiskiestChoice(scenario: Scenario): ChoiceId {
+  let best: ChoiceId | null = null;
+  for (const [id, choice] of Object.entries(scenario.choices)) {
+    if (best === null || choice.risk > scenario.choices[best].risk) {
+      best = id;
+    }
+  }
+  return best!;
+}
+
+/**
+ * Display name for an option, e.g. "Cautious" or "Safe"
+ */
+export function getChoiceName(scenario: Scenario | null | undefined, choice: ChoiceId): string {
+  const name = scenario?.choices[choice]?.name;
+  return name ?? choice.charAt(0).toUpperCase() + choice.slice(1);
+}
+
+/**
+ * Classify an option by where its risk ranks among the scenario's options
+ * Lowest risk reads as safe, highest as risky, anything between as balanced
+ */
+export function getChoiceTone(scenario: Scenario | null | undefined, choice: ChoiceId): ChoiceTone {
+  if (!scenario || !isValidChoice(scenario, choice)) {
+    return choice === "safe" ? "safe" : "risky";
+  }
+
+  const risk = scenario.choices[choice].risk;
+  let lower = 0;
+  let higher = 0;
+  for (const option of Object.values(scenario.choices)) {
+    if (option.risk < risk) lower++;
+    if (option.risk > risk) higher++;
+  }
+
+  if (lower === 0) return "safe";
+  if (higher === 0) return "risky";
+  return "balanced";
+}
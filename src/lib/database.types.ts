@@ -6,12 +6,40 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[];
 
+// Player columns GameState is built from - keeps credential hashes out of ordinary reads
+export const PUBLIC_PLAYER_COLUMNS =
+  "id, game_code, name, population, is_host, has_chosen, current_choice, is_eliminated, is_spectator, team_id, is_bot, bot_personality, created_at";
+
 export interface Database {
   public: {
     Tables: {
+      scenario_packs: {
+        Row: {
+          id: string;
+          name: string;
+          description: string;
+          scenarios: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          description?: string;
+          scenarios: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+          description?: string;
+          scenarios?: Json;
+          created_at?: string;
+        };
+      };
       games: {
         Row: {
           code: string;
+          seed: number;
           phase: string;
           current_round: number;
           total_rounds: number;
@@ -19,11 +47,25 @@ export interface Database {
           round_start_time: string | null;
           paused_time_remaining: number | null;
           scenario_order: number[];
+          scenario_pack_id: string | null;
+          scenarios: Json | null;
+          carrying_capacity: number | null;
+          round_duration: number;
+          timer_mode: string;
+          round_end_time: string | null;
+          results_delay: number | null;
+          banned_names: string[];
+          late_join: string;
+          allow_spectators: boolean;
+          teams: Json;
+          team_decision: string;
+          teaching_mode: string;
           round_results: Json;
           created_at: string;
         };
         Insert: {
           code: string;
+          seed?: number;
           phase?: string;
           current_round?: number;
           total_rounds?: number;
@@ -31,11 +73,25 @@ export interface Database {
           round_start_time?: string | null;
           paused_time_remaining?: number | null;
           scenario_order?: number[];
+          scenario_pack_id?: string | null;
+          scenarios?: Json | null;
+          carrying_capacity?: number | null;
+          round_duration?: number;
+          timer_mode?: string;
+          round_end_time?: string | null;
+          results_delay?: number | null;
+          banned_names?: string[];
+          late_join?: string;
+          allow_spectators?: boolean;
+          teams?: Json;
+          team_decision?: string;
+          teaching_mode?: string;
           round_results?: Json;
           created_at?: string;
         };
         Update: {
           code?: string;
+          seed?: number;
           phase?: string;
           current_round?: number;
           total_rounds?: number;
@@ -43,6 +99,19 @@ export interface Database {
           round_start_time?: string | null;
           paused_time_remaining?: number | null;
           scenario_order?: number[];
+          scenario_pack_id?: string | null;
+          scenarios?: Json | null;
+          carrying_capacity?: number | null;
+          round_duration?: number;
+          timer_mode?: string;
+          round_end_time?: string | null;
+          results_delay?: number | null;
+          banned_names?: string[];
+          late_join?: string;
+          allow_spectators?: boolean;
+          teams?: Json;
+          team_decision?: string;
+          teaching_mode?: string;
           round_results?: Json;
           created_at?: string;
         };
@@ -57,7 +126,14 @@ export interface Database {
           has_chosen: boolean;
           current_choice: string | null;
           is_eliminated: boolean;
-          secret_token: string;
+          is_spectator: boolean;
+          team_id: string | null;
+          is_bot: boolean;
+          bot_personality: string | null;
+          secret_token_hash: string;
+          recovery_pin_hash: string | null;
+          recovery_attempts: number;
+          recovery_window_start: string | null;
           created_at: string;
         };
         Insert: {
@@ -69,7 +145,14 @@ export interface Database {
           has_chosen?: boolean;
           current_choice?: string | null;
           is_eliminated?: boolean;
-          secret_token?: string;
+          is_spectator?: boolean;
+          team_id?: string | null;
+          is_bot?: boolean;
+          bot_personality?: string | null;
+          secret_token_hash?: string;
+          recovery_pin_hash?: string | null;
+          recovery_attempts?: number;
+          recovery_window_start?: string | null;
           created_at?: string;
         };
         Update: {
@@ -81,10 +164,145 @@ export interface Database {
           has_chosen?: boolean;
           current_choice?: string | null;
           is_eliminated?: boolean;
-          secret_token?: string;
+          is_spectator?: boolean;
+          team_id?: string | null;
+          is_bot?: boolean;
+          bot_personality?: string | null;
+          secret_token_hash?: string;
+          recovery_pin_hash?: string | null;
+          recovery_attempts?: number;
+          recovery_window_start?: string | null;
           created_at?: string;
         };
       };
+      game_history: {
+        Row: {
+          id: string;
+          game_code: string;
+          seed: number;
+          total_rounds: number;
+          player_count: number;
+          is_team_game: boolean;
+          winner: string | null;
+          final_state: Json;
+          started_at: string;
+          finished_at: string;
+        };
+        Insert: {
+          id?: string;
+          game_code: string;
+          seed: number;
+          total_rounds: number;
+          player_count: number;
+          is_team_game?: boolean;
+          winner?: string | null;
+          final_state: Json;
+          started_at: string;
+          finished_at?: string;
+        };
+        Update: {
+          id?: string;
+          game_code?: string;
+          seed?: number;
+          total_rounds?: number;
+          player_count?: number;
+          is_team_game?: boolean;
+          winner?: string | null;
+          final_state?: Json;
+          started_at?: string;
+          finished_at?: string;
+        };
+      };
+      player_history: {
+        Row: {
+          id: string;
+          history_id: string;
+          player_id: string;
+          name: string;
+          final_population: number;
+          is_eliminated: boolean;
+          team_id: string | null;
+          choices: (string | null)[];
+        };
+        Insert: {
+          id?: string;
+          history_id: string;
+          player_id: string;
+          name: string;
+          final_population: number;
+          is_eliminated: boolean;
+          team_id?: string | null;
+          choices?: (string | null)[];
+        };
+        Update: {
+          id?: string;
+          history_id?: string;
+          player_id?: string;
+          name?: string;
+          final_population?: number;
+          is_eliminated?: boolean;
+          team_id?: string | null;
+          choices?: (string | null)[];
+        };
+      };
+    };
+    Views: {
+      // Read-only projections for the anon role (see supabase-schema.sql)
+      public_games: {
+        Row: Omit<Database["public"]["Tables"]["games"]["Row"], "seed"> & {
+          seed: number | null; // NULL until the game is finished
+        };
+      };
+      public_players: {
+        Row: Omit<
+          Database["public"]["Tables"]["players"]["Row"],
+          | "current_choice"
+          | "secret_token_hash"
+          | "recovery_pin_hash"
+          | "recovery_attempts"
+          | "recovery_window_start"
+        >;
+      };
+    };
+    Functions: {
+      record_choice: {
+        Args: {
+          p_code: string;
+          p_round: number;
+          p_player_id: string;
+          p_choice: string;
+        };
+        Returns: boolean;
+      };
+      resolve_round: {
+        Args: {
+          p_code: string;
+          p_round: number;
+          p_choices: Json;
+          p_round_result: Json;
+          p_players: Json;
+          p_teams?: Json | null;
+        };
+        Returns: "resolved" | "stale" | "conflict";
+      };
+      finish_game: {
+        Args: {
+          p_code: string;
+          p_round: number;
+          p_final_state: Json;
+          p_players: Json;
+          p_winner: string | null;
+        };
+        Returns: boolean;
+      };
+      reserve_recovery_attempt: {
+        Args: {
+          p_player_id: string;
+          p_max_attempts: number;
+          p_window_seconds: number;
+        };
+        Returns: boolean;
+      };
     };
   };
 }
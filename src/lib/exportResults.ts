@@ -0,0 +1,124 @@
+import type { GameState, RoundResult } from "./types";
+import { getLeaderboard } from "./gameLogic";
+import { getScenarioById } from "./scenarios";
+import { getChoiceName } from "./choices";
+import { getTeamLeaderboard, getTeamMembers } from "./teams";
+
+// Gradebook export: one row per player per round they played, built from roundResults
+
+export type ExportFormat = "csv" | "json";
+
+export interface ExportRow {
+  player: string;
+  team: string | null; // team games only; every member gets their team's rows
+  round: number;
+  scenario: string;
+  choice: string;
+  survived: boolean;
+  populationBefore: number;
+  populationAfter: number;
+  multiplier: number;
+  finalRank: number;
+  eliminatedRound: number | null; // null if the colony made it to the end
+}
+
+const CSV_COLUMNS: (keyof ExportRow)[] = [
+  "player",
+  "team",
+  "round",
+  "scenario",
+  "choice",
+  "survived",
+  "populationBefore",
+  "populationAfter",
+  "multiplier",
+  "finalRank",
+  "eliminatedRound",
+];
+
+function getEliminatedRound(roundResults: RoundResult[], colonyId: string): number | null {
+  for (const round of roundResults) {
+    const entry = round.players.find((p) => p.playerId === colonyId);
+    if (entry && entry.populationAfter < 1) return round.round;
+  }
+  return null;
+}
+
+export function buildExportRows(gameState: GameState): ExportRow[] {
+  const isTeamGame = gameState.teams.length > 0;
+
+  // Colonies that rolled, with the players credited for them - a team's rows repeat per member
+  const colonies = isTeamGame
+    ? getTeamLeaderboard(gameState.teams).map(({ rank, team }) => ({
+        id: team.id,
+        rank,
+        team: team.name,
+        players: getTeamMembers(gameState.players, team.id).map((p) => p.name),
+      }))
+    : getLeaderboard(gameState.players).map(({ rank, player }) => ({
+        id: player.id,
+        rank,
+        team: null,
+        players: [player.name],
+      }));
+
+  const rows: ExportRow[] = [];
+  for (const colony of colonies) {
+    const eliminatedRound = getEliminatedRound(gameState.roundResults, colony.id);
+    for (const player of colony.players) {
+      for (const round of gameState.roundResults) {
+        const entry = round.players.find((p) => p.playerId === colony.id);
+        if (!entry) continue;
+
+        const scenario = getScenarioById(round.scenarioId, gameState.scenarios);
+        rows.push({
+          player,
+          team: colony.team,
+          round: round.round,
+          scenario: scenario?.title ?? `Scenario ${round.scenarioId}`,
+          choice: getChoiceName(scenario, entry.choice),
+          survived: entry.survived,
+          populationBefore: entry.populationBefore,
+          populationAfter: entry.populationAfter,
+          multiplier: entry.multiplier,
+          finalRank: colony.rank,
+          eliminatedRound,
+        });
+      }
+    }
+  }
+  return rows;
+}
+
+/**
+ * Quote a CSV field when needed; text that a spreadsheet would run as a formula
+ * (a player named "=HYPERLINK(...)") is prefixed with an apostrophe
+ */
+function csvField(value: string | number | boolean | null): string {
+  if (value === null) return "";
+  if (typeof value !== "string") return String(value);
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: ExportRow[]): string {
+  const lines = [
+    CSV_COLUMNS.join(","),
+    ...rows.map((row) => CSV_COLUMNS.map((column) => csvField(row[column])).join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function exportResults(
+  gameState: GameState,
+  format: ExportFormat
+): { filename: string; mimeType: string; content: string } {
+  const rows = buildExportRows(gameState);
+  const filename = `pond-${gameState.code}-results.${format}`;
+
+  if (format === "csv") {
+    return { filename, mimeType: "text/csv", content: toCsv(rows) };
+  }
+  return { filename, mimeType: "application/json", content: JSON.stringify(rows, null, 2) };
+}
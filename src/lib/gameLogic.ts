@@ -1,16 +1,36 @@
-import type { Scenario, Player, RoundResult, GameState } from "./types";
+import type {
+  Scenario,
+  Player,
+  RoundResult,
+  GameState,
+  ChoiceId,
+  LateJoinMode,
+} from "./types";
+import { createRoundRng, type Rng } from "./random";
+import { SCENARIOS } from "./scenarios";
+import { getDefaultChoice, isValidChoice } from "./choices";
+import { getFailureModel, resolveFailure, SUCCESS_OUTCOME } from "./outcomes";
+import {
+  applyAdjustedChoices,
+  countChoices,
+  getAdjustedChoices,
+  hasSharedEffects,
+} from "./sharedEnvironment";
 
 export const INITIAL_POPULATION = 100;
-export const ROUND_DURATION = 30; // seconds
+export const ROUND_DURATION = 30; // seconds, default per game
+export const MIN_ROUND_DURATION = 10;
+export const MAX_ROUND_DURATION = 300;
+export const DEADLINE_RETRY_SECONDS = 3; // clients re-ask until the server's clock agrees time is up
 
 /**
  * Generate a 6-character game code (no confusing chars: O/0, I/1, L/l)
  */
-export function generateGameCode(): string {
+export function generateGameCode(rng: Rng = Math.random): string {
   const chars = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
   let code = "";
   for (let i = 0; i < 6; i++) {
-    code += chars[Math.floor(Math.random() * chars.length)];
+    code += chars[Math.floor(rng() * chars.length)];
   }
   return code;
 }
@@ -20,18 +40,18 @@ export function generateGameCode(): string {
  */
 export function calculateOutcome(
   population: number,
-  choice: "safe" | "risky",
-  scenario: Scenario
-): { survived: boolean; newPopulation: number; multiplier: number } {
+  choice: ChoiceId,
+  scenario: Scenario,
+  rng: Rng = Math.random
+): { survived: boolean; newPopulation: number; multiplier: number; outcome: string } {
   const choiceData = scenario.choices[choice];
-  const roll = Math.random();
+  const roll = rng();
 
   if (roll < choiceData.risk) {
-    // Failed - lose 50% of population
+    // Failed - damage depends on the choice's outcome model (default: lose 50%)
     return {
       survived: false,
-      newPopulation: Math.floor(population * 0.5),
-      multiplier: 0.5,
+      ...resolveFailure(population, getFailureModel(choiceData), rng),
     };
   } else {
     // Survived - apply multiplier
@@ -39,10 +59,55 @@ export function calculateOutcome(
       survived: true,
       newPopulation: Math.floor(population * choiceData.multiplier),
       multiplier: choiceData.multiplier,
+      outcome: SUCCESS_OUTCOME,
     };
   }
 }
 
+/**
+ * Logistic growth: damp a growth multiplier as population nears carrying capacity K
+ * Losses are unaffected; growth stops entirely at K and never overshoots it
+ */
+export function applyCarryingCapacity(
+  population: number,
+  multiplier: number,
+  carryingCapacity: number
+): { newPopulation: number; multiplier: number } {
+  if (multiplier <= 1) {
+    return { newPopulation: Math.floor(population * multiplier), multiplier };
+  }
+
+  const headroom = Math.max(0, 1 - population / carryingCapacity);
+  const damped = 1 + (multiplier - 1) * headroom;
+  const newPopulation = Math.max(
+    population,
+    Math.min(Math.floor(population * damped), carryingCapacity)
+  );
+
+  return {
+    newPopulation,
+    multiplier: population > 0 ? Math.round((newPopulation / population) * 100) / 100 : damped,
+  };
+}
+
+/**
+ * Apply K to a rolled outcome: only successful growth is damped
+ * Failures keep their exact result, since a fixed loss's rounded multiplier can't rebuild it
+ */
+export function applyCapacityToOutcome<
+  T extends { survived: boolean; newPopulation: number; multiplier: number },
+>(population: number, rolled: T, carryingCapacity: number | null | undefined): T {
+  if (!carryingCapacity || !rolled.survived || rolled.multiplier <= 1) return rolled;
+  return { ...rolled, ...applyCarryingCapacity(population, rolled.multiplier, carryingCapacity) };
+}
+
+export interface RoundOptions {
+  // Source of randomness; pass a seeded generator to make the round reproducible
+  rng?: Rng;
+  // Carrying capacity K; when set, growth follows the logistic curve
+  carryingCapacity?: number | null;
+}
+
 /**
  * Process all player choices for a round
  */
@@ -50,25 +115,43 @@ export function processRound(
   players: Player[],
   scenario: Scenario,
   roundNumber: number,
-  choices: Map<string, "safe" | "risky">
+  choices: Map<string, ChoiceId>,
+  options: RoundOptions = {}
 ): { updatedPlayers: Player[]; roundResult: RoundResult } {
+  const rng = options.rng ?? Math.random;
   const results: RoundResult["players"] = [];
 
+  // If player didn't choose (or picked an unknown option), default to the safest option
+  const resolveChoice = (player: Player): ChoiceId => {
+    const chosen = choices.get(player.id);
+    return chosen && isValidChoice(scenario, chosen) ? chosen : getDefaultChoice(scenario);
+  };
+
+  // Shared scenarios settle everyone's odds from the split before any rolls
+  const split = countChoices(players, scenario, resolveChoice);
+  const adjustedChoices = hasSharedEffects(scenario)
+    ? getAdjustedChoices(scenario, split)
+    : undefined;
+  const effectiveScenario = adjustedChoices
+    ? applyAdjustedChoices(scenario, adjustedChoices)
+    : scenario;
+
   const updatedPlayers = players.map((player) => {
-    // Skip eliminated players
-    if (player.isEliminated) {
+    // Skip eliminated players and spectators
+    if (player.isEliminated || player.isSpectator) {
       return player;
     }
 
-    // If player didn't choose, default to safe
-    const choice = choices.get(player.id) || "safe";
-    const outcome = calculateOutcome(player.population, choice, scenario);
+    const choice = resolveChoice(player);
+    const rolled = calculateOutcome(player.population, choice, effectiveScenario, rng);
+    const outcome = applyCapacityToOutcome(player.population, rolled, options.carryingCapacity);
 
     results.push({
       playerId: player.id,
       name: player.name,
       choice,
       survived: outcome.survived,
+      outcome: outcome.outcome,
       populationBefore: player.population,
       populationAfter: outcome.newPopulation,
       multiplier: outcome.multiplier,
@@ -91,10 +174,63 @@ export function processRound(
       round: roundNumber,
       scenarioId: scenario.id,
       players: results,
+      split,
+      ...(adjustedChoices && { adjustedChoices }),
     },
   };
 }
 
+/**
+ * Re-run a game's rounds from its seed and the recorded choices
+ * Returns the round results the game would have produced, for auditing disputed rounds
+ */
+export function replayGame(
+  seed: number,
+  roundResults: RoundResult[],
+  scenarios: Scenario[] = SCENARIOS,
+  carryingCapacity: number | null = null,
+  hostId: string | null = null
+): RoundResult[] {
+  let roster: Player[] = [];
+  const replayed: RoundResult[] = [];
+
+  for (const recorded of roundResults) {
+    const scenario = scenarios.find((s) => s.id === recorded.scenarioId);
+    if (!scenario) {
+      throw new Error(`Unknown scenario ${recorded.scenarioId} in round ${recorded.round}`);
+    }
+
+    // Rebuild the roster in recorded order so rolls are drawn in the same sequence
+    const known = new Map(roster.map((p) => [p.id, p]));
+    const active = recorded.players.map((r) => ({
+      ...(known.get(r.playerId) ?? {
+        id: r.playerId,
+        name: r.name,
+        isHost: r.playerId === hostId, // keeps the host out of shared-environment splits
+        hasChosen: false,
+        isEliminated: false,
+      }),
+      population: r.populationBefore,
+    }));
+    const activeIds = new Set(active.map((p) => p.id));
+    const eliminated = roster.filter((p) => !activeIds.has(p.id));
+
+    const choices = new Map(recorded.players.map((r) => [r.playerId, r.choice]));
+    const { updatedPlayers, roundResult } = processRound(
+      active,
+      scenario,
+      recorded.round,
+      choices,
+      { rng: createRoundRng(seed, recorded.round), carryingCapacity }
+    );
+
+    roster = [...updatedPlayers, ...eliminated];
+    replayed.push(roundResult);
+  }
+
+  return replayed;
+}
+
 /**
  * Get leaderboard sorted by population (descending)
  * Optimized: single reduce pass for filter + copy, then sort
@@ -105,6 +241,7 @@ export function getLeaderboard(
   // Single pass: filter while copying to avoid intermediate array
   const eligiblePlayers: Player[] = [];
   for (const p of players) {
+    if (p.isSpectator) continue;
     if (!p.isHost || players.length === 1) {
       eligiblePlayers.push(p);
     }
@@ -124,24 +261,73 @@ export function getLeaderboard(
  */
 export function allPlayersChosen(players: Player[]): boolean {
   return players.every(
-    (p) => p.isEliminated || p.isHost || p.hasChosen
+    (p) => p.isEliminated || p.isHost || p.isSpectator || p.hasChosen
   );
 }
 
 /**
- * Get active player count (non-eliminated, non-host)
+ * When the running round's timer expires (epoch ms), or null if nothing is counting down
+ */
+export function getRoundDeadline(
+  state: Pick<GameState, "phase" | "timerMode" | "roundStartTime" | "roundDuration">
+): number | null {
+  if (state.phase !== "playing" || state.timerMode === "none" || !state.roundStartTime) {
+    return null;
+  }
+  return state.roundStartTime + state.roundDuration * 1000;
+}
+
+/**
+ * When the results screen should auto-advance (epoch ms), or null if the host advances
+ */
+export function getResultsDeadline(
+  state: Pick<GameState, "phase" | "roundEndTime" | "resultsDelay">
+): number | null {
+  if (state.phase !== "results" || state.resultsDelay === null || !state.roundEndTime) {
+    return null;
+  }
+  return state.roundEndTime + state.resultsDelay * 1000;
+}
+
+/**
+ * Get active player count (non-eliminated, non-host, non-spectator)
  * Optimized: single pass count instead of filter().length
  */
 export function getActivePlayerCount(players: Player[]): number {
   let count = 0;
   for (const p of players) {
-    if (!p.isEliminated && !p.isHost) {
+    if (!p.isEliminated && !p.isHost && !p.isSpectator) {
       count++;
     }
   }
   return count;
 }
 
+/**
+ * Starting population for a player joining a game already in progress
+ * Median mode uses the surviving colonies so a late joiner starts mid-pack; null = not allowed
+ */
+export function getLateJoinPopulation(
+  players: Player[],
+  mode: LateJoinMode
+): number | null {
+  if (mode === "off") return null;
+  if (mode === "initial") return INITIAL_POPULATION;
+
+  const populations = players
+    .filter((p) => !p.isEliminated && !p.isHost && !p.isSpectator)
+    .map((p) => p.population)
+    .sort((a, b) => a - b);
+  if (populations.length === 0) return INITIAL_POPULATION;
+
+  const mid = Math.floor(populations.length / 2);
+  const median =
+    populations.length % 2 === 0
+      ? (populations[mid - 1] + populations[mid]) / 2
+      : populations[mid];
+  return Math.max(1, Math.floor(median));
+}
+
 /**
  * Create initial game state
  */
@@ -149,7 +335,8 @@ export function createInitialGameState(
   code: string,
   hostId: string,
   hostName: string,
-  totalRounds: number = 10
+  totalRounds: number = 10,
+  seed: number | null = null
 ): GameState {
   return {
     code,
@@ -167,11 +354,24 @@ export function createInitialGameState(
     currentRound: 0,
     totalRounds,
     scenarioOrder: [],
+    scenarioPackId: null,
+    scenarios: SCENARIOS,
     currentScenario: null,
     roundStartTime: null,
     roundDuration: ROUND_DURATION,
+    timerMode: "fixed",
+    roundEndTime: null,
+    resultsDelay: null,
     pausedTimeRemaining: null,
+    bannedNames: [],
+    lateJoin: "off",
+    allowSpectators: false,
+    teams: [],
+    teamDecision: "majority",
+    teachingMode: "off",
     roundResults: [],
     hostId,
+    seed,
+    carryingCapacity: null,
   };
 }
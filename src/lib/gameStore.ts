@@ -1,42 +1,93 @@
-import { createClient } from "@/utils/supabase/server";
-import type { GameState, Player, RoundResult } from "./types";
-import type { Database } from "./database.types";
+import { randomUUID } from "crypto";
+import { createServiceClient } from "@/utils/supabase/service";
+import type {
+  BotPersonality,
+  ChoiceId,
+  GameSettings,
+  GameState,
+  LateJoinMode,
+  Player,
+  RoundResult,
+  Scenario,
+  Team,
+  TeachingMode,
+  TeamDecision,
+  TimerMode,
+} from "./types";
+import { PUBLIC_PLAYER_COLUMNS, type Database, type Json } from "./database.types";
 import {
+  allPlayersChosen,
   generateGameCode,
+  getLateJoinPopulation,
+  getResultsDeadline,
+  getRoundDeadline,
   processRound,
   INITIAL_POPULATION,
   ROUND_DURATION,
 } from "./gameLogic";
-import { getShuffledScenarioIds, getScenarioById } from "./scenarios";
+import { getShuffledScenarioIds, getScenarioById, SCENARIOS } from "./scenarios";
+import { getScenarioPack } from "./packStore";
+import { getSamplePack } from "./samplePacks";
+import { isValidChoice } from "./choices";
+import { nameKey } from "./nameFilter";
+import {
+  allTeamsDecided,
+  assignUnteamedPlayers,
+  createTeams,
+  getTeamCaptain,
+  getTeamMembers,
+  processTeamRound,
+} from "./teams";
+import { buildPlayerHistory, getWinnerName } from "./history";
+import { chooseBotChoice, getBotName, getBotStanding, MAX_BOTS } from "./bots";
+import { createRng, createRoundRng, deriveSeed, generateSeed } from "./random";
+import {
+  generateRecoveryPin,
+  generateSecretToken,
+  hashSecret,
+  secretMatches,
+} from "./secrets";
 
 type GameRow = Database["public"]["Tables"]["games"]["Row"];
-type PlayerRow = Database["public"]["Tables"]["players"]["Row"];
+type PlayerRow = Omit<
+  Database["public"]["Tables"]["players"]["Row"],
+  "secret_token_hash" | "recovery_pin_hash" | "recovery_attempts" | "recovery_window_start"
+>;
 
-// Generate a secure random token for player authentication
-function generateSecretToken(): string {
-  return `${Date.now()}_${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
-}
+// Re-rolls allowed when choices keep changing underneath a resolution
+const MAX_RESOLVE_ATTEMPTS = 3;
+
+// PIN tries allowed per window before a player's recovery cools down
+export const MAX_RECOVERY_ATTEMPTS = 5;
+export const RECOVERY_WINDOW_MINUTES = 15;
 
 // Verify that a player's secret token is valid
 export async function verifyPlayer(
   playerId: string,
   secretToken: string
 ): Promise<{ valid: boolean; isHost: boolean; gameCode: string | null }> {
-  const supabase = await createClient();
+  const supabase = createServiceClient();
 
   const { data: player } = await supabase
     .from("players")
-    .select("id, secret_token, is_host, game_code")
+    .select("id, secret_token_hash, is_host, game_code")
     .eq("id", playerId)
     .single();
 
-  if (!player || player.secret_token !== secretToken) {
+  if (!player || !secretMatches(secretToken, player.secret_token_hash)) {
     return { valid: false, isHost: false, gameCode: null };
   }
 
   return { valid: true, isHost: player.is_host, gameCode: player.game_code };
 }
 
+// The seed is masked in GameState until the game ends, so read it straight from the row
+async function getGameSeed(code: string): Promise<number | null> {
+  const supabase = createServiceClient();
+  const { data } = await supabase.from("games").select("seed").eq("code", code).single();
+  return data ? data.seed : null;
+}
+
 // Helper to convert DB rows to GameState
 function rowsToGameState(gameRow: GameRow, playerRows: PlayerRow[]): GameState {
   const players: Player[] = playerRows.map((p) => ({
@@ -46,11 +97,16 @@ function rowsToGameState(gameRow: GameRow, playerRows: PlayerRow[]): GameState {
     isHost: p.is_host,
     hasChosen: p.has_chosen,
     isEliminated: p.is_eliminated,
+    isSpectator: p.is_spectator,
+    teamId: p.team_id,
+    isBot: p.is_bot,
+    botPersonality: p.bot_personality as BotPersonality | null,
   }));
 
   const scenarioOrder = gameRow.scenario_order || [];
+  const scenarios = (gameRow.scenarios as unknown as Scenario[] | null) || SCENARIOS;
   const currentScenario = gameRow.current_scenario_id
-    ? getScenarioById(gameRow.current_scenario_id)
+    ? getScenarioById(gameRow.current_scenario_id, scenarios)
     : null;
 
   return {
@@ -62,20 +118,55 @@ function rowsToGameState(gameRow: GameRow, playerRows: PlayerRow[]): GameState {
     totalRounds: gameRow.total_rounds,
     currentScenario: currentScenario || null,
     scenarioOrder,
+    scenarioPackId: gameRow.scenario_pack_id,
+    scenarios,
     roundStartTime: gameRow.round_start_time
       ? new Date(gameRow.round_start_time).getTime()
       : null,
-    roundDuration: ROUND_DURATION,
+    roundDuration: gameRow.round_duration,
+    timerMode: gameRow.timer_mode as TimerMode,
+    roundEndTime: gameRow.round_end_time
+      ? new Date(gameRow.round_end_time).getTime()
+      : null,
+    resultsDelay: gameRow.results_delay,
     roundResults: (gameRow.round_results as unknown as RoundResult[]) || [],
     pausedTimeRemaining: gameRow.paused_time_remaining,
+    // Hide the seed while the game is live so outcomes can't be predicted
+    seed: gameRow.phase === "finished" ? gameRow.seed : null,
+    carryingCapacity: gameRow.carrying_capacity,
+    bannedNames: gameRow.banned_names ?? [],
+    lateJoin: gameRow.late_join as LateJoinMode,
+    allowSpectators: gameRow.allow_spectators,
+    teams: (gameRow.teams as unknown as Team[] | null) ?? [],
+    teamDecision: gameRow.team_decision as TeamDecision,
+    teachingMode: gameRow.teaching_mode as TeachingMode,
   };
 }
 
 export async function createGame(
   hostName: string,
-  totalRounds: number = 10
-): Promise<{ code: string; hostId: string; secretToken: string }> {
-  const supabase = await createClient();
+  settings: Partial<GameSettings> = {}
+): Promise<{ code: string; hostId: string; secretToken: string; recoveryPin: string }> {
+  const supabase = createServiceClient();
+  const {
+    totalRounds = 10,
+    scenarioPackId = null,
+    carryingCapacity = null,
+    roundDuration = ROUND_DURATION,
+    timerMode = "fixed",
+    resultsDelay = null,
+    lateJoin = "off",
+    allowSpectators = false,
+    teamCount = null,
+    teamDecision = "majority",
+  } = settings;
+
+  // Snapshot the pack so later edits can't change a game in progress
+  const pack = scenarioPackId ? await getScenarioPack(scenarioPackId) : null;
+  if (scenarioPackId && !pack) {
+    throw new Error("Scenario pack not found");
+  }
+
   let code = generateGameCode();
 
   // Ensure unique code
@@ -85,19 +176,32 @@ export async function createGame(
     existing = await supabase.from("games").select("code").eq("code", code).single();
   }
 
-  const hostId = `host_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const hostId = `host_${randomUUID()}`;
   const secretToken = generateSecretToken();
+  const recoveryPin = generateRecoveryPin();
 
   // Create game
   const { error: gameError } = await supabase.from("games").insert({
     code,
+    seed: generateSeed(),
     phase: "lobby",
     current_round: 0,
-    total_rounds: totalRounds,
+    total_rounds: pack ? Math.min(totalRounds, pack.scenarios.length) : totalRounds,
     current_scenario_id: null,
     round_start_time: null,
     paused_time_remaining: null,
     scenario_order: [],
+    // Sample packs aren't rows in scenario_packs, so only the snapshot records them
+    scenario_pack_id: pack && !getSamplePack(pack.id) ? pack.id : null,
+    scenarios: pack?.scenarios ?? null,
+    carrying_capacity: carryingCapacity,
+    round_duration: roundDuration,
+    timer_mode: timerMode,
+    results_delay: resultsDelay,
+    late_join: lateJoin,
+    allow_spectators: allowSpectators,
+    teams: teamCount ? (createTeams(teamCount) as unknown as Json) : [],
+    team_decision: teamDecision,
     round_results: [],
   });
 
@@ -113,21 +217,26 @@ export async function createGame(
     has_chosen: false,
     current_choice: null,
     is_eliminated: false,
-    secret_token: secretToken,
+    secret_token_hash: hashSecret(secretToken),
+    recovery_pin_hash: hashSecret(recoveryPin, hostId),
   });
 
   if (playerError) throw playerError;
 
-  return { code, hostId, secretToken };
+  return { code, hostId, secretToken, recoveryPin };
 }
 
 export async function getGame(code: string): Promise<GameState | null> {
-  const supabase = await createClient();
+  const supabase = createServiceClient();
 
   // Parallelize game and player fetches - they're independent
   const [gameResult, playersResult] = await Promise.all([
     supabase.from("games").select("*").eq("code", code).single(),
-    supabase.from("players").select("*").eq("game_code", code).order("created_at", { ascending: true }),
+    supabase
+      .from("players")
+      .select(PUBLIC_PLAYER_COLUMNS)
+      .eq("game_code", code)
+      .order("created_at", { ascending: true }),
   ]);
 
   if (gameResult.error || !gameResult.data) return null;
@@ -136,20 +245,34 @@ export async function getGame(code: string): Promise<GameState | null> {
   return rowsToGameState(gameResult.data, playersResult.data || []);
 }
 
+/**
+ * Join a game - in the lobby, or mid-game if the host allows late joiners or spectators
+ * Spectators get a session but no colony, so they can only watch
+ */
 export async function joinGame(
   code: string,
-  playerName: string
-): Promise<{ playerId: string; secretToken: string; gameState: GameState } | null> {
-  const supabase = await createClient();
+  playerName: string,
+  asSpectator: boolean = false
+): Promise<{
+  playerId: string;
+  secretToken: string;
+  recoveryPin: string;
+  gameState: GameState;
+} | null> {
+  const supabase = createServiceClient();
 
   // Parallelize game and existing players fetch
   const [gameResult, playersResult] = await Promise.all([
     supabase.from("games").select("*").eq("code", code).single(),
-    supabase.from("players").select("name").eq("game_code", code),
+    supabase.from("players").select(PUBLIC_PLAYER_COLUMNS).eq("game_code", code),
   ]);
 
   const gameRow = gameResult.data;
-  if (!gameRow || gameRow.phase !== "lobby") return null;
+  if (!gameRow || gameRow.phase === "finished") return null;
+  if (asSpectator && !gameRow.allow_spectators) return null;
+
+  // Names the host has banned from this game
+  if (gameRow.banned_names.includes(nameKey(playerName))) return null;
 
   // Check for duplicate names
   const existingPlayers = playersResult.data;
@@ -161,32 +284,98 @@ export async function joinGame(
     return null;
   }
 
-  const playerId = `player_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  let population = INITIAL_POPULATION;
+  if (gameRow.phase !== "lobby" && !asSpectator) {
+    const state = rowsToGameState(gameRow, existingPlayers || []);
+    const lateJoinPopulation = getLateJoinPopulation(state.players, state.lateJoin);
+    if (lateJoinPopulation === null) return null;
+    population = lateJoinPopulation;
+  }
+
+  const playerId = `player_${randomUUID()}`;
   const secretToken = generateSecretToken();
+  const recoveryPin = generateRecoveryPin();
 
   const { error } = await supabase.from("players").insert({
     id: playerId,
     game_code: code,
     name: playerName,
-    population: INITIAL_POPULATION,
+    population,
     is_host: false,
     has_chosen: false,
     current_choice: null,
     is_eliminated: false,
-    secret_token: secretToken,
+    is_spectator: asSpectator,
+    secret_token_hash: hashSecret(secretToken),
+    recovery_pin_hash: hashSecret(recoveryPin, playerId),
+  });
+
+  if (error) return null;
+
+  const gameState = await getGame(code);
+  return gameState ? { playerId, secretToken, recoveryPin, gameState } : null;
+}
+
+/**
+ * Get back into a game (new tab or device) with your name and recovery PIN
+ * Issues a fresh secret token, so the old session stops working
+ */
+export async function rejoinGame(
+  code: string,
+  playerName: string,
+  recoveryPin: string
+): Promise<{
+  playerId: string;
+  isHost: boolean;
+  secretToken: string;
+  gameState: GameState;
+} | null> {
+  const supabase = createServiceClient();
+
+  const { data: playerRows } = await supabase
+    .from("players")
+    .select("id, name, is_host, recovery_pin_hash")
+    .eq("game_code", code);
+
+  // Names are unique per game, ignoring case (see joinGame)
+  const player = playerRows?.find(
+    (p) => p.name.toLowerCase() === playerName.toLowerCase()
+  );
+  if (!player || !player.recovery_pin_hash) return null;
+
+  // Every try is counted before the PIN is checked, atomically, so parallel guesses share the limit
+  const { data: allowed, error: reserveError } = await supabase.rpc("reserve_recovery_attempt", {
+    p_player_id: player.id,
+    p_max_attempts: MAX_RECOVERY_ATTEMPTS,
+    p_window_seconds: RECOVERY_WINDOW_MINUTES * 60,
   });
+  if (reserveError || !allowed) return null;
+
+  if (!secretMatches(recoveryPin, player.recovery_pin_hash, player.id)) return null;
+
+  const secretToken = generateSecretToken();
+  const { error } = await supabase
+    .from("players")
+    .update({
+      secret_token_hash: hashSecret(secretToken),
+      recovery_attempts: 0,
+      recovery_window_start: null,
+    })
+    .eq("id", player.id);
 
   if (error) return null;
 
   const gameState = await getGame(code);
-  return gameState ? { playerId, secretToken, gameState } : null;
+  return gameState
+    ? { playerId: player.id, isHost: player.is_host, secretToken, gameState }
+    : null;
 }
 
 export async function removePlayer(
   code: string,
   playerId: string
 ): Promise<boolean> {
-  const supabase = await createClient();
+  const supabase = createServiceClient();
 
   const { error } = await supabase
     .from("players")
@@ -197,21 +386,256 @@ export async function removePlayer(
   return !error;
 }
 
+// Host removes another player; their client notices it's gone from the roster
+export async function kickPlayer(
+  code: string,
+  hostId: string,
+  playerId: string
+): Promise<GameState | null> {
+  if (playerId === hostId) return null;
+
+  const supabase = createServiceClient();
+  const { data: removed, error } = await supabase
+    .from("players")
+    .delete()
+    .eq("id", playerId)
+    .eq("game_code", code)
+    .eq("is_host", false)
+    .select("id");
+
+  if (error || !removed?.length) return null;
+
+  return await getGame(code);
+}
+
+export async function renamePlayer(
+  code: string,
+  playerId: string,
+  newName: string
+): Promise<GameState | null> {
+  const supabase = createServiceClient();
+
+  const [gameResult, playersResult] = await Promise.all([
+    supabase.from("games").select("banned_names").eq("code", code).single(),
+    supabase.from("players").select("id, name").eq("game_code", code),
+  ]);
+
+  if (!gameResult.data || !playersResult.data) return null;
+  if (gameResult.data.banned_names.includes(nameKey(newName))) return null;
+
+  // Same duplicate rule as joinGame, ignoring the player being renamed
+  if (
+    playersResult.data.some(
+      (p) => p.id !== playerId && p.name.toLowerCase() === newName.toLowerCase()
+    )
+  ) {
+    return null;
+  }
+
+  const { data: renamed, error } = await supabase
+    .from("players")
+    .update({ name: newName })
+    .eq("id", playerId)
+    .eq("game_code", code)
+    .select("id");
+
+  if (error || !renamed?.length) return null;
+
+  return await getGame(code);
+}
+
+/**
+ * Block a name from joining (or being renamed to) this game, and kick anyone using it
+ */
+export async function banName(
+  code: string,
+  name: string
+): Promise<GameState | null> {
+  const supabase = createServiceClient();
+  const key = nameKey(name);
+  if (!key) return null;
+
+  const [gameResult, playersResult] = await Promise.all([
+    supabase.from("games").select("banned_names").eq("code", code).single(),
+    supabase.from("players").select("id, name, is_host").eq("game_code", code),
+  ]);
+
+  if (!gameResult.data || !playersResult.data) return null;
+
+  const bannedNames = gameResult.data.banned_names.includes(key)
+    ? gameResult.data.banned_names
+    : [...gameResult.data.banned_names, key];
+
+  const { error } = await supabase
+    .from("games")
+    .update({ banned_names: bannedNames })
+    .eq("code", code);
+
+  if (error) return null;
+
+  const matching = playersResult.data
+    .filter((p) => !p.is_host && nameKey(p.name) === key)
+    .map((p) => p.id);
+
+  if (matching.length) {
+    await supabase.from("players").delete().eq("game_code", code).in("id", matching);
+  }
+
+  return await getGame(code);
+}
+
+/**
+ * Host adds a bot colony in the lobby; nobody holds its token, the server chooses for it
+ */
+export async function addBot(
+  code: string,
+  personality: BotPersonality
+): Promise<GameState | null> {
+  const supabase = createServiceClient();
+  const gameState = await getGame(code);
+
+  if (!gameState || gameState.phase !== "lobby") return null;
+  if (gameState.players.filter((p) => p.isBot).length >= MAX_BOTS) return null;
+
+  const botId = `player_${randomUUID()}`;
+  const name = getBotName(
+    [...gameState.players.map((p) => p.name), ...gameState.bannedNames],
+    createRng(deriveSeed(generateSeed(), "bot-name"))
+  );
+
+  const { error } = await supabase.from("players").insert({
+    id: botId,
+    game_code: code,
+    name,
+    population: INITIAL_POPULATION,
+    is_host: false,
+    has_chosen: false,
+    current_choice: null,
+    is_eliminated: false,
+    is_bot: true,
+    bot_personality: personality,
+    secret_token_hash: hashSecret(generateSecretToken()),
+  });
+
+  if (error) return null;
+
+  return await getGame(code);
+}
+
+// Bots pick as soon as a round opens, through makeChoice like everyone else
+// Each bot's roll comes from the game seed, so a replayed game picks the same way
+async function playBotTurns(gameState: GameState): Promise<GameState> {
+  const bots = gameState.players.filter((p) => p.isBot && !p.isEliminated && !p.hasChosen);
+  if (bots.length === 0 || !gameState.currentScenario) return gameState;
+
+  const seed = await getGameSeed(gameState.code);
+  if (seed === null) return gameState;
+
+  let current = gameState;
+  for (const bot of bots) {
+    if (current.phase !== "playing" && current.phase !== "paused") break;
+    const choice = chooseBotChoice(
+      bot.botPersonality ?? "cautious",
+      current.currentScenario!,
+      getBotStanding(current, bot),
+      createRng(deriveSeed(seed, "bot", current.currentRound, bot.id))
+    );
+    // Captain games turn away bots that aren't captain this round, which is fine
+    current = (await makeChoice(current.code, bot.id, choice)) ?? current;
+  }
+  return current;
+}
+
+// Switch the teaching overlay; finished games keep whatever they ended with
+export async function setTeachingMode(
+  code: string,
+  mode: TeachingMode
+): Promise<GameState | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("games")
+    .update({ teaching_mode: mode })
+    .eq("code", code)
+    .neq("phase", "finished")
+    .select("code");
+
+  if (error || !data?.length) return null;
+
+  return await getGame(code);
+}
+
+/**
+ * Pick (or switch) teams in the lobby; late joiners can also pick once while the game runs
+ */
+export async function joinTeam(
+  code: string,
+  playerId: string,
+  teamId: string
+): Promise<GameState | null> {
+  const supabase = createServiceClient();
+  const gameState = await getGame(code);
+  if (!gameState || gameState.phase === "finished") return null;
+
+  const team = gameState.teams.find((t) => t.id === teamId);
+  const player = gameState.players.find((p) => p.id === playerId);
+  if (!team || team.isEliminated || !player || player.isHost || player.isSpectator) {
+    return null;
+  }
+  if (gameState.phase !== "lobby" && player.teamId) return null;
+
+  const { error } = await supabase
+    .from("players")
+    .update({ team_id: teamId, population: team.population })
+    .eq("id", playerId)
+    .eq("game_code", code);
+
+  if (error) return null;
+
+  return await getGame(code);
+}
+
 export async function startGame(
   code: string,
   hostId: string
 ): Promise<GameState | null> {
-  const supabase = await createClient();
+  const supabase = createServiceClient();
   const gameState = await getGame(code);
 
   if (!gameState || gameState.hostId !== hostId || gameState.phase !== "lobby") {
     return null;
   }
 
-  const playerCount = gameState.players.filter((p) => !p.isHost).length;
+  const playerCount = gameState.players.filter((p) => !p.isHost && !p.isSpectator).length;
   if (playerCount < 1) return null;
 
-  const scenarioOrder = getShuffledScenarioIds().slice(0, gameState.totalRounds);
+  const seed = await getGameSeed(code);
+  if (seed === null) return null;
+
+  // Team games: seat anyone who didn't pick a team, then drop teams nobody joined
+  let teams = gameState.teams;
+  if (teams.length > 0) {
+    const assignments = assignUnteamedPlayers(gameState.players, teams);
+    for (const { playerId, teamId } of assignments) {
+      const { error } = await supabase
+        .from("players")
+        .update({ team_id: teamId })
+        .eq("id", playerId)
+        .eq("game_code", code);
+      if (error) return null;
+    }
+
+    const seated = gameState.players.map((p) => ({
+      ...p,
+      teamId: assignments.find((a) => a.playerId === p.id)?.teamId ?? p.teamId,
+    }));
+    teams = teams.filter((t) => getTeamMembers(seated, t.id).length > 0);
+  }
+
+  const scenarioOrder = getShuffledScenarioIds(
+    createRng(deriveSeed(seed, "scenarios")),
+    gameState.scenarios
+  ).slice(0, gameState.totalRounds);
   const firstScenarioId = scenarioOrder[0];
 
   const { error } = await supabase
@@ -223,19 +647,22 @@ export async function startGame(
       current_scenario_id: firstScenarioId,
       round_start_time: new Date().toISOString(),
       paused_time_remaining: null,
+      teams: teams as unknown as Json,
     })
-    .eq("code", code);
+    .eq("code", code)
+    .eq("phase", "lobby");
 
   if (error) return null;
 
-  return await getGame(code);
+  const started = await getGame(code);
+  return started && (await playBotTurns(started));
 }
 
 export async function pauseRound(
   code: string,
   hostId: string
 ): Promise<GameState | null> {
-  const supabase = await createClient();
+  const supabase = createServiceClient();
   const gameState = await getGame(code);
 
   if (!gameState || gameState.hostId !== hostId || gameState.phase !== "playing") {
@@ -252,7 +679,8 @@ export async function pauseRound(
       paused_time_remaining: remaining,
       round_start_time: null,
     })
-    .eq("code", code);
+    .eq("code", code)
+    .eq("phase", "playing");
 
   if (error) return null;
 
@@ -263,14 +691,15 @@ export async function resumeRound(
   code: string,
   hostId: string
 ): Promise<GameState | null> {
-  const supabase = await createClient();
+  const supabase = createServiceClient();
   const gameState = await getGame(code);
 
   if (!gameState || gameState.hostId !== hostId || gameState.phase !== "paused") {
     return null;
   }
 
-  const remaining = gameState.pausedTimeRemaining || ROUND_DURATION;
+  // 0 seconds left is a real value, so only fall back when nothing was stored
+  const remaining = gameState.pausedTimeRemaining ?? gameState.roundDuration;
   const newStartTime = new Date(
     Date.now() - (gameState.roundDuration - remaining) * 1000
   );
@@ -282,48 +711,93 @@ export async function resumeRound(
       round_start_time: newStartTime.toISOString(),
       paused_time_remaining: null,
     })
-    .eq("code", code);
+    .eq("code", code)
+    .eq("phase", "paused");
 
   if (error) return null;
 
-  return await getGame(code);
+  // The last choice may have landed during the pause; in all_chosen mode that ends the round now
+  const resumed = await getGame(code);
+  if (resumed && allChosenAndReady(resumed)) {
+    return (await resolveRound(resumed)) ?? resumed;
+  }
+  return resumed;
 }
 
 export async function makeChoice(
   code: string,
   playerId: string,
-  choice: "safe" | "risky"
+  choice: ChoiceId
 ): Promise<GameState | null> {
-  const supabase = await createClient();
+  const supabase = createServiceClient();
   const gameState = await getGame(code);
 
   if (!gameState || (gameState.phase !== "playing" && gameState.phase !== "paused")) {
     return null;
   }
 
+  if (!gameState.currentScenario || !isValidChoice(gameState.currentScenario, choice)) {
+    return null;
+  }
+
   const player = gameState.players.find((p) => p.id === playerId);
-  if (!player || player.isEliminated || player.hasChosen) {
+  if (!player || player.isEliminated || player.isSpectator || player.hasChosen) {
     return null;
   }
 
-  const { error } = await supabase
-    .from("players")
-    .update({
-      has_chosen: true,
-      current_choice: choice,
-    })
-    .eq("id", playerId);
+  // Team games: only team members vote, and in captain games only this round's captain
+  if (gameState.teams.length > 0) {
+    const team = gameState.teams.find((t) => t.id === player.teamId);
+    if (!team || team.isEliminated) return null;
+    if (
+      gameState.teamDecision === "captain" &&
+      getTeamCaptain(getTeamMembers(gameState.players, team.id), gameState.currentRound)?.id !==
+        playerId
+    ) {
+      return null;
+    }
+  }
 
-  if (error) return null;
+  // record_choice re-checks the round under a lock, so a choice can't land mid-resolution
+  const { data: recorded, error } = await supabase.rpc("record_choice", {
+    p_code: code,
+    p_round: gameState.currentRound,
+    p_player_id: playerId,
+    p_choice: choice,
+  });
 
-  return await getGame(code);
+  if (error || !recorded) return null;
+
+  const updated = await getGame(code);
+
+  // In all_chosen mode the last choice ends the round without waiting for the timer
+  if (updated && allChosenAndReady(updated)) {
+    return (await resolveRound(updated)) ?? updated;
+  }
+
+  return updated;
+}
+
+// An all_chosen round that is running (not paused) and has every colony's pick in
+function allChosenAndReady(gameState: GameState): boolean {
+  return (
+    gameState.timerMode === "all_chosen" &&
+    gameState.phase === "playing" &&
+    (gameState.teams.length > 0
+      ? allTeamsDecided(
+          gameState.teams,
+          gameState.players,
+          gameState.teamDecision,
+          gameState.currentRound
+        )
+      : allPlayersChosen(gameState.players))
+  );
 }
 
 export async function endRound(
   code: string,
   hostId: string
 ): Promise<GameState | null> {
-  const supabase = await createClient();
   const gameState = await getGame(code);
 
   if (
@@ -334,78 +808,129 @@ export async function endRound(
     return null;
   }
 
-  // Get player choices
-  const { data: playerRows } = await supabase
-    .from("players")
-    .select("*")
-    .eq("game_code", code);
-
-  if (!playerRows) return null;
+  return await resolveRound(gameState);
+}
 
-  // Build choices map
-  const choices = new Map<string, "safe" | "risky">();
-  playerRows.forEach((p) => {
-    if (p.current_choice) {
-      choices.set(p.id, p.current_choice as "safe" | "risky");
+// Roll the current round and move to results - shared by the host and automatic endings
+// The write goes through resolve_round, which applies it atomically and at most once per round
+async function resolveRound(gameState: GameState): Promise<GameState | null> {
+  const supabase = createServiceClient();
+  const { code, currentRound } = gameState;
+
+  const seed = await getGameSeed(code);
+  if (seed === null) return null;
+
+  let current: GameState | null = gameState;
+  for (let attempt = 0; attempt < MAX_RESOLVE_ATTEMPTS; attempt++) {
+    // Someone else already resolved this round
+    if (
+      !current ||
+      (current.phase !== "playing" && current.phase !== "paused") ||
+      current.currentRound !== currentRound
+    ) {
+      return current;
     }
-  });
 
-  // Process the round
-  const { updatedPlayers, roundResult } = processRound(
-    gameState.players,
-    gameState.currentScenario!,
-    gameState.currentRound,
-    choices
-  );
+    // Get player choices
+    const { data: playerRows } = await supabase
+      .from("players")
+      .select("id, current_choice")
+      .eq("game_code", code);
+
+    if (!playerRows) return null;
+
+    // Build choices map
+    const choices = new Map<string, ChoiceId>();
+    playerRows.forEach((p) => {
+      if (p.current_choice) {
+        choices.set(p.id, p.current_choice);
+      }
+    });
+
+    // Process the round - team games roll once per team
+    const options = {
+      rng: createRoundRng(seed, currentRound),
+      carryingCapacity: current.carryingCapacity,
+    };
+    const { updatedPlayers, roundResult, updatedTeams } =
+      current.teams.length > 0
+        ? processTeamRound(
+            current.teams,
+            current.players,
+            current.currentScenario!,
+            currentRound,
+            choices,
+            current.teamDecision,
+            options
+          )
+        : {
+            ...processRound(current.players, current.currentScenario!, currentRound, choices, options),
+            updatedTeams: null,
+          };
+
+    const { data: status, error } = await supabase.rpc("resolve_round", {
+      p_code: code,
+      p_round: currentRound,
+      p_choices: Object.fromEntries(playerRows.map((p) => [p.id, p.current_choice])),
+      p_round_result: roundResult,
+      p_players: updatedPlayers.map((player) => ({
+        id: player.id,
+        population: player.population,
+        is_eliminated: player.isEliminated,
+      })),
+      p_teams: updatedTeams as unknown as Json,
+    });
 
-  // Update game state
-  const newRoundResults = [...gameState.roundResults, roundResult];
-  const { error: gameError } = await supabase
-    .from("games")
-    .update({
-      phase: "results",
-      paused_time_remaining: null,
-      round_results: newRoundResults,
-    })
-    .eq("code", code);
-
-  if (gameError) return null;
+    if (error) return null;
+    if (status !== "stale") return await getGame(code);
 
-  // Update all players in parallel
-  await Promise.all(
-    updatedPlayers.map((player) =>
-      supabase
-        .from("players")
-        .update({
-          population: player.population,
-          is_eliminated: player.isEliminated,
-          has_chosen: false,
-          current_choice: null,
-        })
-        .eq("id", player.id)
-    )
-  );
+    // A choice landed after we read them - roll again with the full set
+    current = await getGame(code);
+  }
 
-  return await getGame(code);
+  // Choices kept landing on every roll - nothing resolved, so don't report success
+  return null;
 }
 
 export async function nextRound(
   code: string,
   hostId: string
 ): Promise<GameState | null> {
-  const supabase = await createClient();
   const gameState = await getGame(code);
 
   if (!gameState || gameState.hostId !== hostId || gameState.phase !== "results") {
     return null;
   }
 
+  return await advanceRound(gameState);
+}
+
+// Leave the results screen for the next round (or the final results)
+async function advanceRound(gameState: GameState): Promise<GameState | null> {
+  const supabase = createServiceClient();
+  const { code } = gameState;
+
   if (gameState.currentRound >= gameState.totalRounds) {
-    // Game is finished
-    const { error } = await supabase
-      .from("games")
-      .update({ phase: "finished" })
-      .eq("code", code);
+    // Game is finished - archive it in the same step so it outlives the live rows
+    const finalState: GameState = {
+      ...gameState,
+      phase: "finished",
+      seed: await getGameSeed(code),
+    };
+    const { error } = await supabase.rpc("finish_game", {
+      p_code: code,
+      p_round: gameState.currentRound,
+      p_final_state: finalState as unknown as Json,
+      p_players: buildPlayerHistory(finalState).map((player) => ({
+        id: player.playerId,
+        name: player.name,
+        population: player.finalPopulation,
+        is_eliminated: player.isEliminated,
+        team_id: player.teamId,
+        choices: player.choices,
+      })),
+      p_winner: getWinnerName(finalState),
+    });
 
     if (error) return null;
     return await getGame(code);
@@ -422,16 +947,68 @@ export async function nextRound(
       current_round: nextRoundNum,
       current_scenario_id: nextScenarioId,
       round_start_time: new Date().toISOString(),
+      round_end_time: null,
       paused_time_remaining: null,
     })
-    .eq("code", code);
+    .eq("code", code)
+    .eq("phase", "results")
+    .eq("current_round", gameState.currentRound);
 
   if (error) return null;
 
-  return await getGame(code);
+  const advanced = await getGame(code);
+  return advanced && (await playBotTurns(advanced));
+}
+
+/**
+ * Resolve a round whose timer has run out, or leave a results screen whose delay has passed
+ * Lets the server own deadlines so a sleeping host tab can't stall the game
+ */
+export async function advanceIfExpired(
+  code: string,
+  now: number = Date.now()
+): Promise<GameState | null> {
+  const gameState = await getGame(code);
+  if (!gameState) return null;
+
+  const roundDeadline = getRoundDeadline(gameState);
+  if (roundDeadline !== null && now >= roundDeadline) {
+    return (await resolveRound(gameState)) ?? gameState;
+  }
+
+  const resultsDeadline = getResultsDeadline(gameState);
+  if (resultsDeadline !== null && now >= resultsDeadline) {
+    return (await advanceRound(gameState)) ?? gameState;
+  }
+
+  return gameState;
+}
+
+/**
+ * Sweep every live game for expired deadlines - run on a schedule
+ */
+export async function advanceExpiredGames(): Promise<{ checked: number; advanced: number }> {
+  const supabase = createServiceClient();
+  const now = Date.now();
+
+  const { data: gameRows } = await supabase
+    .from("games")
+    .select("*")
+    .in("phase", ["playing", "results"]);
+
+  // Deadlines only need the game row, so skip loading players until one has passed
+  const expired = (gameRows || []).filter((row) => {
+    const state = rowsToGameState(row, []);
+    const deadline = getRoundDeadline(state) ?? getResultsDeadline(state);
+    return deadline !== null && now >= deadline;
+  });
+
+  await Promise.all(expired.map((row) => advanceIfExpired(row.code, now)));
+
+  return { checked: gameRows?.length ?? 0, advanced: expired.length };
 }
 
 export async function deleteGame(code: string): Promise<void> {
-  const supabase = await createClient();
+  const supabase = createServiceClient();
   await supabase.from("games").delete().eq("code", code);
 }
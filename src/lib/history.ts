@@ -0,0 +1,47 @@
+import type { ChoiceId, GameState, Player, PlayerHistory, RoundResult } from "./types";
+import { getLeaderboard } from "./gameLogic";
+import { getTeamLeaderboard } from "./teams";
+
+// Archiving finished games: what gets kept for each colony once the live rows are gone
+
+/**
+ * A player's pick in every round, in order - null for rounds they sat out
+ * (joined late, already eliminated). In team games this is the player's own vote,
+ * which may differ from what the team ended up doing.
+ */
+export function getChoiceSequence(
+  roundResults: RoundResult[],
+  player: Pick<Player, "id" | "teamId">
+): (ChoiceId | null)[] {
+  return roundResults.map((round) => {
+    if (round.teams) {
+      const teamResult = round.teams.find((t) => t.teamId === player.teamId);
+      return teamResult?.votes[player.id] ?? null;
+    }
+    return round.players.find((p) => p.playerId === player.id)?.choice ?? null;
+  });
+}
+
+/**
+ * One record per colony, in final standings order (the host only counts in a solo test game)
+ */
+export function buildPlayerHistory(gameState: GameState): PlayerHistory[] {
+  return getLeaderboard(gameState.players).map(({ player }) => ({
+    playerId: player.id,
+    name: player.name,
+    finalPopulation: player.population,
+    isEliminated: player.isEliminated,
+    teamId: player.teamId ?? null,
+    choices: getChoiceSequence(gameState.roundResults, player),
+  }));
+}
+
+/**
+ * Name of the top team or player, or null if nobody played
+ */
+export function getWinnerName(gameState: GameState): string | null {
+  if (gameState.teams.length > 0) {
+    return getTeamLeaderboard(gameState.teams)[0]?.team.name ?? null;
+  }
+  return getLeaderboard(gameState.players)[0]?.player.name ?? null;
+}
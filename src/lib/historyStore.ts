@@ -0,0 +1,94 @@
+import { createServiceClient } from "@/utils/supabase/service";
+import type {
+  ChoiceId,
+  GameHistory,
+  GameHistorySummary,
+  GameState,
+  PlayerHistory,
+} from "./types";
+import type { Database } from "./database.types";
+
+type GameHistoryRow = Database["public"]["Tables"]["game_history"]["Row"];
+type PlayerHistoryRow = Database["public"]["Tables"]["player_history"]["Row"];
+
+// Games are archived by finish_game (see gameStore's advanceRound); this side only reads
+
+// The list never needs the full final state
+const SUMMARY_COLUMNS =
+  "id, game_code, total_rounds, player_count, is_team_game, winner, started_at, finished_at";
+
+export const HISTORY_PAGE_SIZE = 50;
+
+export interface GameHistoryFilters {
+  from?: string; // ISO date-times, matched against finished_at
+  to?: string;
+  minPlayers?: number;
+  maxPlayers?: number;
+}
+
+function rowToSummary(row: Omit<GameHistoryRow, "seed" | "final_state">): GameHistorySummary {
+  return {
+    id: row.id,
+    code: row.game_code,
+    playerCount: row.player_count,
+    totalRounds: row.total_rounds,
+    isTeamGame: row.is_team_game,
+    winner: row.winner,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+function rowToPlayerHistory(row: PlayerHistoryRow): PlayerHistory {
+  return {
+    playerId: row.player_id,
+    name: row.name,
+    finalPopulation: row.final_population,
+    isEliminated: row.is_eliminated,
+    teamId: row.team_id,
+    choices: row.choices as (ChoiceId | null)[],
+  };
+}
+
+export async function listGameHistory(
+  filters: GameHistoryFilters = {}
+): Promise<GameHistorySummary[]> {
+  const supabase = createServiceClient();
+
+  let query = supabase
+    .from("game_history")
+    .select(SUMMARY_COLUMNS)
+    .order("finished_at", { ascending: false })
+    .limit(HISTORY_PAGE_SIZE);
+
+  if (filters.from) query = query.gte("finished_at", filters.from);
+  if (filters.to) query = query.lte("finished_at", filters.to);
+  if (filters.minPlayers !== undefined) query = query.gte("player_count", filters.minPlayers);
+  if (filters.maxPlayers !== undefined) query = query.lte("player_count", filters.maxPlayers);
+
+  const { data, error } = await query;
+  if (error || !data) return [];
+
+  return data.map(rowToSummary);
+}
+
+export async function getGameHistory(id: string): Promise<GameHistory | null> {
+  const supabase = createServiceClient();
+
+  const [{ data: gameRow, error }, { data: playerRows }] = await Promise.all([
+    supabase.from("game_history").select("*").eq("id", id).single(),
+    supabase
+      .from("player_history")
+      .select("*")
+      .eq("history_id", id)
+      .order("final_population", { ascending: false }),
+  ]);
+
+  if (error || !gameRow) return null;
+
+  return {
+    ...rowToSummary(gameRow),
+    finalState: gameRow.final_state as unknown as GameState,
+    players: (playerRows || []).map(rowToPlayerHistory),
+  };
+}
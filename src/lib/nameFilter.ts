@@ -0,0 +1,98 @@
+// Player name checks - catches the usual classroom joke names, including l33t spellings
+// Deliberately small: hosts can ban anything it misses
+
+// Matched at the start of any word, so "Fuckface" is caught but "Scunthorpe" isn't
+const BLOCKED_STEMS = [
+  "fuck",
+  "bitch",
+  "pussy",
+  "penis",
+  "vagina",
+  "whore",
+  "slut",
+  "bastard",
+  "nigg",
+  "retard",
+  "hitler",
+  "porn",
+  "boob",
+  "wank",
+];
+
+// Only matched as a whole word, so names like "Class", "Nazir", "Yoshito" or "Fagan" get through
+const BLOCKED_WORDS = [
+  "shit",
+  "cunt",
+  "fag",
+  "nazi",
+  "ass",
+  "arse",
+  "tit",
+  "tits",
+  "sex",
+  "cum",
+  "dick",
+  "cock",
+  "rape",
+  "poop",
+  "butt",
+  "damn",
+  "hell",
+  "kkk",
+];
+
+const LEET: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "@": "a",
+  $: "s",
+  "!": "i",
+};
+
+/**
+ * Lowercase, undo l33t substitutions and collapse everything else to single spaces
+ */
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[0-9@$!]/g, (c) => LEET[c] ?? c)
+    .replace(/[^a-z]+/g, " ")
+    .trim();
+}
+
+/**
+ * Words of the name, with runs of single letters rejoined so "F U C K" reads as one word
+ * Separate words are never joined, so "Ash Ito" stays two names
+ */
+function nameWords(name: string): string[] {
+  const words: string[] = [];
+  let letters = "";
+  for (const word of normalizeName(name).split(" ")) {
+    if (word.length === 1) {
+      letters += word;
+      continue;
+    }
+    if (letters) words.push(letters);
+    letters = "";
+    if (word) words.push(word);
+  }
+  if (letters) words.push(letters);
+  return words;
+}
+
+export function isNameAllowed(name: string): boolean {
+  return !nameWords(name).some(
+    (word) => BLOCKED_WORDS.includes(word) || BLOCKED_STEMS.some((stem) => word.startsWith(stem))
+  );
+}
+
+/**
+ * Key used for ban lists, so "B0B!" and "bob" are the same name
+ */
+export function nameKey(name: string): string {
+  return normalizeName(name).replace(/ /g, "");
+}
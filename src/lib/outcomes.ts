@@ -0,0 +1,88 @@
+import type { FailureModel, ScenarioChoice } from "./types";
+import type { Rng } from "./random";
+
+// Outcome models: how much damage a failed roll does
+
+export const SUCCESS_OUTCOME = "Thrived";
+
+export const DEFAULT_FAILURE: FailureModel = {
+  type: "multiplier",
+  multiplier: 0.5,
+  label: "Lost half",
+};
+
+export function getFailureModel(choice: ScenarioChoice): FailureModel {
+  return choice.failure ?? DEFAULT_FAILURE;
+}
+
+/**
+ * Every tier a failure can land on, with its chance given that the roll failed
+ * Fixed losses report the multiplier they would have on the given population
+ */
+export function getFailureTiers(
+  model: FailureModel,
+  population: number
+): Array<{ label: string; probability: number; multiplier: number }> {
+  switch (model.type) {
+    case "multiplier":
+      return [
+        {
+          label: model.label ?? `Lost ${Math.round((1 - model.multiplier) * 100)}%`,
+          probability: 1,
+          multiplier: model.multiplier,
+        },
+      ];
+    case "fixed":
+      return [
+        {
+          label: model.label ?? `Lost ${model.loss}`,
+          probability: 1,
+          multiplier: population > 0 ? Math.max(population - model.loss, 0) / population : 0,
+        },
+      ];
+    case "distribution": {
+      const totalWeight = model.tiers.reduce((sum, tier) => sum + tier.weight, 0);
+      return model.tiers.map((tier) => ({
+        label: tier.label,
+        probability: totalWeight > 0 ? tier.weight / totalWeight : 0,
+        multiplier: tier.multiplier,
+      }));
+    }
+  }
+}
+
+/**
+ * Apply a failure to a population
+ * Only multi-tier distributions draw from the generator, so other models keep the roll sequence unchanged
+ */
+export function resolveFailure(
+  population: number,
+  model: FailureModel,
+  rng: Rng
+): { newPopulation: number; multiplier: number; outcome: string } {
+  if (model.type === "fixed") {
+    const newPopulation = Math.max(population - model.loss, 0);
+    return {
+      newPopulation,
+      multiplier: population > 0 ? Math.round((newPopulation / population) * 100) / 100 : 0,
+      outcome: getFailureTiers(model, population)[0].label,
+    };
+  }
+
+  const tiers = getFailureTiers(model, population);
+  let tier = tiers[0];
+  if (tiers.length > 1) {
+    let roll = rng();
+    for (const candidate of tiers) {
+      tier = candidate;
+      roll -= candidate.probability;
+      if (roll < 0) break;
+    }
+  }
+
+  return {
+    newPopulation: Math.floor(population * tier.multiplier),
+    multiplier: tier.multiplier,
+    outcome: tier.label,
+  };
+}
@@ -0,0 +1,75 @@
+import { createServiceClient } from "@/utils/supabase/service";
+import type { Scenario, ScenarioPack } from "./types";
+import type { Database } from "./database.types";
+import { scenarioPackSchema, type ScenarioPackInput } from "./scenarioSchema";
+import { getSamplePack, SAMPLE_PACKS } from "./samplePacks";
+
+type ScenarioPackRow = Database["public"]["Tables"]["scenario_packs"]["Row"];
+
+function rowToScenarioPack(row: ScenarioPackRow): ScenarioPack {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    scenarios: row.scenarios as unknown as Scenario[],
+    createdAt: row.created_at,
+  };
+}
+
+function summarizePack({ scenarios, ...pack }: ScenarioPack) {
+  return { ...pack, scenarioCount: scenarios.length };
+}
+
+// Hosts' packs newest first, then the sample packs that ship with the app
+export async function listScenarioPacks(): Promise<
+  Array<Omit<ScenarioPack, "scenarios"> & { scenarioCount: number }>
+> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("scenario_packs")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  const authored = error || !data ? [] : data.map(rowToScenarioPack);
+
+  return [...authored, ...SAMPLE_PACKS].map(summarizePack);
+}
+
+export async function getScenarioPack(id: string): Promise<ScenarioPack | null> {
+  const sample = getSamplePack(id);
+  if (sample) return sample;
+
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("scenario_packs")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error || !data) return null;
+
+  return rowToScenarioPack(data);
+}
+
+export async function createScenarioPack(
+  input: ScenarioPackInput
+): Promise<ScenarioPack | null> {
+  const supabase = createServiceClient();
+  const pack = scenarioPackSchema.parse(input);
+
+  const { data, error } = await supabase
+    .from("scenario_packs")
+    .insert({
+      name: pack.name,
+      description: pack.description,
+      scenarios: pack.scenarios,
+    })
+    .select("*")
+    .single();
+
+  if (error || !data) return null;
+
+  return rowToScenarioPack(data);
+}
@@ -0,0 +1,80 @@
+import type { RoundResult } from "./types";
+
+// Data for the population-over-time chart, taken straight from the recorded round results
+
+export interface PopulationPoint {
+  round: number; // 0 = before the first round
+  population: number;
+}
+
+export interface PopulationSeries {
+  id: string; // player id, or team id in team games
+  name: string;
+  points: PopulationPoint[];
+  failedRounds: number[]; // rounds whose roll failed
+}
+
+/**
+ * One series per colony, in order of first appearance
+ * A colony's line starts just before the first round it played (so late joiners start late)
+ * and stops at the round it was eliminated; the host's auto-rolled entry isn't a colony
+ */
+export function buildPopulationSeries(
+  roundResults: RoundResult[],
+  hostId: string | null = null
+): PopulationSeries[] {
+  const byId = new Map<string, PopulationSeries>();
+
+  for (const round of roundResults) {
+    for (const entry of round.players) {
+      if (entry.playerId === hostId) continue;
+      let series = byId.get(entry.playerId);
+      if (!series) {
+        series = {
+          id: entry.playerId,
+          name: entry.name,
+          points: [{ round: round.round - 1, population: entry.populationBefore }],
+          failedRounds: [],
+        };
+        byId.set(entry.playerId, series);
+      }
+      series.name = entry.name; // renames show the latest name
+      series.points.push({ round: round.round, population: entry.populationAfter });
+      if (!entry.survived) series.failedRounds.push(round.round);
+    }
+  }
+
+  return [...byId.values()];
+}
+
+/**
+ * Where a population sits between the bottom (0) and top (1) of the chart
+ * Log scale starts at 1 so wiped-out colonies land on the axis instead of at -Infinity
+ */
+export function scalePopulation(population: number, max: number, logScale: boolean): number {
+  if (max <= 0) return 0;
+  if (!logScale) return Math.min(1, Math.max(0, population / max));
+
+  const top = Math.log10(Math.max(max, 10));
+  return Math.min(1, Math.log10(Math.max(population, 1)) / top);
+}
+
+/**
+ * Gridline values: powers of ten on a log scale, otherwise about four round steps
+ */
+export function getPopulationTicks(max: number, logScale: boolean): number[] {
+  if (max <= 0) return [0];
+
+  if (logScale) {
+    const ticks: number[] = [];
+    for (let tick = 1; tick <= Math.max(max, 10); tick *= 10) ticks.push(tick);
+    return ticks;
+  }
+
+  const rough = max / 4;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= rough) ?? rough;
+  const ticks: number[] = [];
+  for (let tick = 0; tick <= max; tick += step) ticks.push(tick);
+  return ticks;
+}
@@ -0,0 +1,154 @@
+import type { ChoiceId, Player, RoundResult, Scenario } from "./types";
+import { INITIAL_POPULATION, processRound } from "./gameLogic";
+import { getShuffledScenarioIds, getScenarioById, SCENARIOS } from "./scenarios";
+import { createRng, createRoundRng, deriveSeed } from "./random";
+import { runSimulation, SIMULATION_STRATEGIES, type SimulationStrategy } from "./simulation";
+
+// Solo practice: one colony, no host and no timer, played entirely in the browser
+// A pond of one has no class to split with, so options roll against their printed odds,
+// the same way the simulator's baselines do
+
+export const PRACTICE_ROUNDS = 10;
+export const PRACTICE_PLAYER_ID = "solo";
+
+// localStorage key for the personal best (kept across visits, unlike game sessions)
+export const PRACTICE_BEST_STORAGE = "practice_best";
+
+// Strategies a finished run is measured against
+export const PRACTICE_BASELINES: SimulationStrategy[] = ["safe", "risky", "alternate", "threshold"];
+const BASELINE_GAMES = 2000;
+
+export const PRACTICE_SCENARIOS: Scenario[] = SCENARIOS.map((scenario) => ({
+  ...scenario,
+  choices: Object.fromEntries(
+    Object.entries(scenario.choices).map(([id, choice]) => {
+      const solo = { ...choice };
+      delete solo.shared;
+      return [id, solo];
+    })
+  ),
+}));
+
+export interface PracticeGame {
+  seed: number;
+  scenarioOrder: number[];
+  player: Player;
+  roundResults: RoundResult[];
+}
+
+export interface PracticeBest {
+  population: number;
+  seed: number; // the run that set it
+  achievedAt: string;
+}
+
+export interface BaselineComparison {
+  strategy: SimulationStrategy;
+  label: string;
+  median: number;
+  eliminationRate: number;
+  beatRate: number; // share of the strategy's games your colony finished ahead of (ties count half)
+}
+
+export function createPracticeGame(seed: number, playerName: string = "You"): PracticeGame {
+  return {
+    seed,
+    scenarioOrder: getShuffledScenarioIds(
+      createRng(deriveSeed(seed, "scenarios")),
+      PRACTICE_SCENARIOS
+    ).slice(0, PRACTICE_ROUNDS),
+    player: {
+      id: PRACTICE_PLAYER_ID,
+      name: playerName,
+      population: INITIAL_POPULATION,
+      isHost: false,
+      hasChosen: false,
+      isEliminated: false,
+    },
+    roundResults: [],
+  };
+}
+
+export function isPracticeOver(game: PracticeGame): boolean {
+  return game.player.isEliminated || game.roundResults.length >= game.scenarioOrder.length;
+}
+
+/**
+ * The scenario waiting for a choice, or null once the run is over
+ */
+export function getPracticeScenario(game: PracticeGame): Scenario | null {
+  if (isPracticeOver(game)) return null;
+  return getScenarioById(game.scenarioOrder[game.roundResults.length], PRACTICE_SCENARIOS) ?? null;
+}
+
+/**
+ * Roll one round through the same processRound a class game uses, seeded per round
+ */
+export function playPracticeRound(game: PracticeGame, choice: ChoiceId): PracticeGame {
+  const scenario = getPracticeScenario(game);
+  if (!scenario) return game;
+
+  const roundNumber = game.roundResults.length + 1;
+  const { updatedPlayers, roundResult } = processRound(
+    [game.player],
+    scenario,
+    roundNumber,
+    new Map([[game.player.id, choice]]),
+    { rng: createRoundRng(game.seed, roundNumber) }
+  );
+
+  return {
+    ...game,
+    player: updatedPlayers[0],
+    roundResults: [...game.roundResults, roundResult],
+  };
+}
+
+/**
+ * How a final population stacks up against each baseline strategy over many simulated games
+ */
+export function compareToBaselines(
+  population: number,
+  rounds: number = PRACTICE_ROUNDS,
+  seed: number = 1
+): BaselineComparison[] {
+  return PRACTICE_BASELINES.map((strategy) => {
+    const summary = runSimulation({
+      strategy,
+      rounds,
+      games: BASELINE_GAMES,
+      seed,
+      scenarios: PRACTICE_SCENARIOS,
+    });
+    const below = summary.finalPopulations.filter((p) => p < population).length;
+    const tied = summary.finalPopulations.filter((p) => p === population).length;
+    return {
+      strategy,
+      label: SIMULATION_STRATEGIES[strategy].label,
+      median: summary.median,
+      eliminationRate: summary.eliminationRate,
+      beatRate: (below + tied / 2) / summary.games,
+    };
+  });
+}
+
+/**
+ * Read a stored personal best, ignoring anything malformed
+ */
+export function parsePersonalBest(raw: string | null): PracticeBest | null {
+  if (!raw) return null;
+  try {
+    const value = JSON.parse(raw) as Partial<PracticeBest>;
+    return typeof value.population === "number" &&
+      typeof value.seed === "number" &&
+      typeof value.achievedAt === "string"
+      ? { population: value.population, seed: value.seed, achievedAt: value.achievedAt }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isNewPersonalBest(best: PracticeBest | null, population: number): boolean {
+  return population > (best?.population ?? 0);
+}
@@ -0,0 +1,46 @@
+// Seedable pseudo-random number generation
+// Every roll in a game is drawn from its stored seed so rounds can be replayed exactly
+
+export type Rng = () => number;
+
+/**
+ * Generate a fresh 32-bit seed for a new game
+ */
+export function generateSeed(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0];
+}
+
+/**
+ * Create a deterministic generator (mulberry32) returning floats in [0, 1)
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derive an independent sub-seed (e.g. per round) from a game seed
+ * FNV-1a over the seed and parts, so the same inputs always give the same stream
+ */
+export function deriveSeed(seed: number, ...parts: Array<number | string>): number {
+  let hash = 0x811c9dc5 ^ (seed >>> 0);
+  const input = parts.join(":");
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Generator for a single round of a seeded game
+ */
+export function createRoundRng(seed: number, roundNumber: number): Rng {
+  return createRng(deriveSeed(seed, "round", roundNumber));
+}
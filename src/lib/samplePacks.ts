@@ -0,0 +1,256 @@
+import type { ScenarioPack } from "./types";
+
+// Ready-made packs that show off optional scenario features without changing the Classic Pond
+// They ship with the app rather than living in scenario_packs, so hosts can't edit them
+// Scenario ids restart in each pack, so every scenario names its icon
+
+export const SAMPLE_PACKS: ScenarioPack[] = [
+  {
+    id: "sample-forks-in-the-pond",
+    name: "Sample: Forks in the Pond",
+    description: "Three-way decisions - a middle path between playing it safe and going all in.",
+    createdAt: "2026-10-19T00:00:00.000Z",
+    scenarios: [
+      {
+        id: 1,
+        title: "The Perfect Storm",
+        icon: "⛈️",
+        description:
+          "Multiple stressors combine: temperature rise, predators active, and nutrients scarce. This is the ultimate test!",
+        choices: {
+          safe: {
+            label: "Hunker down in a protected microhabitat",
+            risk: 0.2,
+            multiplier: 1.5,
+          },
+          balanced: {
+            label: "Scout the nearby shallows for a better refuge",
+            risk: 0.35,
+            multiplier: 2.1,
+          },
+          risky: {
+            label: "Take bold action to find the best remaining habitat",
+            risk: 0.5,
+            multiplier: 3.0,
+          },
+        },
+        explanation:
+          "In nature, organisms often face multiple simultaneous stressors. Surviving requires balancing many trade-offs.",
+      },
+      {
+        id: 2,
+        title: "Algae Bloom",
+        icon: "🌊",
+        description:
+          "A massive algae bloom has appeared! It provides abundant food but also depletes oxygen in the water at night.",
+        choices: {
+          safe: {
+            label: "Feed cautiously at the edges",
+            risk: 0.1,
+            multiplier: 1.5,
+          },
+          balanced: {
+            label: "Graze the outer ring of the bloom by day only",
+            risk: 0.25,
+            multiplier: 1.9,
+          },
+          risky: {
+            label: "Dive into the bloom center for maximum feeding",
+            risk: 0.45,
+            multiplier: 2.5,
+          },
+        },
+        explanation:
+          "Algae blooms can be both beneficial (food source) and harmful (oxygen depletion, toxins). This is called eutrophication.",
+      },
+      {
+        id: 3,
+        title: "Competitor Colony",
+        icon: "⚔️",
+        description:
+          "Another amoeba species has moved into your territory. They compete for the same food sources.",
+        choices: {
+          safe: {
+            label: "Share territory peacefully - reduced resources but stable",
+            risk: 0.1,
+            multiplier: 1.3,
+          },
+          balanced: {
+            label: "Hold a small patch and defend only that",
+            risk: 0.25,
+            multiplier: 1.7,
+          },
+          risky: {
+            label: "Compete aggressively for dominance",
+            risk: 0.45,
+            multiplier: 2.2,
+          },
+        },
+        explanation:
+          "Interspecific competition is a major factor in population dynamics and evolution.",
+      },
+    ],
+  },
+  {
+    id: "sample-harsh-seasons",
+    name: "Sample: Harsh Seasons",
+    description: "Failures that bite differently - a fixed loss, a sliding scale of bad luck, or a near wipe-out.",
+    createdAt: "2026-10-19T00:00:00.000Z",
+    scenarios: [
+      {
+        id: 1,
+        title: "The Drought Begins",
+        icon: "🏜️",
+        description:
+          "Water levels are dropping in your pond. You can either stay put and hope for rain, or migrate to a deeper area which requires energy and crosses exposed territory.",
+        choices: {
+          safe: {
+            label: "Stay and conserve energy - wait for rain",
+            risk: 0.25,
+            multiplier: 1.4,
+            failure: { type: "fixed", loss: 30, label: "Stranded at the drying edge" },
+          },
+          risky: {
+            label: "Migrate to deeper water - risky journey but safer destination",
+            risk: 0.4,
+            multiplier: 2.0,
+          },
+        },
+        explanation:
+          "Climate and environmental changes force organisms to make migration decisions that affect survival rates.",
+      },
+      {
+        id: 2,
+        title: "Bacterial Invasion",
+        icon: "🦠",
+        description:
+          "Harmful bacteria have entered your area. You can develop resistance (which takes energy) or try to outrun the infection.",
+        choices: {
+          safe: {
+            label: "Invest in resistance - slower growth but protection",
+            risk: 0.15,
+            multiplier: 1.2,
+          },
+          risky: {
+            label: "Ignore the threat and focus on reproduction",
+            risk: 0.5,
+            multiplier: 2.3,
+            failure: {
+              type: "distribution",
+              tiers: [
+                { label: "Mild infection", weight: 2, multiplier: 0.8 },
+                { label: "Outbreak", weight: 2, multiplier: 0.5 },
+                { label: "Epidemic", weight: 1, multiplier: 0.2 },
+              ],
+            },
+          },
+        },
+        explanation:
+          "Disease resistance is a trade-off. Energy spent on immunity cannot be used for reproduction.",
+      },
+      {
+        id: 3,
+        title: "Chemical Runoff",
+        icon: "🧪",
+        description:
+          "Agricultural runoff has entered the pond. It contains fertilizers (nutrients) but also pesticides (toxins).",
+        choices: {
+          safe: {
+            label: "Retreat to cleaner water with less food",
+            risk: 0.12,
+            multiplier: 1.2,
+          },
+          risky: {
+            label: "Stay and feast on the nutrient-rich but toxic water",
+            risk: 0.55,
+            multiplier: 2.8,
+            failure: { type: "multiplier", multiplier: 0.1, label: "Poisoned - 90% lost" },
+          },
+        },
+        explanation:
+          "Pollution creates trade-offs between resource availability and toxicity. This affects many aquatic populations.",
+      },
+    ],
+  },
+  {
+    id: "sample-shared-pond",
+    name: "Sample: Shared Pond",
+    description: "The odds shift with the class split - crowds draw predators, share the food, or band together.",
+    createdAt: "2026-10-19T00:00:00.000Z",
+    scenarios: [
+      {
+        id: 1,
+        title: "The Sunlit Shallows",
+        icon: "☀️",
+        description:
+          "Your amoeba colony has discovered a sunny patch of water rich with bacteria. However, a fish occasionally swims through this area looking for food.",
+        choices: {
+          safe: {
+            label: "Stay in the shadows - modest growth but safe",
+            risk: 0.05,
+            multiplier: 1.3,
+          },
+          risky: {
+            label: "Move to the sunny patch - more food but predator risk",
+            risk: 0.35,
+            multiplier: 2.2,
+            // A crowded patch draws the fish's attention
+            shared: { riskPerShare: 0.3 },
+          },
+        },
+        explanation:
+          "Predation is a major factor in population dynamics. Organisms must balance resource acquisition with predation risk.",
+      },
+      {
+        id: 2,
+        title: "The Flowing Current",
+        icon: "💨",
+        description:
+          "A strong current is pushing through your area. It brings fresh nutrients but might scatter your colony.",
+        choices: {
+          safe: {
+            label: "Anchor down and stay together",
+            risk: 0.08,
+            multiplier: 1.3,
+            // Enough colonies anchoring together form a mat that traps nutrients
+            shared: { cooperative: { minShare: 0.5, multiplier: 1.6 } },
+          },
+          risky: {
+            label: "Ride the current to new territory with more resources",
+            risk: 0.4,
+            multiplier: 2.1,
+          },
+        },
+        explanation:
+          "Dispersal is a key survival strategy but carries risks. Staying together provides safety in numbers.",
+      },
+      {
+        id: 3,
+        title: "New Food Source",
+        icon: "🪲",
+        description:
+          "A dead insect has fallen into the water, creating a feast. However, many organisms are competing for it.",
+        choices: {
+          safe: {
+            label: "Wait for scraps after larger organisms finish",
+            risk: 0.08,
+            multiplier: 1.4,
+          },
+          risky: {
+            label: "Rush in for the best nutrients despite competition",
+            risk: 0.38,
+            multiplier: 2.4,
+            // The feast is split between everyone who rushes in
+            shared: { multiplierPerShare: -1 },
+          },
+        },
+        explanation:
+          "Detritus (dead organic matter) is a major energy source in aquatic ecosystems. Competition for it can be fierce.",
+      },
+    ],
+  },
+];
+
+export function getSamplePack(id: string): ScenarioPack | undefined {
+  return SAMPLE_PACKS.find((pack) => pack.id === id);
+}
@@ -0,0 +1,97 @@
+import { z } from "zod";
+import type { Scenario } from "./types";
+import { MIN_CHOICES, MAX_CHOICES } from "./choices";
+import { isNameAllowed } from "./nameFilter";
+
+// Validation for host-authored scenario packs - mirrors the Scenario type
+
+export const MIN_PACK_SCENARIOS = 3;
+export const MAX_PACK_SCENARIOS = 50;
+
+// Pack text is shown to whole classes, so it goes through the same filter as player names
+const packText = (max: number) =>
+  z.string().trim().min(1).max(max).refine(isNameAllowed, "Please keep pack text classroom-friendly");
+
+const failureSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("multiplier"),
+    multiplier: z.number().min(0).max(1),
+    label: packText(40).optional(),
+  }),
+  z.object({
+    type: z.literal("fixed"),
+    loss: z.number().int().min(0),
+    label: packText(40).optional(),
+  }),
+  z.object({
+    type: z.literal("distribution"),
+    tiers: z
+      .array(
+        z.object({
+          label: packText(40),
+          weight: z.number().positive(),
+          multiplier: z.number().min(0).max(1),
+        })
+      )
+      .min(1)
+      .max(6),
+  }),
+]);
+
+const sharedSchema = z.object({
+  riskPerShare: z.number().min(-1).max(1).optional(),
+  multiplierPerShare: z.number().min(-10).max(10).optional(),
+  cooperative: z
+    .object({
+      minShare: z.number().gt(0).max(1),
+      multiplier: z.number().min(0).max(10),
+    })
+    .optional(),
+});
+
+const choiceSchema = z.object({
+  name: packText(20).optional(),
+  label: packText(120),
+  risk: z.number().min(0).max(1),
+  multiplier: z.number().min(0).max(10),
+  failure: failureSchema.optional(),
+  shared: sharedSchema.optional(),
+});
+
+export const scenarioSchema = z.object({
+  id: z.number().int().positive(),
+  title: packText(80),
+  description: packText(500),
+  // Default keeps pack scenarios from borrowing built-in icons by id
+  icon: z.string().trim().min(1).max(8).default("🌿"),
+  choices: z
+    .record(z.string().regex(/^[a-z][a-z0-9_-]{0,23}$/, "Choice ids must be short lowercase words"), choiceSchema)
+    .refine(
+      (choices) => {
+        const count = Object.keys(choices).length;
+        return count >= MIN_CHOICES && count <= MAX_CHOICES;
+      },
+      { message: `Each scenario needs ${MIN_CHOICES} to ${MAX_CHOICES} choices` }
+    ),
+  explanation: packText(500),
+}) satisfies z.ZodType<Scenario>;
+
+export const scenarioPackSchema = z.object({
+  name: packText(60),
+  description: z
+    .string()
+    .trim()
+    .max(300)
+    .refine(isNameAllowed, "Please keep pack text classroom-friendly")
+    .default(""),
+  scenarios: z
+    .array(scenarioSchema)
+    .min(MIN_PACK_SCENARIOS)
+    .max(MAX_PACK_SCENARIOS)
+    .refine(
+      (scenarios) => new Set(scenarios.map((s) => s.id)).size === scenarios.length,
+      { message: "Scenario ids must be unique" }
+    ),
+});
+
+export type ScenarioPackInput = z.input<typeof scenarioPackSchema>;
@@ -1,4 +1,5 @@
 import type { Scenario } from "./types";
+import type { Rng } from "./random";
 
 export const SCENARIOS: Scenario[] = [
   {
@@ -303,16 +304,22 @@ export const SCENARIOS: Scenario[] = [
   },
 ];
 
-export function getShuffledScenarioIds(): number[] {
-  const ids = SCENARIOS.map((s) => s.id);
+export function getShuffledScenarioIds(
+  rng: Rng = Math.random,
+  scenarios: Scenario[] = SCENARIOS
+): number[] {
+  const ids = scenarios.map((s) => s.id);
   // Fisher-Yates shuffle
   for (let i = ids.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng() * (i + 1));
     [ids[i], ids[j]] = [ids[j], ids[i]];
   }
   return ids;
 }
 
-export function getScenarioById(id: number): Scenario | undefined {
-  return SCENARIOS.find((s) => s.id === id);
+export function getScenarioById(
+  id: number,
+  scenarios: Scenario[] = SCENARIOS
+): Scenario | undefined {
+  return scenarios.find((s) => s.id === id);
 }
@@ -0,0 +1,33 @@
+import { createHash, randomBytes, randomInt, timingSafeEqual } from "crypto";
+
+// Player credentials - only hashes are stored, so a leaked row can't be replayed
+
+/**
+ * 256-bit random token, URL-safe
+ */
+export function generateSecretToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+/**
+ * Short numeric PIN a player can use to get back into their game from another device
+ */
+export function generateRecoveryPin(): string {
+  return randomInt(0, 1_000_000).toString().padStart(6, "0");
+}
+
+/**
+ * SHA-256 hex digest; pass a salt (e.g. the player id) for low-entropy secrets like PINs
+ */
+export function hashSecret(secret: string, salt = ""): string {
+  return createHash("sha256").update(`${salt}:${secret}`).digest("hex");
+}
+
+/**
+ * Constant-time check of a secret against a stored hash
+ */
+export function secretMatches(secret: string, hash: string, salt = ""): boolean {
+  const expected = Buffer.from(hash, "hex");
+  const actual = Buffer.from(hashSecret(secret, salt), "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,96 @@
+import type { ChoiceId, Player, RoundResult, Scenario, SharedEffect } from "./types";
+import { getChoiceIds } from "./choices";
+
+// Shared-environment scenarios: one colony's odds depend on how the whole pond chose
+
+/**
+ * Count how many competing colonies picked each option
+ * The host never competes, so they're left out of the split
+ */
+export function countChoices(
+  players: Player[],
+  scenario: Scenario,
+  resolveChoice: (player: Player) => ChoiceId
+): Record<ChoiceId, number> {
+  const split: Record<ChoiceId, number> = {};
+  for (const id of getChoiceIds(scenario)) {
+    split[id] = 0;
+  }
+  for (const player of players) {
+    if (player.isEliminated || player.isHost || player.isSpectator) continue;
+    split[resolveChoice(player)]++;
+  }
+  return split;
+}
+
+export function hasSharedEffects(scenario: Scenario): boolean {
+  return Object.values(scenario.choices).some((choice) => choice.shared);
+}
+
+/**
+ * Effective odds for each option given the split
+ */
+export function getAdjustedChoices(
+  scenario: Scenario,
+  split: Record<ChoiceId, number>
+): NonNullable<RoundResult["adjustedChoices"]> {
+  const total = Object.values(split).reduce((sum, count) => sum + count, 0);
+  const adjusted: NonNullable<RoundResult["adjustedChoices"]> = {};
+
+  for (const [id, choice] of Object.entries(scenario.choices)) {
+    const share = total > 0 ? (split[id] ?? 0) / total : 0;
+    const shared = choice.shared ?? {};
+    const cooperative = !!shared.cooperative && share >= shared.cooperative.minShare;
+
+    adjusted[id] = {
+      risk: round2(Math.min(1, Math.max(0, choice.risk + (shared.riskPerShare ?? 0) * share))),
+      multiplier: cooperative
+        ? shared.cooperative!.multiplier
+        : round2(Math.max(0, choice.multiplier + (shared.multiplierPerShare ?? 0) * share)),
+      cooperative,
+    };
+  }
+
+  return adjusted;
+}
+
+/**
+ * A copy of the scenario with each option's risk and multiplier replaced by its adjusted odds
+ */
+export function applyAdjustedChoices(
+  scenario: Scenario,
+  adjusted: NonNullable<RoundResult["adjustedChoices"]>
+): Scenario {
+  const choices: Scenario["choices"] = {};
+  for (const [id, choice] of Object.entries(scenario.choices)) {
+    choices[id] = { ...choice, risk: adjusted[id].risk, multiplier: adjusted[id].multiplier };
+  }
+  return { ...scenario, choices };
+}
+
+/**
+ * Short hints for players, e.g. "Riskier when crowded"
+ */
+export function describeSharedEffect(shared: SharedEffect | undefined): string[] {
+  if (!shared) return [];
+
+  const hints: string[] = [];
+  if (shared.riskPerShare) {
+    hints.push(shared.riskPerShare > 0 ? "👥 Riskier when crowded" : "👥 Safer in numbers");
+  }
+  if (shared.multiplierPerShare) {
+    hints.push(
+      shared.multiplierPerShare < 0 ? "🍽️ Less food to share when crowded" : "👥 Grows more in numbers"
+    );
+  }
+  if (shared.cooperative) {
+    hints.push(
+      `🤝 ×${shared.cooperative.multiplier} if ${Math.round(shared.cooperative.minShare * 100)}%+ join`
+    );
+  }
+  return hints;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
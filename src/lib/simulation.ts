@@ -0,0 +1,169 @@
+import type { ChoiceId, Scenario } from "./types";
+import { applyCapacityToOutcome, calculateOutcome, INITIAL_POPULATION } from "./gameLogic";
+import { getDefaultChoice, getRiskiestChoice } from "./choices";
+import { getShuffledScenarioIds, getScenarioById, SCENARIOS } from "./scenarios";
+import { createRng, deriveSeed } from "./random";
+
+// Monte Carlo simulator: one colony following a fixed strategy, played thousands of times
+// There's no class to split with, so shared-environment shifts are left out and every
+// option rolls against its printed odds
+
+export type SimulationStrategy = "safe" | "risky" | "alternate" | "threshold" | "custom";
+export type SimulationPick = "safe" | "risky";
+
+export const SIMULATION_STRATEGIES: Record<SimulationStrategy, { label: string; description: string }> = {
+  safe: { label: "Always safe", description: "Takes the lowest-risk option every round" },
+  risky: { label: "Always risky", description: "Takes the highest-risk option every round" },
+  alternate: { label: "Alternate", description: "Risky, then safe, then risky..." },
+  threshold: {
+    label: "Threshold",
+    description: "Gambles until the colony reaches a target size, then protects it",
+  },
+  custom: { label: "Custom", description: "Follows a round-by-round plan of your own" },
+};
+
+export const MAX_SIMULATED_GAMES = 20000;
+
+export interface SimulationOptions {
+  strategy: SimulationStrategy;
+  rounds?: number;
+  games?: number;
+  seed?: number;
+  threshold?: number; // threshold strategy: play safe once the population reaches this
+  customPicks?: SimulationPick[]; // custom strategy: one per round, repeating if shorter
+  carryingCapacity?: number | null;
+  scenarios?: Scenario[];
+}
+
+export interface SimulationSummary {
+  strategy: SimulationStrategy;
+  games: number;
+  rounds: number;
+  finalPopulations: number[]; // sorted ascending
+  eliminationRate: number; // 0-1
+  mean: number;
+  median: number;
+  p10: number;
+  p90: number;
+}
+
+/**
+ * The pick a strategy makes this round (rounds count from 1)
+ */
+export function pickForStrategy(
+  options: Pick<SimulationOptions, "strategy" | "threshold" | "customPicks">,
+  roundNumber: number,
+  population: number
+): SimulationPick {
+  switch (options.strategy) {
+    case "safe":
+      return "safe";
+    case "risky":
+      return "risky";
+    case "alternate":
+      return roundNumber % 2 === 1 ? "risky" : "safe";
+    case "threshold":
+      return population < (options.threshold ?? INITIAL_POPULATION * 2) ? "risky" : "safe";
+    case "custom": {
+      const picks = options.customPicks?.length ? options.customPicks : ["safe" as const];
+      return picks[(roundNumber - 1) % picks.length];
+    }
+  }
+}
+
+function toChoice(scenario: Scenario, pick: SimulationPick): ChoiceId {
+  return pick === "risky" ? getRiskiestChoice(scenario) : getDefaultChoice(scenario);
+}
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+}
+
+/**
+ * Play one simulated game: a fresh shuffle of the scenarios and one roll per round
+ * Returns the colony's final population (0 = eliminated)
+ */
+export function simulateGame(options: SimulationOptions, rng: () => number): number {
+  const scenarios = options.scenarios ?? SCENARIOS;
+  const rounds = options.rounds ?? 10;
+  const order = getShuffledScenarioIds(rng, scenarios);
+  let population = INITIAL_POPULATION;
+
+  for (let round = 1; round <= rounds && population >= 1; round++) {
+    const scenario = getScenarioById(order[(round - 1) % order.length], scenarios)!;
+    const choice = toChoice(scenario, pickForStrategy(options, round, population));
+    const rolled = calculateOutcome(population, choice, scenario, rng);
+    population = applyCapacityToOutcome(population, rolled, options.carryingCapacity).newPopulation;
+  }
+
+  return Math.max(population, 0);
+}
+
+/**
+ * Run many games of one strategy; the same seed always gives the same summary
+ */
+export function runSimulation(options: SimulationOptions): SimulationSummary {
+  const games = Math.min(Math.max(options.games ?? 1000, 1), MAX_SIMULATED_GAMES);
+  const rounds = options.rounds ?? 10;
+  const seed = options.seed ?? 1;
+
+  const finalPopulations: number[] = [];
+  for (let game = 0; game < games; game++) {
+    const rng = createRng(deriveSeed(seed, options.strategy, game));
+    finalPopulations.push(simulateGame({ ...options, rounds }, rng));
+  }
+  finalPopulations.sort((a, b) => a - b);
+
+  const eliminated = finalPopulations.filter((p) => p < 1).length;
+  const total = finalPopulations.reduce((sum, p) => sum + p, 0);
+
+  return {
+    strategy: options.strategy,
+    games,
+    rounds,
+    finalPopulations,
+    eliminationRate: eliminated / games,
+    mean: total / games,
+    median: quantile(finalPopulations, 0.5),
+    p10: quantile(finalPopulations, 0.1),
+    p90: quantile(finalPopulations, 0.9),
+  };
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+/**
+ * Bucket surviving colonies' final populations; a log scale keeps the long tail of
+ * lucky gamblers from squashing everyone else into the first bar
+ */
+export function buildHistogram(
+  sortedPopulations: number[],
+  binCount: number,
+  logScale: boolean
+): HistogramBin[] {
+  const survivors = sortedPopulations.filter((p) => p >= 1);
+  if (survivors.length === 0) return [];
+
+  const min = survivors[0];
+  const max = survivors[survivors.length - 1];
+  const toAxis = (value: number) => (logScale ? Math.log10(value) : value);
+  const fromAxis = (value: number) => (logScale ? 10 ** value : value);
+  const low = toAxis(min);
+  const width = (toAxis(max) - low) / binCount || 1;
+
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    start: fromAxis(low + i * width),
+    end: fromAxis(low + (i + 1) * width),
+    count: 0,
+  }));
+  for (const population of survivors) {
+    const index = Math.min(binCount - 1, Math.floor((toAxis(population) - low) / width));
+    bins[index].count++;
+  }
+  return bins;
+}
@@ -0,0 +1,108 @@
+import type { ChoiceId, RoundResult, Scenario } from "./types";
+import { getExpectedPopulation } from "./analytics";
+import { getChoiceIds } from "./choices";
+import { INITIAL_POPULATION } from "./gameLogic";
+import { getFailureModel, getFailureTiers } from "./outcomes";
+
+// Teaching overlay: the numbers behind each option, and how a round's rolls compared with them
+
+export interface OptionOdds {
+  choice: ChoiceId;
+  survival: number; // 0-1 chance the roll succeeds
+  multiplier: number; // growth on success
+  penalty: string; // what a failed roll costs
+  expectedMultiplier: number; // average growth over every way the roll could go
+  expectedPopulation: number;
+}
+
+export interface OptionComparison {
+  choice: ChoiceId;
+  picked: number; // colonies that went with this option
+  survived: number;
+  expectedSurvival: number;
+  actualSurvival: number | null; // null when nobody picked it
+  expectedMultiplier: number;
+  actualMultiplier: number | null; // average growth the pickers actually got
+}
+
+/**
+ * Describe a failed roll, e.g. "Lost half" or "Lost 90% (25%) · Lost half (75%)" for tiered losses
+ */
+export function describePenalty(scenario: Scenario, choice: ChoiceId, population: number): string {
+  const tiers = getFailureTiers(getFailureModel(scenario.choices[choice]), population);
+  if (tiers.length === 1) return tiers[0].label;
+  return tiers.map((tier) => `${tier.label} (${Math.round(tier.probability * 100)}%)`).join(" · ");
+}
+
+/**
+ * Each option's odds for a colony of the given size
+ * Pass the round's adjusted choices to show the odds shared scenarios actually rolled against
+ */
+export function getOptionOdds(
+  scenario: Scenario,
+  population: number = INITIAL_POPULATION,
+  round: Pick<RoundResult, "adjustedChoices"> = {},
+  carryingCapacity: number | null = null
+): OptionOdds[] {
+  return getChoiceIds(scenario).map((choice) => {
+    const odds = round.adjustedChoices?.[choice] ?? scenario.choices[choice];
+    const expectedPopulation = getExpectedPopulation(
+      population,
+      scenario,
+      choice,
+      round,
+      carryingCapacity
+    );
+    return {
+      choice,
+      survival: 1 - odds.risk,
+      multiplier: odds.multiplier,
+      penalty: describePenalty(scenario, choice, population),
+      expectedMultiplier: population > 0 ? expectedPopulation / population : 0,
+      expectedPopulation,
+    };
+  });
+}
+
+/**
+ * Theory against the class's rolls for one round: per option, how often it should have
+ * succeeded and how much it should have grown, next to what the colonies that picked it got
+ * The host's auto-rolled entry is left out, as in the split and the leaderboard
+ */
+export function compareTheoryToRolls(
+  scenario: Scenario,
+  roundResult: RoundResult,
+  carryingCapacity: number | null = null,
+  hostId: string | null = null
+): OptionComparison[] {
+  return getChoiceIds(scenario).map((choice) => {
+    const pickers = roundResult.players.filter(
+      (p) => p.choice === choice && p.populationBefore > 0 && p.playerId !== hostId
+    );
+    const odds = roundResult.adjustedChoices?.[choice] ?? scenario.choices[choice];
+    const survived = pickers.filter((p) => p.survived).length;
+
+    // Fixed losses hit small colonies harder, so theory is averaged over the actual pickers
+    const expectedFor = (population: number) =>
+      getExpectedPopulation(population, scenario, choice, roundResult, carryingCapacity) /
+      population;
+    const expectedMultiplier =
+      pickers.length > 0
+        ? pickers.reduce((sum, p) => sum + expectedFor(p.populationBefore), 0) / pickers.length
+        : expectedFor(INITIAL_POPULATION);
+
+    return {
+      choice,
+      picked: pickers.length,
+      survived,
+      expectedSurvival: 1 - odds.risk,
+      actualSurvival: pickers.length > 0 ? survived / pickers.length : null,
+      expectedMultiplier,
+      actualMultiplier:
+        pickers.length > 0
+          ? pickers.reduce((sum, p) => sum + p.populationAfter / p.populationBefore, 0) /
+            pickers.length
+          : null,
+    };
+  });
+}
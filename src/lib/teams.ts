@@ -0,0 +1,259 @@
+import type {
+  ChoiceId,
+  Player,
+  RoundResult,
+  Scenario,
+  Team,
+  TeamDecision,
+  TeamRoundResult,
+} from "./types";
+import { getDefaultChoice, isValidChoice } from "./choices";
+import { INITIAL_POPULATION, processRound, type RoundOptions } from "./gameLogic";
+
+// Team games: members pool into one colony per team, and the team rolls as a single colony
+
+export const MIN_TEAMS = 2;
+export const MAX_TEAMS = 6;
+
+const TEAM_NAMES = ["Algae", "Bubbles", "Lily Pads", "Moss", "Tadpoles", "Reeds"];
+
+export function createTeams(count: number): Team[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `team_${i + 1}`,
+    name: `Team ${TEAM_NAMES[i] ?? i + 1}`,
+    population: INITIAL_POPULATION,
+    isEliminated: false,
+  }));
+}
+
+/**
+ * Members who vote for a team, in join order (the host and spectators never do)
+ */
+export function getTeamMembers(players: Player[], teamId: string): Player[] {
+  return players.filter((p) => p.teamId === teamId && !p.isHost && !p.isSpectator);
+}
+
+/**
+ * Put everyone without a team on the smallest one, so nobody sits a game out
+ * Returns only the players whose team changed
+ */
+export function assignUnteamedPlayers(
+  players: Player[],
+  teams: Team[]
+): Array<{ playerId: string; teamId: string }> {
+  if (teams.length === 0) return [];
+
+  const sizes = new Map(teams.map((t) => [t.id, getTeamMembers(players, t.id).length]));
+  const assignments: Array<{ playerId: string; teamId: string }> = [];
+
+  for (const player of players) {
+    if (player.isHost || player.isSpectator) continue;
+    if (player.teamId && sizes.has(player.teamId)) continue;
+
+    let smallest = teams[0].id;
+    for (const team of teams) {
+      if (sizes.get(team.id)! < sizes.get(smallest)!) smallest = team.id;
+    }
+    sizes.set(smallest, sizes.get(smallest)! + 1);
+    assignments.push({ playerId: player.id, teamId: smallest });
+  }
+
+  return assignments;
+}
+
+/**
+ * The member who decides this round in captain games - rotates through the team in join order
+ */
+export function getTeamCaptain(members: Player[], roundNumber: number): Player | null {
+  if (members.length === 0) return null;
+  return members[(roundNumber - 1) % members.length];
+}
+
+/**
+ * Settle a team's choice from its members' picks
+ * Missing or unknown picks don't count; a team with no valid pick gets the lowest-risk option
+ */
+export function decideTeamChoice(
+  scenario: Scenario,
+  members: Player[],
+  choices: Map<string, ChoiceId>,
+  decision: TeamDecision,
+  roundNumber: number
+): { choice: ChoiceId; result: Omit<TeamRoundResult, "teamId"> } {
+  const votes: Record<string, ChoiceId> = {};
+  for (const member of members) {
+    const chosen = choices.get(member.id);
+    if (chosen && isValidChoice(scenario, chosen)) votes[member.id] = chosen;
+  }
+
+  const fallback = getDefaultChoice(scenario);
+
+  if (decision === "captain") {
+    const captain = getTeamCaptain(members, roundNumber);
+    return {
+      choice: (captain && votes[captain.id]) || fallback,
+      result: { ...(captain && { captainId: captain.id }), votes },
+    };
+  }
+
+  const tally = new Map<ChoiceId, number>();
+  for (const vote of Object.values(votes)) {
+    tally.set(vote, (tally.get(vote) ?? 0) + 1);
+  }
+
+  let choice: ChoiceId = fallback;
+  let best = 0;
+  for (const [id, count] of tally) {
+    const beatsLeader =
+      count > best ||
+      (count === best && scenario.choices[id].risk < scenario.choices[choice].risk);
+    if (beatsLeader) {
+      choice = id;
+      best = count;
+    }
+  }
+
+  return { choice, result: { votes } };
+}
+
+/**
+ * Roll a round for a team game: each team is one colony making its members' decided choice
+ * Members mirror their team's population and elimination so their own screens stay accurate
+ */
+export function processTeamRound(
+  teams: Team[],
+  players: Player[],
+  scenario: Scenario,
+  roundNumber: number,
+  choices: Map<string, ChoiceId>,
+  decision: TeamDecision,
+  options: RoundOptions = {}
+): { updatedTeams: Team[]; updatedPlayers: Player[]; roundResult: RoundResult } {
+  const teamChoices = new Map<string, ChoiceId>();
+  const teamResults: TeamRoundResult[] = [];
+
+  for (const team of teams) {
+    if (team.isEliminated) continue;
+    const members = getTeamMembers(players, team.id);
+    const { choice, result } = decideTeamChoice(scenario, members, choices, decision, roundNumber);
+    teamChoices.set(team.id, choice);
+    teamResults.push({ teamId: team.id, ...result });
+  }
+
+  // Teams stand in for players, so shared effects and carrying capacity apply per team
+  const colonies: Player[] = teams.map((team) => ({
+    id: team.id,
+    name: team.name,
+    population: team.population,
+    isHost: false,
+    hasChosen: true,
+    isEliminated: team.isEliminated,
+  }));
+  const { updatedPlayers: rolled, roundResult } = processRound(
+    colonies,
+    scenario,
+    roundNumber,
+    teamChoices,
+    options
+  );
+
+  const updatedTeams = teams.map((team, i) => ({
+    ...team,
+    population: rolled[i].population,
+    isEliminated: rolled[i].isEliminated,
+  }));
+  const byId = new Map(updatedTeams.map((t) => [t.id, t]));
+
+  const updatedPlayers = players.map((player) => {
+    const team = player.teamId ? byId.get(player.teamId) : undefined;
+    if (!team || player.isHost || player.isSpectator) return { ...player, hasChosen: false };
+    return {
+      ...player,
+      population: team.population,
+      isEliminated: team.isEliminated,
+      lastChoice: teamChoices.get(team.id) ?? player.lastChoice,
+      hasChosen: false,
+    };
+  });
+
+  return {
+    updatedTeams,
+    updatedPlayers,
+    roundResult: { ...roundResult, teams: teamResults },
+  };
+}
+
+/**
+ * How many live teams have reached a decision this round - captain games only wait on each captain
+ */
+export function countTeamsDecided(
+  teams: Team[],
+  players: Player[],
+  decision: TeamDecision,
+  roundNumber: number
+): { decided: number; total: number } {
+  let decided = 0;
+  let total = 0;
+  for (const team of teams) {
+    if (team.isEliminated) continue;
+    total++;
+    const members = getTeamMembers(players, team.id);
+    const isDecided =
+      decision === "captain"
+        ? (getTeamCaptain(members, roundNumber)?.hasChosen ?? true)
+        : members.every((m) => m.hasChosen);
+    if (isDecided) decided++;
+  }
+  return { decided, total };
+}
+
+export function allTeamsDecided(
+  teams: Team[],
+  players: Player[],
+  decision: TeamDecision,
+  roundNumber: number
+): boolean {
+  const { decided, total } = countTeamsDecided(teams, players, decision, roundNumber);
+  return decided === total;
+}
+
+/**
+ * Teams sorted by population (descending)
+ */
+export function getTeamLeaderboard(teams: Team[]): Array<{ rank: number; team: Team }> {
+  return [...teams]
+    .sort((a, b) => b.population - a.population)
+    .map((team, index) => ({ rank: index + 1, team }));
+}
+
+/**
+ * Credit each round's gain or loss to the members who backed the option the team took
+ * (the captain alone in captain rounds), split evenly; everyone else gets nothing for that round
+ */
+export function getMemberContributions(
+  roundResults: RoundResult[],
+  teamId: string
+): Record<string, number> {
+  const contributions: Record<string, number> = {};
+
+  for (const round of roundResults) {
+    const teamResult = round.teams?.find((t) => t.teamId === teamId);
+    const outcome = round.players.find((p) => p.playerId === teamId);
+    if (!teamResult || !outcome) continue;
+
+    const backers = teamResult.captainId
+      ? [teamResult.captainId].filter((id) => teamResult.votes[id] === outcome.choice)
+      : Object.keys(teamResult.votes).filter((id) => teamResult.votes[id] === outcome.choice);
+    if (backers.length === 0) continue;
+
+    const share = (outcome.populationAfter - outcome.populationBefore) / backers.length;
+    for (const id of backers) {
+      contributions[id] = (contributions[id] ?? 0) + share;
+    }
+  }
+
+  for (const id of Object.keys(contributions)) {
+    contributions[id] = Math.round(contributions[id]);
+  }
+  return contributions;
+}
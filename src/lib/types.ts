@@ -1,42 +1,135 @@
 // Game-related types
 
+export type ChoiceId = string;
+
+// What happens to a colony when its risk roll fails
+export type FailureModel =
+  | { type: "multiplier"; multiplier: number; label?: string } // e.g. 0.1 wipes out 90%
+  | { type: "fixed"; loss: number; label?: string } // lose a set number of amoebas
+  | { type: "distribution"; tiers: OutcomeTier[] }; // draw one tier by weight
+
+export interface OutcomeTier {
+  label: string;
+  weight: number;
+  multiplier: number;
+}
+
+// How a choice's odds shift with the share of colonies picking it (0-1)
+export interface SharedEffect {
+  riskPerShare?: number; // added to risk, scaled by share (crowding)
+  multiplierPerShare?: number; // added to multiplier, scaled by share (negative = competition)
+  cooperative?: { minShare: number; multiplier: number }; // payoff once enough colonies join
+}
+
+export interface ScenarioChoice {
+  name?: string; // short title such as "Cautious"; defaults to the choice id
+  label: string;
+  risk: number;
+  multiplier: number;
+  failure?: FailureModel; // defaults to losing half the population
+  shared?: SharedEffect; // odds depend on what other colonies choose
+}
+
 export interface Scenario {
   id: number;
   title: string;
   description: string;
-  choices: {
-    safe: { label: string; risk: number; multiplier: number };
-    risky: { label: string; risk: number; multiplier: number };
-  };
+  icon?: string;
+  // Options in display order; classic scenarios use "safe" and "risky"
+  choices: Record<ChoiceId, ScenarioChoice>;
   explanation: string;
 }
 
+export interface ScenarioPack {
+  id: string;
+  name: string;
+  description: string;
+  scenarios: Scenario[];
+  createdAt: string;
+}
+
 export interface Player {
   id: string;
   name: string;
   population: number;
   isHost: boolean;
   hasChosen: boolean;
-  lastChoice?: "safe" | "risky";
+  lastChoice?: ChoiceId;
+  isEliminated: boolean;
+  isSpectator?: boolean; // watches without a colony; never rolled or ranked
+  teamId?: string | null; // team games only
+  isBot?: boolean; // host-added colony that chooses on its own
+  botPersonality?: BotPersonality | null;
+}
+
+// How a bot colony picks: mostly safe, mostly risky, or by how it ranks
+export type BotPersonality = "cautious" | "reckless" | "adaptive";
+
+// Team games pool members into one shared colony per team
+// majority = most votes wins (ties go to the lower-risk option), captain = one member decides, rotating each round
+export type TeamDecision = "majority" | "captain";
+
+// Teaching overlay: off, each option's odds and expected value shown while choosing (live),
+// or held back until the results screen (reveal)
+export type TeachingMode = "off" | "live" | "reveal";
+
+export interface Team {
+  id: string;
+  name: string;
+  population: number;
   isEliminated: boolean;
 }
 
+// How a team reached its choice in one round
+export interface TeamRoundResult {
+  teamId: string;
+  captainId?: string; // captain games only
+  votes: Record<string, ChoiceId>; // member id -> the option they picked
+}
+
 export interface RoundResult {
   round: number;
   scenarioId: number;
   players: {
     playerId: string;
     name: string;
-    choice: "safe" | "risky";
+    choice: ChoiceId;
     survived: boolean;
+    outcome: string; // label of the outcome tier that hit
     populationBefore: number;
     populationAfter: number;
     multiplier: number;
   }[];
+  split: Record<ChoiceId, number>; // colonies (excluding the host) that picked each option
+  teams?: TeamRoundResult[]; // team games: players entries are teams, keyed by team id
+  // Odds after shared-environment effects; only set when the scenario has them
+  adjustedChoices?: Record<ChoiceId, { risk: number; multiplier: number; cooperative: boolean }>;
 }
 
 export type GamePhase = "lobby" | "playing" | "paused" | "results" | "finished";
 
+// Options a host picks when creating a game
+// fixed = round ends when the timer runs out, none = host ends it manually,
+// all_chosen = timer runs but the round ends early once every colony has chosen
+export type TimerMode = "fixed" | "none" | "all_chosen";
+
+// Who can join once the game has started
+// off = nobody, initial = start with INITIAL_POPULATION, median = start level with the pack
+export type LateJoinMode = "off" | "initial" | "median";
+
+export interface GameSettings {
+  totalRounds: number;
+  roundDuration: number; // seconds
+  timerMode: TimerMode;
+  scenarioPackId: string | null;
+  carryingCapacity: number | null; // null = unlimited growth
+  resultsDelay: number | null; // seconds on the results screen before auto-advancing; null = host advances
+  lateJoin: LateJoinMode;
+  allowSpectators: boolean;
+  teamCount: number | null; // null = everyone plays solo
+  teamDecision: TeamDecision;
+}
+
 export interface GameState {
   code: string;
   phase: GamePhase;
@@ -44,12 +137,61 @@ export interface GameState {
   currentRound: number;
   totalRounds: number;
   scenarioOrder: number[];
+  scenarioPackId: string | null; // null = built-in scenarios or a sample pack (see scenarios)
+  scenarios: Scenario[];
   currentScenario: Scenario | null;
   roundStartTime: number | null;
   roundDuration: number; // in seconds
+  timerMode: TimerMode;
+  roundEndTime: number | null; // when the current results screen began
+  resultsDelay: number | null; // seconds before auto-advancing; null = host advances
   pausedTimeRemaining: number | null; // time remaining when paused
   roundResults: RoundResult[];
   hostId: string;
+  seed: number | null; // only revealed once the game is finished
+  carryingCapacity: number | null; // K for logistic growth; null = unlimited
+  bannedNames: string[]; // normalized names the host has blocked (see nameKey)
+  lateJoin: LateJoinMode;
+  allowSpectators: boolean; // anyone can join read-only, even mid-game
+  teams: Team[]; // empty = solo game
+  teamDecision: TeamDecision;
+  teachingMode: TeachingMode; // host can switch it at any time
+}
+
+// A colony's record in an archived game
+export interface PlayerHistory {
+  playerId: string;
+  name: string;
+  finalPopulation: number;
+  isEliminated: boolean;
+  teamId: string | null;
+  choices: (ChoiceId | null)[]; // one per round; null for rounds they didn't play
+}
+
+// A finished game as listed on the history dashboard
+export interface GameHistorySummary {
+  id: string;
+  code: string;
+  playerCount: number;
+  totalRounds: number;
+  isTeamGame: boolean;
+  winner: string | null;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export interface GameHistory extends GameHistorySummary {
+  finalState: GameState;
+  players: PlayerHistory[];
+}
+
+// Credentials kept in sessionStorage under game_${code}
+export interface SessionInfo {
+  playerId: string;
+  isHost: boolean;
+  secretToken: string;
+  recoveryPin?: string; // shown in the lobby so the player can rejoin elsewhere
+  joinedLate?: boolean; // skipped the lobby, so the PIN is shown during play instead
 }
 
 export interface GameUpdate {
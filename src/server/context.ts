@@ -0,0 +1,17 @@
+// Per-request context: the caller's game credentials, sent as headers by the tRPC client
+// (see Providers.tsx) instead of being repeated in every procedure's input
+
+export const PLAYER_HEADER = "x-game-player";
+export const TOKEN_HEADER = "x-game-token";
+// Teacher key for the game history routes and publishing packs, checked against HISTORY_ACCESS_KEY
+export const HISTORY_KEY_HEADER = "x-history-key";
+
+export function createContext({ req }: { req: Request }) {
+  return {
+    playerId: req.headers.get(PLAYER_HEADER),
+    secretToken: req.headers.get(TOKEN_HEADER),
+    historyKey: req.headers.get(HISTORY_KEY_HEADER),
+  };
+}
+
+export type Context = ReturnType<typeof createContext>;
@@ -1,8 +1,12 @@
 import { router } from "./trpc";
 import { gameRouter } from "./routers/game";
+import { packRouter } from "./routers/pack";
+import { historyRouter } from "./routers/history";
 
 export const appRouter = router({
   game: gameRouter,
+  pack: packRouter,
+  history: historyRouter,
 });
 
 export type AppRouter = typeof appRouter;
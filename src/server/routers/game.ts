@@ -1,6 +1,6 @@
 import { z } from "zod";
 import { TRPCError } from "@trpc/server";
-import { router, publicProcedure } from "../trpc";
+import { router, publicProcedure, playerProcedure, hostProcedure } from "../trpc";
 import {
   createGame,
   getGame,
@@ -12,55 +12,109 @@ import {
   removePlayer,
   pauseRound,
   resumeRound,
-  verifyPlayer,
+  advanceIfExpired,
+  rejoinGame,
+  kickPlayer,
+  renamePlayer,
+  banName,
+  joinTeam,
+  setTeachingMode,
+  addBot,
+  MAX_RECOVERY_ATTEMPTS,
+  RECOVERY_WINDOW_MINUTES,
 } from "@/lib/gameStore";
+import { isNameAllowed } from "@/lib/nameFilter";
+import { getScenarioPack } from "@/lib/packStore";
+import { exportResults } from "@/lib/exportResults";
+import { MAX_TEAMS, MIN_TEAMS } from "@/lib/teams";
+import { MAX_BOTS } from "@/lib/bots";
+import {
+  INITIAL_POPULATION,
+  MAX_ROUND_DURATION,
+  MIN_ROUND_DURATION,
+  ROUND_DURATION,
+} from "@/lib/gameLogic";
 
-// Helper to verify player authentication
-async function requireAuth(playerId: string, secretToken: string) {
-  const auth = await verifyPlayer(playerId, secretToken);
-  if (!auth.valid) {
-    throw new TRPCError({ code: "UNAUTHORIZED", message: "Invalid credentials" });
-  }
-  return auth;
-}
-
-// Helper to verify host authentication
-async function requireHost(hostId: string, secretToken: string) {
-  const auth = await requireAuth(hostId, secretToken);
-  if (!auth.isHost) {
-    throw new TRPCError({ code: "FORBIDDEN", message: "Host access required" });
-  }
-  return auth;
-}
+// Display names shown to the whole class
+const playerNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(20)
+  .refine(isNameAllowed, "Please choose a different name");
 
 export const gameRouter = router({
   // Public: Anyone can create a game
   create: publicProcedure
     .input(
       z.object({
-        hostName: z.string().min(1).max(20),
+        hostName: playerNameSchema,
         totalRounds: z.number().min(3).max(15).default(10),
+        scenarioPackId: z.string().nullable().default(null),
+        carryingCapacity: z.number().int().min(INITIAL_POPULATION * 2).max(1_000_000).nullable().default(null),
+        roundDuration: z.number().int().min(MIN_ROUND_DURATION).max(MAX_ROUND_DURATION).default(ROUND_DURATION),
+        timerMode: z.enum(["fixed", "none", "all_chosen"]).default("fixed"),
+        resultsDelay: z.number().int().min(5).max(120).nullable().default(null),
+        lateJoin: z.enum(["off", "initial", "median"]).default("off"),
+        allowSpectators: z.boolean().default(false),
+        teamCount: z.number().int().min(MIN_TEAMS).max(MAX_TEAMS).nullable().default(null),
+        teamDecision: z.enum(["majority", "captain"]).default("majority"),
       })
     )
     .mutation(async ({ input }) => {
-      const result = await createGame(input.hostName, input.totalRounds);
+      const { hostName, ...settings } = input;
+      if (settings.scenarioPackId && !(await getScenarioPack(settings.scenarioPackId))) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Scenario pack not found" });
+      }
+      const result = await createGame(hostName, settings);
       return result;
     }),
 
   // Public: Anyone can join a game (returns their credentials)
   join: publicProcedure
+    .input(
+      z.object({
+        code: z.string().length(6),
+        playerName: playerNameSchema,
+        asSpectator: z.boolean().default(false),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const result = await joinGame(
+        input.code.toUpperCase(),
+        input.playerName,
+        input.asSpectator
+      );
+      if (!result) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: input.asSpectator
+            ? "Could not watch this game. The host may not allow spectators."
+            : "Could not join game. Check the code or try a different name - the game may have started.",
+        });
+      }
+      return result;
+    }),
+
+  // Public: Get back into a game from a new tab or device (returns fresh credentials)
+  rejoin: publicProcedure
     .input(
       z.object({
         code: z.string().length(6),
         playerName: z.string().min(1).max(20),
+        recoveryPin: z.string().regex(/^\d{6}$/, "PIN must be 6 digits"),
       })
     )
     .mutation(async ({ input }) => {
-      const result = await joinGame(input.code.toUpperCase(), input.playerName);
+      const result = await rejoinGame(
+        input.code.toUpperCase(),
+        input.playerName.trim(),
+        input.recoveryPin
+      );
       if (!result) {
         throw new TRPCError({
           code: "BAD_REQUEST",
-          message: "Could not join game. Check the code and try again.",
+          message: `Could not rejoin. Check your name and PIN - after ${MAX_RECOVERY_ATTEMPTS} tries, wait ${RECOVERY_WINDOW_MINUTES} minutes.`,
         });
       }
       return result;
@@ -77,131 +131,160 @@ export const gameRouter = router({
       return game;
     }),
 
-  // Protected: Only authenticated host can start game
-  start: publicProcedure
-    .input(
-      z.object({
-        code: z.string(),
-        hostId: z.string(),
-        secretToken: z.string(),
-      })
-    )
+  // Public: Any client whose countdown hit zero can ask the server to enforce the deadline
+  // The server checks its own clock, so calling early is a no-op
+  checkDeadline: publicProcedure
+    .input(z.object({ code: z.string() }))
     .mutation(async ({ input }) => {
-      await requireHost(input.hostId, input.secretToken);
-      const game = await startGame(input.code.toUpperCase(), input.hostId);
+      const game = await advanceIfExpired(input.code.toUpperCase());
       if (!game) {
-        throw new TRPCError({ code: "BAD_REQUEST", message: "Could not start game" });
+        throw new TRPCError({ code: "NOT_FOUND", message: "Game not found" });
       }
       return game;
     }),
 
-  // Protected: Only authenticated host can pause
-  pause: publicProcedure
-    .input(
-      z.object({
-        code: z.string(),
-        hostId: z.string(),
-        secretToken: z.string(),
-      })
-    )
-    .mutation(async ({ input }) => {
-      await requireHost(input.hostId, input.secretToken);
-      const game = await pauseRound(input.code.toUpperCase(), input.hostId);
+  // Protected: Only the authenticated host of this game can start it
+  start: hostProcedure.mutation(async ({ ctx }) => {
+    const game = await startGame(ctx.player.gameCode, ctx.player.id);
+    if (!game) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Could not start game" });
+    }
+    return game;
+  }),
+
+  // Protected: Only the authenticated host of this game can pause
+  pause: hostProcedure.mutation(async ({ ctx }) => {
+    const game = await pauseRound(ctx.player.gameCode, ctx.player.id);
+    if (!game) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Could not pause round" });
+    }
+    return game;
+  }),
+
+  // Protected: Only the authenticated host of this game can resume
+  resume: hostProcedure.mutation(async ({ ctx }) => {
+    const game = await resumeRound(ctx.player.gameCode, ctx.player.id);
+    if (!game) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Could not resume round" });
+    }
+    return game;
+  }),
+
+  // Protected: Only an authenticated player of this game can pick their own team
+  joinTeam: playerProcedure
+    .input(z.object({ teamId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const game = await joinTeam(ctx.player.gameCode, ctx.player.id, input.teamId);
       if (!game) {
-        throw new TRPCError({ code: "BAD_REQUEST", message: "Could not pause round" });
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Could not join team" });
       }
       return game;
     }),
 
-  // Protected: Only authenticated host can resume
-  resume: publicProcedure
-    .input(
-      z.object({
-        code: z.string(),
-        hostId: z.string(),
-        secretToken: z.string(),
-      })
-    )
-    .mutation(async ({ input }) => {
-      await requireHost(input.hostId, input.secretToken);
-      const game = await resumeRound(input.code.toUpperCase(), input.hostId);
+  // Protected: Only an authenticated player of this game can make their choice
+  choose: playerProcedure
+    .input(z.object({ choice: z.string().min(1).max(24) }))
+    .mutation(async ({ ctx, input }) => {
+      const game = await makeChoice(ctx.player.gameCode, ctx.player.id, input.choice);
       if (!game) {
-        throw new TRPCError({ code: "BAD_REQUEST", message: "Could not resume round" });
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Could not record choice" });
       }
       return game;
     }),
 
-  // Protected: Only authenticated player can make their choice
-  choose: publicProcedure
-    .input(
-      z.object({
-        code: z.string(),
-        playerId: z.string(),
-        secretToken: z.string(),
-        choice: z.enum(["safe", "risky"]),
-      })
-    )
-    .mutation(async ({ input }) => {
-      await requireAuth(input.playerId, input.secretToken);
-      const game = await makeChoice(
-        input.code.toUpperCase(),
-        input.playerId,
-        input.choice
-      );
+  // Protected: Only the authenticated host of this game can end the round
+  endRound: hostProcedure.mutation(async ({ ctx }) => {
+    const game = await endRound(ctx.player.gameCode, ctx.player.id);
+    if (!game) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Could not end round" });
+    }
+    return game;
+  }),
+
+  // Protected: Only the authenticated host of this game can advance to the next round
+  nextRound: hostProcedure.mutation(async ({ ctx }) => {
+    const game = await nextRound(ctx.player.gameCode, ctx.player.id);
+    if (!game) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: "Could not advance to next round" });
+    }
+    return game;
+  }),
+
+  // Protected: Only the authenticated host of this game can switch the teaching overlay
+  setTeachingMode: hostProcedure
+    .input(z.object({ mode: z.enum(["off", "live", "reveal"]) }))
+    .mutation(async ({ ctx, input }) => {
+      const game = await setTeachingMode(ctx.player.gameCode, input.mode);
       if (!game) {
-        throw new TRPCError({ code: "BAD_REQUEST", message: "Could not record choice" });
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Could not change teaching mode" });
       }
       return game;
     }),
 
-  // Protected: Only authenticated host can end round
-  endRound: publicProcedure
-    .input(
-      z.object({
-        code: z.string(),
-        hostId: z.string(),
-        secretToken: z.string(),
-      })
-    )
-    .mutation(async ({ input }) => {
-      await requireHost(input.hostId, input.secretToken);
-      const game = await endRound(input.code.toUpperCase(), input.hostId);
+  // Protected: Only the authenticated host of this game can export results for a gradebook
+  exportResults: hostProcedure
+    .input(z.object({ format: z.enum(["csv", "json"]) }))
+    .query(async ({ ctx, input }) => {
+      const game = await getGame(ctx.player.gameCode);
+      if (!game) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Game not found" });
+      }
+      return exportResults(game, input.format);
+    }),
+
+  // Protected: Only the authenticated host of this game can remove other players
+  kickPlayer: hostProcedure
+    .input(z.object({ playerId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const game = await kickPlayer(ctx.player.gameCode, ctx.player.id, input.playerId);
       if (!game) {
-        throw new TRPCError({ code: "BAD_REQUEST", message: "Could not end round" });
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Could not remove player" });
       }
       return game;
     }),
 
-  // Protected: Only authenticated host can advance to next round
-  nextRound: publicProcedure
-    .input(
-      z.object({
-        code: z.string(),
-        hostId: z.string(),
-        secretToken: z.string(),
-      })
-    )
-    .mutation(async ({ input }) => {
-      await requireHost(input.hostId, input.secretToken);
-      const game = await nextRound(input.code.toUpperCase(), input.hostId);
+  // Protected: Only the authenticated host of this game can add bot colonies
+  addBot: hostProcedure
+    .input(z.object({ personality: z.enum(["cautious", "reckless", "adaptive"]) }))
+    .mutation(async ({ ctx, input }) => {
+      const game = await addBot(ctx.player.gameCode, input.personality);
       if (!game) {
-        throw new TRPCError({ code: "BAD_REQUEST", message: "Could not advance to next round" });
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: `Could not add a bot. Bots join in the lobby, up to ${MAX_BOTS} per game.`,
+        });
       }
       return game;
     }),
 
-  // Protected: Only authenticated player can leave (remove themselves)
-  leave: publicProcedure
-    .input(
-      z.object({
-        code: z.string(),
-        playerId: z.string(),
-        secretToken: z.string(),
-      })
-    )
-    .mutation(async ({ input }) => {
-      await requireAuth(input.playerId, input.secretToken);
-      const success = await removePlayer(input.code.toUpperCase(), input.playerId);
-      return { success };
+  // Protected: Only the authenticated host of this game can rename players
+  renamePlayer: hostProcedure
+    .input(z.object({ playerId: z.string(), name: playerNameSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const game = await renamePlayer(ctx.player.gameCode, input.playerId, input.name);
+      if (!game) {
+        throw new TRPCError({
+          code: "BAD_REQUEST",
+          message: "Could not rename player. The name may be taken or banned.",
+        });
+      }
+      return game;
+    }),
+
+  // Protected: Only the authenticated host of this game can ban a name (kicks anyone using it)
+  banName: hostProcedure
+    .input(z.object({ name: z.string().trim().min(1).max(20) }))
+    .mutation(async ({ ctx, input }) => {
+      const game = await banName(ctx.player.gameCode, input.name);
+      if (!game) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Could not ban name" });
+      }
+      return game;
     }),
+
+  // Protected: Only an authenticated player of this game can leave (remove themselves)
+  leave: playerProcedure.mutation(async ({ ctx }) => {
+    const success = await removePlayer(ctx.player.gameCode, ctx.player.id);
+    return { success };
+  }),
 });
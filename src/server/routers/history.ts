@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, teacherProcedure } from "../trpc";
+import { listGameHistory, getGameHistory } from "@/lib/historyStore";
+
+export const historyRouter = router({
+  // Teacher: Finished games, newest first, optionally narrowed by date and class size
+  list: teacherProcedure
+    .input(
+      z
+        .object({
+          from: z.iso.datetime().optional(),
+          to: z.iso.datetime().optional(),
+          minPlayers: z.number().int().min(0).optional(),
+          maxPlayers: z.number().int().min(0).optional(),
+        })
+        .optional()
+    )
+    .query(async ({ input }) => {
+      return await listGameHistory(input);
+    }),
+
+  // Teacher: One archived game with its final state and every colony's choices
+  get: teacherProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input }) => {
+      const history = await getGameHistory(input.id);
+      if (!history) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Game not found in history" });
+      }
+      return history;
+    }),
+});
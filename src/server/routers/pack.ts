@@ -0,0 +1,38 @@
+import { z } from "zod";
+import { TRPCError } from "@trpc/server";
+import { router, publicProcedure, teacherProcedure } from "../trpc";
+import {
+  listScenarioPacks,
+  getScenarioPack,
+  createScenarioPack,
+} from "@/lib/packStore";
+import { scenarioPackSchema } from "@/lib/scenarioSchema";
+
+export const packRouter = router({
+  // Public: List available scenario packs (without their scenarios)
+  list: publicProcedure.query(async () => {
+    return await listScenarioPacks();
+  }),
+
+  // Public: Fetch a single pack with all of its scenarios
+  get: publicProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input }) => {
+      const pack = await getScenarioPack(input.id);
+      if (!pack) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Scenario pack not found" });
+      }
+      return pack;
+    }),
+
+  // Teacher: Publish a pack to every host's picker
+  create: teacherProcedure
+    .input(scenarioPackSchema)
+    .mutation(async ({ input }) => {
+      const pack = await createScenarioPack(input);
+      if (!pack) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Could not save scenario pack" });
+      }
+      return pack;
+    }),
+});
@@ -1,9 +1,56 @@
-import { initTRPC } from "@trpc/server";
+import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
+import { z } from "zod";
+import type { Context } from "./context";
+import { verifyPlayer } from "@/lib/gameStore";
+import { hashSecret, secretMatches } from "@/lib/secrets";
 
-const t = initTRPC.create({
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
 });
 
 export const router = t.router;
 export const publicProcedure = t.procedure;
+
+// Authenticated player of the game named by input.code
+// Credentials for a different game are rejected, not just invalid ones
+export const playerProcedure = t.procedure
+  .input(z.object({ code: z.string().transform((code) => code.toUpperCase()) }))
+  .use(async ({ ctx, input, next }) => {
+    if (!ctx.playerId || !ctx.secretToken) {
+      throw new TRPCError({ code: "UNAUTHORIZED", message: "Missing credentials" });
+    }
+
+    const auth = await verifyPlayer(ctx.playerId, ctx.secretToken);
+    if (!auth.valid) {
+      throw new TRPCError({ code: "UNAUTHORIZED", message: "Invalid credentials" });
+    }
+    if (auth.gameCode !== input.code) {
+      throw new TRPCError({ code: "FORBIDDEN", message: "Credentials are for a different game" });
+    }
+
+    return next({
+      ctx: { player: { id: ctx.playerId, isHost: auth.isHost, gameCode: input.code } },
+    });
+  });
+
+// Authenticated host of the game named by input.code
+export const hostProcedure = playerProcedure.use(({ ctx, next }) => {
+  if (!ctx.player.isHost) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Host access required" });
+  }
+  return next();
+});
+
+// Teachers browsing archived games or publishing scenario packs; both stay closed
+// until HISTORY_ACCESS_KEY is set
+export const teacherProcedure = t.procedure.use(({ ctx, next }) => {
+  const accessKey = process.env.HISTORY_ACCESS_KEY;
+  if (!accessKey) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Teacher features are not enabled" });
+  }
+  if (!ctx.historyKey || !secretMatches(ctx.historyKey, hashSecret(accessKey))) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "Invalid teacher key" });
+  }
+  return next();
+});
@@ -1,9 +1,20 @@
 -- Supabase Schema for Amoeba Arena
--- Run this in the Supabase SQL Editor
+-- Run this in the Supabase SQL Editor to set up a new database
+-- To upgrade an existing one, run the files in supabase/migrations in order instead
+
+-- Scenario packs authored by hosts
+CREATE TABLE IF NOT EXISTS scenario_packs (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  name TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  scenarios JSON NOT NULL, -- JSON rather than JSONB keeps each scenario's choice order
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
 
 -- Games table
 CREATE TABLE IF NOT EXISTS games (
   code TEXT PRIMARY KEY,
+  seed BIGINT NOT NULL DEFAULT floor(random() * 4294967296)::bigint,
   phase TEXT NOT NULL DEFAULT 'lobby',
   current_round INTEGER NOT NULL DEFAULT 0,
   total_rounds INTEGER NOT NULL DEFAULT 10,
@@ -11,6 +22,19 @@ CREATE TABLE IF NOT EXISTS games (
   round_start_time TIMESTAMPTZ,
   paused_time_remaining INTEGER,
   scenario_order INTEGER[] DEFAULT '{}',
+  scenario_pack_id TEXT REFERENCES scenario_packs(id) ON DELETE SET NULL,
+  scenarios JSON, -- snapshot of the pack's scenarios; NULL = built-in
+  carrying_capacity INTEGER, -- logistic growth cap K; NULL = unlimited
+  round_duration INTEGER NOT NULL DEFAULT 30, -- seconds
+  timer_mode TEXT NOT NULL DEFAULT 'fixed' CHECK (timer_mode IN ('fixed', 'none', 'all_chosen')),
+  round_end_time TIMESTAMPTZ, -- when the current results screen began
+  results_delay INTEGER, -- seconds before auto-advancing from results; NULL = host advances
+  banned_names TEXT[] NOT NULL DEFAULT '{}', -- normalized names the host has blocked
+  late_join TEXT NOT NULL DEFAULT 'off' CHECK (late_join IN ('off', 'initial', 'median')), -- starting population for mid-game joins
+  allow_spectators BOOLEAN NOT NULL DEFAULT FALSE,
+  teams JSONB NOT NULL DEFAULT '[]', -- team games: [{id, name, population, isEliminated}]; empty = solo
+  team_decision TEXT NOT NULL DEFAULT 'majority' CHECK (team_decision IN ('majority', 'captain')),
+  teaching_mode TEXT NOT NULL DEFAULT 'off' CHECK (teaching_mode IN ('off', 'live', 'reveal')), -- when players see each option's odds
   round_results JSONB DEFAULT '[]',
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -25,36 +49,373 @@ CREATE TABLE IF NOT EXISTS players (
   has_chosen BOOLEAN NOT NULL DEFAULT FALSE,
   current_choice TEXT,
   is_eliminated BOOLEAN NOT NULL DEFAULT FALSE,
-  secret_token TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  is_spectator BOOLEAN NOT NULL DEFAULT FALSE, -- watches without a colony
+  team_id TEXT, -- id from games.teams in team games
+  is_bot BOOLEAN NOT NULL DEFAULT FALSE, -- added by the host; the server chooses for it
+  bot_personality TEXT CHECK (bot_personality IN ('cautious', 'reckless', 'adaptive')),
+  secret_token_hash TEXT NOT NULL, -- SHA-256 of the player's token; the token itself is never stored
+  recovery_pin_hash TEXT, -- salted SHA-256 of the 6-digit rejoin PIN
+  recovery_attempts INTEGER NOT NULL DEFAULT 0, -- PIN tries in the current window; 5 starts a cooldown
+  recovery_window_start TIMESTAMPTZ, -- when the current window of PIN tries began
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
 
+-- Finished games, archived when the last results screen closes so they outlive the
+-- live rows (which can be cleaned up after a day)
+CREATE TABLE IF NOT EXISTS game_history (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  game_code TEXT NOT NULL, -- not unique: codes are reused once the live game is deleted
+  seed BIGINT NOT NULL,
+  total_rounds INTEGER NOT NULL,
+  player_count INTEGER NOT NULL, -- colonies, not counting the host or spectators
+  is_team_game BOOLEAN NOT NULL DEFAULT FALSE,
+  winner TEXT, -- name of the top player or team
+  final_state JSON NOT NULL, -- GameState at the end, round results included; JSON keeps choice order
+  started_at TIMESTAMPTZ NOT NULL, -- the live game's created_at
+  finished_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One row per colony in an archived game
+CREATE TABLE IF NOT EXISTS player_history (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  history_id TEXT NOT NULL REFERENCES game_history(id) ON DELETE CASCADE,
+  player_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  final_population INTEGER NOT NULL,
+  is_eliminated BOOLEAN NOT NULL,
+  team_id TEXT,
+  choices TEXT[] NOT NULL DEFAULT '{}' -- one per round; NULL for rounds they didn't play
+);
+
 -- Migration: Add secret_token to existing players table
 -- ALTER TABLE players ADD COLUMN IF NOT EXISTS secret_token TEXT NOT NULL DEFAULT gen_random_uuid()::text;
 
+-- Migration: Add per-game RNG seed to existing games table
+-- ALTER TABLE games ADD COLUMN IF NOT EXISTS seed BIGINT NOT NULL DEFAULT floor(random() * 4294967296)::bigint;
+
+-- Migration: Add scenario pack columns to existing games table (create scenario_packs first)
+-- ALTER TABLE games ADD COLUMN IF NOT EXISTS scenario_pack_id TEXT REFERENCES scenario_packs(id) ON DELETE SET NULL;
+-- ALTER TABLE games ADD COLUMN IF NOT EXISTS scenarios JSON;
+
+-- Migration: Keep choice order for multi-option scenarios (JSONB sorts object keys)
+-- ALTER TABLE scenario_packs ALTER COLUMN scenarios TYPE JSON;
+-- ALTER TABLE games ALTER COLUMN scenarios TYPE JSON;
+
+-- Migration: Add carrying capacity to existing games table
+-- ALTER TABLE games ADD COLUMN IF NOT EXISTS carrying_capacity INTEGER;
+
+-- Migration: Add per-game round duration and timer mode to existing games table
+-- ALTER TABLE games ADD COLUMN IF NOT EXISTS round_duration INTEGER NOT NULL DEFAULT 30;
+-- ALTER TABLE games ADD COLUMN IF NOT EXISTS timer_mode TEXT NOT NULL DEFAULT 'fixed' CHECK (timer_mode IN ('fixed', 'none', 'all_chosen'));
+
+-- Migration: Add server-side auto-advance columns to existing games table
+-- ALTER TABLE games ADD COLUMN IF NOT EXISTS round_end_time TIMESTAMPTZ;
+-- ALTER TABLE games ADD COLUMN IF NOT EXISTS results_delay INTEGER;
+
+-- Migration: Add recovery PINs to existing players table
+-- ALTER TABLE players ADD COLUMN IF NOT EXISTS recovery_pin TEXT;
+-- ALTER TABLE players ADD COLUMN IF NOT EXISTS recovery_attempts INTEGER NOT NULL DEFAULT 0;
+
+-- Migration: Store only hashes of player secrets (digest() needs the pgcrypto extension)
+-- ALTER TABLE players ADD COLUMN IF NOT EXISTS secret_token_hash TEXT;
+-- UPDATE players SET secret_token_hash = encode(digest(':' || secret_token, 'sha256'), 'hex');
+-- ALTER TABLE players ALTER COLUMN secret_token_hash SET NOT NULL;
+-- ALTER TABLE players DROP COLUMN secret_token;
+-- ALTER TABLE players ADD COLUMN IF NOT EXISTS recovery_pin_hash TEXT;
+-- UPDATE players SET recovery_pin_hash = encode(digest(id || ':' || recovery_pin, 'sha256'), 'hex') WHERE recovery_pin IS NOT NULL;
+-- ALTER TABLE players DROP COLUMN recovery_pin;
+
+-- Migration: Server-only writes and read-only views for browsers
+-- See supabase/migrations/20261019000000_lock_down_game_writes.sql
+
+-- Migration: Add host ban list to existing games table
+-- See supabase/migrations/20261019000100_host_moderation.sql
+
+-- Migration: Add late join and spectators
+-- See supabase/migrations/20261019000200_late_join_and_spectators.sql
+
+-- Migration: Add team mode
+-- See supabase/migrations/20261019000300_team_mode.sql
+
+-- Migration: Add teaching mode to existing games table
+-- See supabase/migrations/20261019000500_teaching_mode.sql
+
+-- Migration: Archive finished games
+-- See supabase/migrations/20261019000400_game_history.sql
+
+-- Migration: Replace the permanent rejoin lock with a cooldown
+-- See supabase/migrations/20261019000700_recovery_cooldown.sql
+
+-- Migration: Add bot players to existing players table
+-- See supabase/migrations/20261019000600_bot_players.sql
+
 -- Index for faster player lookups by game
 CREATE INDEX IF NOT EXISTS idx_players_game_code ON players(game_code);
 
+-- Index for the round auto-advance job, which only looks at live games
+CREATE INDEX IF NOT EXISTS idx_games_phase ON games(phase);
+
+-- Indexes for the history dashboard, which lists newest first and opens one game's colonies
+CREATE INDEX IF NOT EXISTS idx_game_history_finished_at ON game_history(finished_at DESC);
+CREATE INDEX IF NOT EXISTS idx_player_history_history_id ON player_history(history_id);
+
 -- Enable Row Level Security (RLS)
 ALTER TABLE games ENABLE ROW LEVEL SECURITY;
 ALTER TABLE players ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scenario_packs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE game_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE player_history ENABLE ROW LEVEL SECURITY;
+
+-- Policies: no anon policies on games or players - all reads and writes go through the
+-- server's service role key, which bypasses RLS. Browsers read the views below instead.
+REVOKE ALL ON games, players FROM anon, authenticated;
+
+-- History is only for teachers, through the server's history routes
+REVOKE ALL ON game_history, player_history FROM anon, authenticated;
+
+-- Read-only views for browsers: no credential hashes, no choices before the reveal,
+-- and the seed stays hidden until the game is finished
+CREATE OR REPLACE VIEW public_games WITH (security_barrier) AS
+SELECT
+  code,
+  CASE WHEN phase = 'finished' THEN seed END AS seed,
+  phase,
+  current_round,
+  total_rounds,
+  current_scenario_id,
+  round_start_time,
+  paused_time_remaining,
+  scenario_order,
+  scenario_pack_id,
+  scenarios,
+  carrying_capacity,
+  round_duration,
+  timer_mode,
+  round_end_time,
+  results_delay,
+  round_results,
+  created_at,
+  banned_names, -- later columns go at the end so CREATE OR REPLACE VIEW keeps working
+  late_join,
+  allow_spectators,
+  teams,
+  team_decision,
+  teaching_mode
+FROM games;
+
+CREATE OR REPLACE VIEW public_players WITH (security_barrier) AS
+SELECT id, game_code, name, population, is_host, has_chosen, is_eliminated, created_at, is_spectator, team_id, is_bot, bot_personality
+FROM players;
+
+GRANT SELECT ON public_games, public_players TO anon, authenticated;
+
+-- Scenario packs policies (packs are created through the server)
+CREATE POLICY "Allow anonymous read scenario packs" ON scenario_packs FOR SELECT USING (true);
+
+-- Round functions: each runs in one transaction, so a round resolves exactly once
+-- (re-run these with CREATE OR REPLACE to migrate an existing database)
+
+-- Record a player's choice, but only while the expected round is still open
+-- FOR SHARE lets choices land together while blocking resolve_round until they commit
+CREATE OR REPLACE FUNCTION record_choice(
+  p_code TEXT,
+  p_round INTEGER,
+  p_player_id TEXT,
+  p_choice TEXT
+) RETURNS BOOLEAN
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_game games%ROWTYPE;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE code = p_code FOR SHARE;
+  IF NOT FOUND OR v_game.phase NOT IN ('playing', 'paused') OR v_game.current_round <> p_round THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE players
+  SET has_chosen = TRUE, current_choice = p_choice
+  WHERE id = p_player_id AND game_code = p_code AND NOT has_chosen AND NOT is_eliminated AND NOT is_spectator;
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Apply a rolled round: locks the game, checks it is still on p_round and that the choices
+-- it was rolled from (p_choices: player id -> choice) are unchanged, then writes everything
+-- Returns 'resolved', 'stale' (choices changed - roll again) or 'conflict' (already resolved)
+-- Team games also pass the rolled teams in p_teams
+CREATE OR REPLACE FUNCTION resolve_round(
+  p_code TEXT,
+  p_round INTEGER,
+  p_choices JSONB,
+  p_round_result JSONB,
+  p_players JSONB,
+  p_teams JSONB DEFAULT NULL
+) RETURNS TEXT
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_game games%ROWTYPE;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE code = p_code FOR UPDATE;
+  IF NOT FOUND OR v_game.phase NOT IN ('playing', 'paused') OR v_game.current_round <> p_round THEN
+    RETURN 'conflict';
+  END IF;
+
+  IF (SELECT count(*) FROM players WHERE game_code = p_code) <> (SELECT count(*) FROM jsonb_object_keys(p_choices))
+    OR EXISTS (
+      SELECT 1 FROM players
+      WHERE game_code = p_code
+        AND (NOT p_choices ? id OR current_choice IS DISTINCT FROM p_choices->>id)
+    ) THEN
+    RETURN 'stale';
+  END IF;
+
+  UPDATE games
+  SET phase = 'results',
+      paused_time_remaining = NULL,
+      round_end_time = NOW(),
+      round_results = COALESCE(round_results, '[]'::jsonb) || jsonb_build_array(p_round_result),
+      teams = COALESCE(p_teams, teams)
+  WHERE code = p_code;
+
+  UPDATE players p
+  SET population = (u->>'population')::INTEGER,
+      is_eliminated = (u->>'is_eliminated')::BOOLEAN,
+      has_chosen = FALSE,
+      current_choice = NULL
+  FROM jsonb_array_elements(p_players) AS u
+  WHERE p.game_code = p_code AND p.id = u->>'id';
+
+  RETURN 'resolved';
+END;
+$$;
+
+-- End a game after its last results screen and archive it in the same transaction, so a
+-- game is archived exactly once even if the host and the auto-advance job race
+-- p_players: [{id, name, population, is_eliminated, team_id, choices}] for every colony
+CREATE OR REPLACE FUNCTION finish_game(
+  p_code TEXT,
+  p_round INTEGER,
+  p_final_state JSON,
+  p_players JSONB,
+  p_winner TEXT
+) RETURNS BOOLEAN
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_game games%ROWTYPE;
+  v_history_id TEXT;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE code = p_code FOR UPDATE;
+  IF NOT FOUND OR v_game.phase <> 'results' OR v_game.current_round <> p_round THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE games SET phase = 'finished' WHERE code = p_code;
+
+  INSERT INTO game_history (
+    game_code, seed, total_rounds, player_count, is_team_game, winner, final_state, started_at
+  )
+  VALUES (
+    p_code,
+    v_game.seed,
+    v_game.total_rounds,
+    jsonb_array_length(p_players),
+    jsonb_array_length(v_game.teams) > 0,
+    p_winner,
+    p_final_state,
+    v_game.created_at
+  )
+  RETURNING id INTO v_history_id;
+
+  INSERT INTO player_history (
+    history_id, player_id, name, final_population, is_eliminated, team_id, choices
+  )
+  SELECT
+    v_history_id,
+    u->>'id',
+    u->>'name',
+    (u->>'population')::INTEGER,
+    (u->>'is_eliminated')::BOOLEAN,
+    u->>'team_id',
+    ARRAY(
+      SELECT c FROM jsonb_array_elements_text(u->'choices') WITH ORDINALITY AS t(c, i) ORDER BY i
+    )
+  FROM jsonb_array_elements(p_players) AS u;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Count a rejoin PIN try before it is checked; FALSE while the player is cooling down
+-- One UPDATE claims the try, so concurrent guesses can't all slip under the limit
+-- A window that has run out starts over, so a guessed-at name is only locked out for a while
+CREATE OR REPLACE FUNCTION reserve_recovery_attempt(
+  p_player_id TEXT,
+  p_max_attempts INTEGER,
+  p_window_seconds INTEGER
+) RETURNS BOOLEAN
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_window_start TIMESTAMPTZ := NOW() - make_interval(secs => p_window_seconds);
+BEGIN
+  UPDATE players
+  SET
+    recovery_attempts = CASE
+      WHEN recovery_window_start IS NULL OR recovery_window_start <= v_window_start THEN 1
+      ELSE recovery_attempts + 1
+    END,
+    recovery_window_start = CASE
+      WHEN recovery_window_start IS NULL OR recovery_window_start <= v_window_start THEN NOW()
+      ELSE recovery_window_start
+    END
+  WHERE id = p_player_id
+    AND (
+      recovery_window_start IS NULL
+      OR recovery_window_start <= v_window_start
+      OR recovery_attempts < p_max_attempts
+    );
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Only the server calls the round and recovery functions
+REVOKE EXECUTE ON FUNCTION record_choice(TEXT, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION resolve_round(TEXT, INTEGER, JSONB, JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION finish_game(TEXT, INTEGER, JSON, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reserve_recovery_attempt(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Realtime: browsers can't see the tables, so changes are announced on a public broadcast
+-- topic per game (game:CODE) and clients re-read the views
+CREATE OR REPLACE FUNCTION broadcast_game_change() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = '' AS $$
+DECLARE
+  v_code TEXT;
+BEGIN
+  IF TG_TABLE_NAME = 'games' THEN
+    v_code := CASE WHEN TG_OP = 'DELETE' THEN OLD.code ELSE NEW.code END;
+  ELSE
+    v_code := CASE WHEN TG_OP = 'DELETE' THEN OLD.game_code ELSE NEW.game_code END;
+  END IF;
 
--- Policies: Allow all operations for anonymous users (game is public)
--- Games policies
-CREATE POLICY "Allow anonymous read games" ON games FOR SELECT USING (true);
-CREATE POLICY "Allow anonymous insert games" ON games FOR INSERT WITH CHECK (true);
-CREATE POLICY "Allow anonymous update games" ON games FOR UPDATE USING (true);
-CREATE POLICY "Allow anonymous delete games" ON games FOR DELETE USING (true);
+  PERFORM realtime.send(
+    jsonb_build_object('table', TG_TABLE_NAME, 'op', TG_OP),
+    'changed',
+    'game:' || v_code,
+    false
+  );
+  RETURN NULL;
+END;
+$$;
 
--- Players policies
-CREATE POLICY "Allow anonymous read players" ON players FOR SELECT USING (true);
-CREATE POLICY "Allow anonymous insert players" ON players FOR INSERT WITH CHECK (true);
-CREATE POLICY "Allow anonymous update players" ON players FOR UPDATE USING (true);
-CREATE POLICY "Allow anonymous delete players" ON players FOR DELETE USING (true);
+CREATE OR REPLACE TRIGGER games_broadcast
+  AFTER INSERT OR UPDATE OR DELETE ON games
+  FOR EACH ROW EXECUTE FUNCTION broadcast_game_change();
 
--- Enable Realtime for both tables
-ALTER PUBLICATION supabase_realtime ADD TABLE games;
-ALTER PUBLICATION supabase_realtime ADD TABLE players;
+CREATE OR REPLACE TRIGGER players_broadcast
+  AFTER INSERT OR UPDATE OR DELETE ON players
+  FOR EACH ROW EXECUTE FUNCTION broadcast_game_change();
 
--- Optional: Clean up old games (run periodically or set up a cron job)
+-- Optional: Clean up old games (run periodically or set up a cron job); finished games
+-- are already archived in game_history
 -- DELETE FROM games WHERE created_at < NOW() - INTERVAL '24 hours';
@@ -0,0 +1,87 @@
+-- Lock down anonymous access: game writes only happen through the server (service role key)
+-- and browsers get read-only, column-restricted views plus a broadcast channel per game
+-- Apply after the round functions (record_choice, resolve_round) exist
+-- Later migrations recreate both views with their new columns appended at the end
+
+-- Drop the open anon policies
+DROP POLICY IF EXISTS "Allow anonymous read games" ON games;
+DROP POLICY IF EXISTS "Allow anonymous insert games" ON games;
+DROP POLICY IF EXISTS "Allow anonymous update games" ON games;
+DROP POLICY IF EXISTS "Allow anonymous delete games" ON games;
+DROP POLICY IF EXISTS "Allow anonymous read players" ON players;
+DROP POLICY IF EXISTS "Allow anonymous insert players" ON players;
+DROP POLICY IF EXISTS "Allow anonymous update players" ON players;
+DROP POLICY IF EXISTS "Allow anonymous delete players" ON players;
+DROP POLICY IF EXISTS "Allow anonymous insert scenario packs" ON scenario_packs;
+
+-- Replaces the column grants that hid credential hashes
+REVOKE ALL ON games, players FROM anon, authenticated;
+
+-- Read-only views for browsers: no credential hashes, no choices before the reveal,
+-- and the seed stays hidden until the game is finished
+CREATE OR REPLACE VIEW public_games WITH (security_barrier) AS
+SELECT
+  code,
+  CASE WHEN phase = 'finished' THEN seed END AS seed,
+  phase,
+  current_round,
+  total_rounds,
+  current_scenario_id,
+  round_start_time,
+  paused_time_remaining,
+  scenario_order,
+  scenario_pack_id,
+  scenarios,
+  carrying_capacity,
+  round_duration,
+  timer_mode,
+  round_end_time,
+  results_delay,
+  round_results,
+  created_at
+FROM games;
+
+CREATE OR REPLACE VIEW public_players WITH (security_barrier) AS
+SELECT id, game_code, name, population, is_host, has_chosen, is_eliminated, created_at
+FROM players;
+
+GRANT SELECT ON public_games, public_players TO anon, authenticated;
+
+-- postgres_changes needs table access, so stop publishing the tables
+ALTER PUBLICATION supabase_realtime DROP TABLE games;
+ALTER PUBLICATION supabase_realtime DROP TABLE players;
+
+-- Only the server calls the round functions
+REVOKE EXECUTE ON FUNCTION record_choice(TEXT, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION resolve_round(TEXT, INTEGER, JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Realtime: browsers can't see the tables, so changes are announced on a public broadcast
+-- topic per game (game:CODE) and clients re-read the views
+CREATE OR REPLACE FUNCTION broadcast_game_change() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = '' AS $$
+DECLARE
+  v_code TEXT;
+BEGIN
+  IF TG_TABLE_NAME = 'games' THEN
+    v_code := CASE WHEN TG_OP = 'DELETE' THEN OLD.code ELSE NEW.code END;
+  ELSE
+    v_code := CASE WHEN TG_OP = 'DELETE' THEN OLD.game_code ELSE NEW.game_code END;
+  END IF;
+
+  PERFORM realtime.send(
+    jsonb_build_object('table', TG_TABLE_NAME, 'op', TG_OP),
+    'changed',
+    'game:' || v_code,
+    false
+  );
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE TRIGGER games_broadcast
+  AFTER INSERT OR UPDATE OR DELETE ON games
+  FOR EACH ROW EXECUTE FUNCTION broadcast_game_change();
+
+CREATE OR REPLACE TRIGGER players_broadcast
+  AFTER INSERT OR UPDATE OR DELETE ON players
+  FOR EACH ROW EXECUTE FUNCTION broadcast_game_change();
@@ -0,0 +1,27 @@
+-- Host moderation: a per-game ban list of normalized names (see nameKey)
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS banned_names TEXT[] NOT NULL DEFAULT '{}';
+
+-- New columns go at the end so CREATE OR REPLACE VIEW keeps working
+CREATE OR REPLACE VIEW public_games WITH (security_barrier) AS
+SELECT
+  code,
+  CASE WHEN phase = 'finished' THEN seed END AS seed,
+  phase,
+  current_round,
+  total_rounds,
+  current_scenario_id,
+  round_start_time,
+  paused_time_remaining,
+  scenario_order,
+  scenario_pack_id,
+  scenarios,
+  carrying_capacity,
+  round_duration,
+  timer_mode,
+  round_end_time,
+  results_delay,
+  round_results,
+  created_at,
+  banned_names
+FROM games;
@@ -0,0 +1,59 @@
+-- Late joiners and spectators: per-game join settings, and players who watch without a colony
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS late_join TEXT NOT NULL DEFAULT 'off' CHECK (late_join IN ('off', 'initial', 'median'));
+ALTER TABLE games ADD COLUMN IF NOT EXISTS allow_spectators BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE players ADD COLUMN IF NOT EXISTS is_spectator BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- New columns go at the end so CREATE OR REPLACE VIEW keeps working
+CREATE OR REPLACE VIEW public_games WITH (security_barrier) AS
+SELECT
+  code,
+  CASE WHEN phase = 'finished' THEN seed END AS seed,
+  phase,
+  current_round,
+  total_rounds,
+  current_scenario_id,
+  round_start_time,
+  paused_time_remaining,
+  scenario_order,
+  scenario_pack_id,
+  scenarios,
+  carrying_capacity,
+  round_duration,
+  timer_mode,
+  round_end_time,
+  results_delay,
+  round_results,
+  created_at,
+  banned_names,
+  late_join,
+  allow_spectators
+FROM games;
+
+CREATE OR REPLACE VIEW public_players WITH (security_barrier) AS
+SELECT id, game_code, name, population, is_host, has_chosen, is_eliminated, created_at, is_spectator
+FROM players;
+
+-- Spectators can't record a choice
+CREATE OR REPLACE FUNCTION record_choice(
+  p_code TEXT,
+  p_round INTEGER,
+  p_player_id TEXT,
+  p_choice TEXT
+) RETURNS BOOLEAN
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_game games%ROWTYPE;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE code = p_code FOR SHARE;
+  IF NOT FOUND OR v_game.phase NOT IN ('playing', 'paused') OR v_game.current_round <> p_round THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE players
+  SET has_chosen = TRUE, current_choice = p_choice
+  WHERE id = p_player_id AND game_code = p_code AND NOT has_chosen AND NOT is_eliminated AND NOT is_spectator;
+
+  RETURN FOUND;
+END;
+$$;
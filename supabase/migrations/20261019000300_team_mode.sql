@@ -0,0 +1,93 @@
+-- Team mode: teams live on the game row, and each player records which one they're in
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS teams JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE games ADD COLUMN IF NOT EXISTS team_decision TEXT NOT NULL DEFAULT 'majority' CHECK (team_decision IN ('majority', 'captain'));
+ALTER TABLE players ADD COLUMN IF NOT EXISTS team_id TEXT;
+
+-- New columns go at the end so CREATE OR REPLACE VIEW keeps working
+CREATE OR REPLACE VIEW public_games WITH (security_barrier) AS
+SELECT
+  code,
+  CASE WHEN phase = 'finished' THEN seed END AS seed,
+  phase,
+  current_round,
+  total_rounds,
+  current_scenario_id,
+  round_start_time,
+  paused_time_remaining,
+  scenario_order,
+  scenario_pack_id,
+  scenarios,
+  carrying_capacity,
+  round_duration,
+  timer_mode,
+  round_end_time,
+  results_delay,
+  round_results,
+  created_at,
+  banned_names,
+  late_join,
+  allow_spectators,
+  teams,
+  team_decision
+FROM games;
+
+CREATE OR REPLACE VIEW public_players WITH (security_barrier) AS
+SELECT id, game_code, name, population, is_host, has_chosen, is_eliminated, created_at, is_spectator, team_id
+FROM players;
+
+-- resolve_round gains p_teams, which makes it a new function rather than a replacement
+DROP FUNCTION IF EXISTS resolve_round(TEXT, INTEGER, JSONB, JSONB, JSONB);
+
+-- Apply a rolled round: locks the game, checks it is still on p_round and that the choices
+-- it was rolled from (p_choices: player id -> choice) are unchanged, then writes everything
+-- Returns 'resolved', 'stale' (choices changed - roll again) or 'conflict' (already resolved)
+-- Team games also pass the rolled teams in p_teams
+CREATE OR REPLACE FUNCTION resolve_round(
+  p_code TEXT,
+  p_round INTEGER,
+  p_choices JSONB,
+  p_round_result JSONB,
+  p_players JSONB,
+  p_teams JSONB DEFAULT NULL
+) RETURNS TEXT
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_game games%ROWTYPE;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE code = p_code FOR UPDATE;
+  IF NOT FOUND OR v_game.phase NOT IN ('playing', 'paused') OR v_game.current_round <> p_round THEN
+    RETURN 'conflict';
+  END IF;
+
+  IF (SELECT count(*) FROM players WHERE game_code = p_code) <> (SELECT count(*) FROM jsonb_object_keys(p_choices))
+    OR EXISTS (
+      SELECT 1 FROM players
+      WHERE game_code = p_code
+        AND (NOT p_choices ? id OR current_choice IS DISTINCT FROM p_choices->>id)
+    ) THEN
+    RETURN 'stale';
+  END IF;
+
+  UPDATE games
+  SET phase = 'results',
+      paused_time_remaining = NULL,
+      round_end_time = NOW(),
+      round_results = COALESCE(round_results, '[]'::jsonb) || jsonb_build_array(p_round_result),
+      teams = COALESCE(p_teams, teams)
+  WHERE code = p_code;
+
+  UPDATE players p
+  SET population = (u->>'population')::INTEGER,
+      is_eliminated = (u->>'is_eliminated')::BOOLEAN,
+      has_chosen = FALSE,
+      current_choice = NULL
+  FROM jsonb_array_elements(p_players) AS u
+  WHERE p.game_code = p_code AND p.id = u->>'id';
+
+  RETURN 'resolved';
+END;
+$$;
+
+-- Only the server calls the round functions
+REVOKE EXECUTE ON FUNCTION resolve_round(TEXT, INTEGER, JSONB, JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,97 @@
+-- Game history for the teacher dashboard, written by finish_game when a game ends
+
+-- Finished games, archived when the last results screen closes so they outlive the
+-- live rows (which can be cleaned up after a day)
+CREATE TABLE IF NOT EXISTS game_history (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  game_code TEXT NOT NULL, -- not unique: codes are reused once the live game is deleted
+  seed BIGINT NOT NULL,
+  total_rounds INTEGER NOT NULL,
+  player_count INTEGER NOT NULL, -- colonies, not counting the host or spectators
+  is_team_game BOOLEAN NOT NULL DEFAULT FALSE,
+  winner TEXT, -- name of the top player or team
+  final_state JSON NOT NULL, -- GameState at the end, round results included; JSON keeps choice order
+  started_at TIMESTAMPTZ NOT NULL, -- the live game's created_at
+  finished_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One row per colony in an archived game
+CREATE TABLE IF NOT EXISTS player_history (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  history_id TEXT NOT NULL REFERENCES game_history(id) ON DELETE CASCADE,
+  player_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  final_population INTEGER NOT NULL,
+  is_eliminated BOOLEAN NOT NULL,
+  team_id TEXT,
+  choices TEXT[] NOT NULL DEFAULT '{}' -- one per round; NULL for rounds they didn't play
+);
+
+-- Indexes for the history dashboard, which lists newest first and opens one game's colonies
+CREATE INDEX IF NOT EXISTS idx_game_history_finished_at ON game_history(finished_at DESC);
+CREATE INDEX IF NOT EXISTS idx_player_history_history_id ON player_history(history_id);
+
+ALTER TABLE game_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE player_history ENABLE ROW LEVEL SECURITY;
+
+-- History is only for teachers, through the server's history routes
+REVOKE ALL ON game_history, player_history FROM anon, authenticated;
+
+-- End a game after its last results screen and archive it in the same transaction, so a
+-- game is archived exactly once even if the host and the auto-advance job race
+-- p_players: [{id, name, population, is_eliminated, team_id, choices}] for every colony
+CREATE OR REPLACE FUNCTION finish_game(
+  p_code TEXT,
+  p_round INTEGER,
+  p_final_state JSON,
+  p_players JSONB,
+  p_winner TEXT
+) RETURNS BOOLEAN
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_game games%ROWTYPE;
+  v_history_id TEXT;
+BEGIN
+  SELECT * INTO v_game FROM games WHERE code = p_code FOR UPDATE;
+  IF NOT FOUND OR v_game.phase <> 'results' OR v_game.current_round <> p_round THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE games SET phase = 'finished' WHERE code = p_code;
+
+  INSERT INTO game_history (
+    game_code, seed, total_rounds, player_count, is_team_game, winner, final_state, started_at
+  )
+  VALUES (
+    p_code,
+    v_game.seed,
+    v_game.total_rounds,
+    jsonb_array_length(p_players),
+    jsonb_array_length(v_game.teams) > 0,
+    p_winner,
+    p_final_state,
+    v_game.created_at
+  )
+  RETURNING id INTO v_history_id;
+
+  INSERT INTO player_history (
+    history_id, player_id, name, final_population, is_eliminated, team_id, choices
+  )
+  SELECT
+    v_history_id,
+    u->>'id',
+    u->>'name',
+    (u->>'population')::INTEGER,
+    (u->>'is_eliminated')::BOOLEAN,
+    u->>'team_id',
+    ARRAY(
+      SELECT c FROM jsonb_array_elements_text(u->'choices') WITH ORDINALITY AS t(c, i) ORDER BY i
+    )
+  FROM jsonb_array_elements(p_players) AS u;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Only the server calls finish_game
+REVOKE EXECUTE ON FUNCTION finish_game(TEXT, INTEGER, JSON, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
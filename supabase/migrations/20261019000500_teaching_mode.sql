@@ -0,0 +1,32 @@
+-- Teaching mode: when players see each option's odds and expected value
+
+ALTER TABLE games ADD COLUMN IF NOT EXISTS teaching_mode TEXT NOT NULL DEFAULT 'off' CHECK (teaching_mode IN ('off', 'live', 'reveal'));
+
+-- New columns go at the end so CREATE OR REPLACE VIEW keeps working
+CREATE OR REPLACE VIEW public_games WITH (security_barrier) AS
+SELECT
+  code,
+  CASE WHEN phase = 'finished' THEN seed END AS seed,
+  phase,
+  current_round,
+  total_rounds,
+  current_scenario_id,
+  round_start_time,
+  paused_time_remaining,
+  scenario_order,
+  scenario_pack_id,
+  scenarios,
+  carrying_capacity,
+  round_duration,
+  timer_mode,
+  round_end_time,
+  results_delay,
+  round_results,
+  created_at,
+  banned_names,
+  late_join,
+  allow_spectators,
+  teams,
+  team_decision,
+  teaching_mode
+FROM games;
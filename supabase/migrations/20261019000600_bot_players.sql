@@ -0,0 +1,9 @@
+-- Bot players: host-added colonies the server chooses for
+
+ALTER TABLE players ADD COLUMN IF NOT EXISTS is_bot BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE players ADD COLUMN IF NOT EXISTS bot_personality TEXT CHECK (bot_personality IN ('cautious', 'reckless', 'adaptive'));
+
+-- New columns go at the end so CREATE OR REPLACE VIEW keeps working
+CREATE OR REPLACE VIEW public_players WITH (security_barrier) AS
+SELECT id, game_code, name, population, is_host, has_chosen, is_eliminated, created_at, is_spectator, team_id, is_bot, bot_personality
+FROM players;
@@ -0,0 +1,42 @@
+-- Replace the permanent rejoin lock with a cooldown window
+
+ALTER TABLE players ADD COLUMN IF NOT EXISTS recovery_window_start TIMESTAMPTZ;
+
+-- Attempts used to count towards a permanent lock; start everyone with a fresh window
+UPDATE players SET recovery_attempts = 0;
+
+-- Count a rejoin PIN try before it is checked; FALSE while the player is cooling down
+-- One UPDATE claims the try, so concurrent guesses can't all slip under the limit
+-- A window that has run out starts over, so a guessed-at name is only locked out for a while
+CREATE OR REPLACE FUNCTION reserve_recovery_attempt(
+  p_player_id TEXT,
+  p_max_attempts INTEGER,
+  p_window_seconds INTEGER
+) RETURNS BOOLEAN
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_window_start TIMESTAMPTZ := NOW() - make_interval(secs => p_window_seconds);
+BEGIN
+  UPDATE players
+  SET
+    recovery_attempts = CASE
+      WHEN recovery_window_start IS NULL OR recovery_window_start <= v_window_start THEN 1
+      ELSE recovery_attempts + 1
+    END,
+    recovery_window_start = CASE
+      WHEN recovery_window_start IS NULL OR recovery_window_start <= v_window_start THEN NOW()
+      ELSE recovery_window_start
+    END
+  WHERE id = p_player_id
+    AND (
+      recovery_window_start IS NULL
+      OR recovery_window_start <= v_window_start
+      OR recovery_attempts < p_max_attempts
+    );
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Only the server calls reserve_recovery_attempt
+REVOKE EXECUTE ON FUNCTION reserve_recovery_attempt(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
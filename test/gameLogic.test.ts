@@ -4,9 +4,70 @@ import {
   calculateOutcome,
   createInitialGameState,
   getLeaderboard,
+  processRound,
+  replayGame,
+  applyCarryingCapacity,
+  getResultsDeadline,
+  getRoundDeadline,
+  getLateJoinPopulation,
+  allPlayersChosen,
   INITIAL_POPULATION,
 } from "../src/lib/gameLogic";
-import { SCENARIOS, getScenarioById } from "../src/lib/scenarios";
+import { SCENARIOS, getScenarioById, getShuffledScenarioIds } from "../src/lib/scenarios";
+import { getSamplePack, SAMPLE_PACKS } from "../src/lib/samplePacks";
+import { createRng, createRoundRng, deriveSeed } from "../src/lib/random";
+import { scenarioPackSchema, scenarioSchema } from "../src/lib/scenarioSchema";
+import {
+  getChoiceIds,
+  getChoiceName,
+  getChoiceTone,
+  getDefaultChoice,
+  getRiskiestChoice,
+} from "../src/lib/choices";
+import { getFailureTiers, resolveFailure, SUCCESS_OUTCOME } from "../src/lib/outcomes";
+import { countChoices, getAdjustedChoices } from "../src/lib/sharedEnvironment";
+import {
+  generateRecoveryPin,
+  generateSecretToken,
+  hashSecret,
+  secretMatches,
+} from "../src/lib/secrets";
+import { isNameAllowed, nameKey } from "../src/lib/nameFilter";
+import {
+  allTeamsDecided,
+  assignUnteamedPlayers,
+  createTeams,
+  decideTeamChoice,
+  getMemberContributions,
+  getTeamCaptain,
+  processTeamRound,
+} from "../src/lib/teams";
+import { buildPlayerHistory, getChoiceSequence, getWinnerName } from "../src/lib/history";
+import { buildExportRows, exportResults, toCsv } from "../src/lib/exportResults";
+import {
+  buildPopulationSeries,
+  getPopulationTicks,
+  scalePopulation,
+} from "../src/lib/populationChart";
+import { analyzeColony, getExpectedPopulation, getStrategyStyle } from "../src/lib/analytics";
+import { compareTheoryToRolls, getOptionOdds } from "../src/lib/teaching";
+import { buildHistogram, pickForStrategy, runSimulation, simulateGame } from "../src/lib/simulation";
+import { chooseBotChoice, getBotName, getBotStanding } from "../src/lib/bots";
+import {
+  compareToBaselines,
+  createPracticeGame,
+  getPracticeScenario,
+  isNewPersonalBest,
+  isPracticeOver,
+  parsePersonalBest,
+  playPracticeRound,
+  PRACTICE_ROUNDS,
+  PRACTICE_SCENARIOS,
+} from "../src/lib/practice";
+import type { ChoiceId, Player, RoundResult, Scenario } from "../src/lib/types";
+
+// Failure models live in the Harsh Seasons sample pack, not the built-in scenarios
+const [DROUGHT, BACTERIA, RUNOFF] = getSamplePack("sample-harsh-seasons")!.scenarios;
 
 describe("Game Code Generation", () => {
   test("generates a 6-character code", () => {
@@ -65,6 +126,270 @@ describe("Scenarios", () => {
   });
 });
 
+describe("Scenario Packs", () => {
+  test("built-in scenarios satisfy the pack schema", () => {
+    for (const scenario of SCENARIOS) {
+      expect(scenarioSchema.safeParse(scenario).success).toBe(true);
+    }
+  });
+
+  test("accepts a valid pack and defaults icons", () => {
+    const result = scenarioPackSchema.safeParse({
+      name: "Marine",
+      scenarios: SCENARIOS.slice(0, 3),
+    });
+    expect(result.success).toBe(true);
+    expect(result.data?.scenarios[0].icon).toBe("🌿");
+    expect(result.data?.description).toBe("");
+  });
+
+  test("rejects packs with too few scenarios", () => {
+    const result = scenarioPackSchema.safeParse({ name: "Tiny", scenarios: SCENARIOS.slice(0, 2) });
+    expect(result.success).toBe(false);
+  });
+
+  test("rejects duplicate scenario ids", () => {
+    const result = scenarioPackSchema.safeParse({
+      name: "Dupes",
+      scenarios: [SCENARIOS[0], SCENARIOS[0], SCENARIOS[1]],
+    });
+    expect(result.success).toBe(false);
+  });
+
+  test("rejects risk outside 0-1", () => {
+    const broken = {
+      ...SCENARIOS[0],
+      choices: { ...SCENARIOS[0].choices, risky: { ...SCENARIOS[0].choices.risky, risk: 1.5 } },
+    };
+    expect(scenarioSchema.safeParse(broken).success).toBe(false);
+  });
+
+  test("rejects profanity in pack text", () => {
+    const rudeName = scenarioPackSchema.safeParse({ name: "Shit Pond", scenarios: SCENARIOS.slice(0, 3) });
+    expect(rudeName.success).toBe(false);
+
+    const rudeLabel = {
+      ...SCENARIOS[0],
+      choices: { ...SCENARIOS[0].choices, risky: { ...SCENARIOS[0].choices.risky, label: "F U C K it, go" } },
+    };
+    expect(scenarioSchema.safeParse(rudeLabel).success).toBe(false);
+  });
+
+  test("sample packs are valid packs with unique ids", () => {
+    for (const pack of SAMPLE_PACKS) {
+      expect(scenarioPackSchema.safeParse(pack).success).toBe(true);
+    }
+    expect(new Set(SAMPLE_PACKS.map((p) => p.id)).size).toBe(SAMPLE_PACKS.length);
+  });
+
+  test("built-in scenarios keep exactly two options", () => {
+    for (const scenario of SCENARIOS) {
+      expect(getChoiceIds(scenario)).toEqual(["safe", "risky"]);
+    }
+  });
+
+  test("shuffles and resolves scenarios from a custom pack", () => {
+    const pack = SCENARIOS.slice(0, 3).map((s, i) => ({ ...s, id: 100 + i }));
+    expect([...getShuffledScenarioIds(createRng(5), pack)].sort()).toEqual([100, 101, 102]);
+    expect(getScenarioById(101, pack)?.title).toBe(SCENARIOS[1].title);
+    expect(getScenarioById(1, pack)).toBeUndefined();
+  });
+});
+
+describe("Multiple Choices", () => {
+  const threeWay: Scenario = {
+    id: 99,
+    title: "Three Paths",
+    description: "Pick a strategy",
+    choices: {
+      cautious: { name: "Cautious", label: "Stay put", risk: 0, multiplier: 1.1 },
+      balanced: { name: "Balanced", label: "Explore a little", risk: 0, multiplier: 1.5 },
+      allin: { name: "All-in", label: "Go for broke", risk: 1, multiplier: 3 },
+    },
+    explanation: "Strategies differ in variance.",
+  };
+
+  test("keeps options in declared order", () => {
+    expect(getChoiceIds(threeWay)).toEqual(["cautious", "balanced", "allin"]);
+    expect(getChoiceIds(SCENARIOS[0])).toEqual(["safe", "risky"]);
+  });
+
+  test("defaults to the lowest-risk option", () => {
+    expect(getDefaultChoice(threeWay)).toBe("cautious");
+    expect(getDefaultChoice(SCENARIOS[0])).toBe("safe");
+  });
+
+  test("classifies options by risk rank", () => {
+    const storm = getSamplePack("sample-forks-in-the-pond")!.scenarios[0];
+    expect(getChoiceTone(storm, "safe")).toBe("safe");
+    expect(getChoiceTone(storm, "balanced")).toBe("balanced");
+    expect(getChoiceTone(storm, "risky")).toBe("risky");
+  });
+
+  test("names fall back to the capitalized id", () => {
+    expect(getChoiceName(threeWay, "allin")).toBe("All-in");
+    expect(getChoiceName(SCENARIOS[0], "risky")).toBe("Risky");
+  });
+
+  test("processRound resolves any option and defaults unknown ones", () => {
+    const players: Player[] = [
+      { id: "a", name: "A", population: 100, isHost: false, hasChosen: true, isEliminated: false },
+      { id: "b", name: "B", population: 100, isHost: false, hasChosen: true, isEliminated: false },
+      { id: "c", name: "C", population: 100, isHost: false, hasChosen: false, isEliminated: false },
+    ];
+    const { roundResult } = processRound(
+      players,
+      threeWay,
+      1,
+      new Map([
+        ["a", "balanced"],
+        ["b", "nonsense"],
+      ])
+    );
+
+    expect(roundResult.players.map((p) => p.choice)).toEqual(["balanced", "cautious", "cautious"]);
+    expect(roundResult.players[0].populationAfter).toBe(150);
+    expect(roundResult.players[2].populationAfter).toBe(110);
+  });
+
+  test("pack schema accepts three-option scenarios", () => {
+    expect(scenarioSchema.safeParse(threeWay).success).toBe(true);
+  });
+
+  test("pack schema rejects a single option", () => {
+    const single = { ...threeWay, choices: { only: threeWay.choices.cautious } };
+    expect(scenarioSchema.safeParse(single).success).toBe(false);
+  });
+});
+
+describe("Carrying Capacity", () => {
+  test("growth is barely damped far below K", () => {
+    const { newPopulation } = applyCarryingCapacity(100, 2, 100000);
+    expect(newPopulation).toBe(199);
+  });
+
+  test("growth is halved at K/2", () => {
+    const { newPopulation, multiplier } = applyCarryingCapacity(500, 2, 1000);
+    expect(newPopulation).toBe(750);
+    expect(multiplier).toBe(1.5);
+  });
+
+  test("population never overshoots K", () => {
+    expect(applyCarryingCapacity(900, 3, 1000).newPopulation).toBe(1000);
+    expect(applyCarryingCapacity(1000, 3, 1000).newPopulation).toBe(1000);
+  });
+
+  test("losses are not affected", () => {
+    expect(applyCarryingCapacity(800, 0.5, 1000)).toEqual({ newPopulation: 400, multiplier: 0.5 });
+  });
+
+  test("processRound applies K to survivors only", () => {
+    const players: Player[] = [
+      { id: "a", name: "A", population: 500, isHost: false, hasChosen: true, isEliminated: false },
+    ];
+    const win = processRound(players, SCENARIOS[0], 1, new Map([["a", "risky"]]), {
+      rng: () => 0.99,
+      carryingCapacity: 1000,
+    });
+    expect(win.roundResult.players[0].populationAfter).toBe(800);
+    expect(win.roundResult.players[0].multiplier).toBe(1.6);
+
+    const loss = processRound(players, SCENARIOS[0], 1, new Map([["a", "risky"]]), {
+      rng: () => 0,
+      carryingCapacity: 1000,
+    });
+    expect(loss.roundResult.players[0].populationAfter).toBe(250);
+  });
+
+  test("fixed losses stay exact under K", () => {
+    const fixedLoss = (population: number) =>
+      processRound(
+        [{ id: "a", name: "A", population, isHost: false, hasChosen: true, isEliminated: false }],
+        DROUGHT, // safe: lose 30 on failure
+        1,
+        new Map([["a", "safe"]]),
+        { rng: () => 0, carryingCapacity: 20000 }
+      ).roundResult.players[0];
+
+    expect(fixedLoss(10000).populationAfter).toBe(9970);
+    expect(fixedLoss(137).populationAfter).toBe(107);
+    expect(fixedLoss(137).survived).toBe(false);
+  });
+});
+
+describe("Shared Environment", () => {
+  // Shared effects live in the Shared Pond sample pack; the built-in scenarios have none
+  const [shallows, current, feast] = getSamplePack("sample-shared-pond")!.scenarios;
+
+  const makePlayers = (count: number): Player[] =>
+    Array.from({ length: count }, (_, i) => ({
+      id: `p${i}`,
+      name: `P${i}`,
+      population: INITIAL_POPULATION,
+      isHost: false,
+      hasChosen: true,
+      isEliminated: false,
+    }));
+
+  test("split counts competing colonies and skips the host", () => {
+    const players: Player[] = [
+      { id: "host", name: "Host", population: INITIAL_POPULATION, isHost: true, hasChosen: false, isEliminated: false },
+      ...makePlayers(3),
+    ];
+    const choices = new Map([["p0", "risky"], ["p1", "risky"]]);
+    const split = countChoices(players, SCENARIOS[0], (p) => choices.get(p.id) ?? "safe");
+    expect(split).toEqual({ safe: 1, risky: 2 });
+  });
+
+  test("crowding raises risk with the share of colonies", () => {
+    expect(getAdjustedChoices(shallows, { safe: 4, risky: 0 }).risky.risk).toBe(0.35);
+    expect(getAdjustedChoices(shallows, { safe: 2, risky: 2 }).risky.risk).toBe(0.5);
+    expect(getAdjustedChoices(shallows, { safe: 0, risky: 4 }).risky.risk).toBe(0.65);
+  });
+
+  test("competition shrinks the reward", () => {
+    expect(getAdjustedChoices(feast, { safe: 1, risky: 1 }).risky.multiplier).toBe(1.9);
+  });
+
+  test("cooperative payoff unlocks at its threshold", () => {
+    const below = getAdjustedChoices(current, { safe: 1, risky: 2 }).safe;
+    const above = getAdjustedChoices(current, { safe: 2, risky: 2 }).safe;
+    expect(below).toEqual({ risk: 0.08, multiplier: 1.3, cooperative: false });
+    expect(above).toEqual({ risk: 0.08, multiplier: 1.6, cooperative: true });
+  });
+
+  test("processRound rolls against the adjusted odds", () => {
+    const players = makePlayers(4);
+    const choices = new Map(players.map((p) => [p.id, "safe"]));
+    // 0.1 clears the safe 8% risk, so every colony grows at the cooperative ×1.6
+    const { roundResult } = processRound(players, current, 1, choices, { rng: () => 0.1 });
+    expect(roundResult.split).toEqual({ safe: 4, risky: 0 });
+    expect(roundResult.adjustedChoices?.safe.cooperative).toBe(true);
+    expect(roundResult.players.every((p) => p.populationAfter === 160)).toBe(true);
+  });
+
+  test("scenarios without shared effects record a split but no adjustments", () => {
+    const { roundResult } = processRound(makePlayers(2), getScenarioById(2)!, 1, new Map());
+    expect(roundResult.split).toEqual({ safe: 2, risky: 0 });
+    expect(roundResult.adjustedChoices).toBeUndefined();
+  });
+
+  test("built-in scenarios keep their printed odds", () => {
+    expect(SCENARIOS.some((s) => Object.values(s.choices).some((c) => c.shared))).toBe(false);
+  });
+
+  test("pack scenarios accept shared effects", () => {
+    const parsed = scenarioSchema.safeParse({
+      ...SCENARIOS[0],
+      choices: {
+        ...SCENARIOS[0].choices,
+        safe: { ...SCENARIOS[0].choices.safe, shared: { cooperative: { minShare: 0.6, multiplier: 1.8 } } },
+      },
+    });
+    expect(parsed.success).toBe(true);
+  });
+});
+
 describe("Initial Game State", () => {
   test("creates valid initial state", () => {
     const state = createInitialGameState("ABC123", "host_1", "TestHost");
@@ -78,6 +403,8 @@ describe("Initial Game State", () => {
     expect(state.currentRound).toBe(0);
     expect(state.totalRounds).toBe(10);
     expect(state.pausedTimeRemaining).toBe(null);
+    expect(state.roundDuration).toBe(30);
+    expect(state.timerMode).toBe("fixed");
   });
 
   test("creates state with custom rounds", () => {
@@ -91,6 +418,658 @@ describe("Initial Game State", () => {
   });
 });
 
+describe("Round Deadlines", () => {
+  const playing = {
+    ...createInitialGameState("ABC123", "host_1", "TestHost"),
+    phase: "playing" as const,
+    roundStartTime: 1_000_000,
+    roundDuration: 45,
+  };
+
+  test("round deadline is start time plus the game's duration", () => {
+    expect(getRoundDeadline(playing)).toBe(1_045_000);
+    expect(getRoundDeadline({ ...playing, timerMode: "all_chosen" })).toBe(1_045_000);
+  });
+
+  test("no round deadline when untimed, paused or between rounds", () => {
+    expect(getRoundDeadline({ ...playing, timerMode: "none" })).toBeNull();
+    expect(getRoundDeadline({ ...playing, phase: "paused", roundStartTime: null })).toBeNull();
+    expect(getRoundDeadline({ ...playing, phase: "results" })).toBeNull();
+  });
+
+  test("results deadline only applies when auto-advance is on", () => {
+    const results = { ...playing, phase: "results" as const, roundEndTime: 2_000_000 };
+    expect(getResultsDeadline(results)).toBeNull();
+    expect(getResultsDeadline({ ...results, resultsDelay: 10 })).toBe(2_010_000);
+    expect(getResultsDeadline({ ...results, resultsDelay: 10, phase: "playing" })).toBeNull();
+  });
+});
+
+describe("Late Join", () => {
+  const colony = (id: string, population: number, extra: Partial<Player> = {}): Player => ({
+    id,
+    name: id,
+    population,
+    isHost: false,
+    hasChosen: false,
+    isEliminated: false,
+    ...extra,
+  });
+  const players = [
+    colony("host", INITIAL_POPULATION, { isHost: true }),
+    colony("a", 40),
+    colony("b", 250),
+    colony("c", 90),
+    colony("d", 0, { isEliminated: true }),
+    colony("watcher", INITIAL_POPULATION, { isSpectator: true }),
+  ];
+
+  test("starting population follows the host's setting", () => {
+    expect(getLateJoinPopulation(players, "off")).toBeNull();
+    expect(getLateJoinPopulation(players, "initial")).toBe(INITIAL_POPULATION);
+    expect(getLateJoinPopulation(players, "median")).toBe(90);
+    expect(getLateJoinPopulation([...players, colony("e", 300)], "median")).toBe(170);
+  });
+
+  test("median falls back to the initial population with no surviving colonies", () => {
+    expect(getLateJoinPopulation([players[0], players[4]], "median")).toBe(INITIAL_POPULATION);
+  });
+
+  test("spectators are never rolled, ranked or waited on", () => {
+    const { updatedPlayers, roundResult } = processRound(players, SCENARIOS[0], 1, new Map());
+    expect(roundResult.players.map((p) => p.playerId)).not.toContain("watcher");
+    expect(updatedPlayers.find((p) => p.id === "watcher")?.population).toBe(INITIAL_POPULATION);
+    expect(getLeaderboard(players).map((l) => l.player.id)).not.toContain("watcher");
+    expect(
+      allPlayersChosen(players.map((p) => (p.isSpectator ? p : { ...p, hasChosen: true })))
+    ).toBe(true);
+  });
+});
+
+describe("Teams", () => {
+  const member = (id: string, teamId: string | null, extra: Partial<Player> = {}): Player => ({
+    id,
+    name: id,
+    population: INITIAL_POPULATION,
+    isHost: false,
+    hasChosen: false,
+    isEliminated: false,
+    teamId,
+    ...extra,
+  });
+  const scenario = SCENARIOS[1]; // plain safe/risky, no shared effects
+  const players = [
+    member("host", null, { isHost: true }),
+    member("a", "team_1"),
+    member("b", "team_1"),
+    member("c", "team_1"),
+    member("d", "team_2"),
+  ];
+
+  test("majority wins, and ties go to the lower-risk option", () => {
+    const members = players.slice(1, 4);
+    const twoRisky = new Map([["a", "risky"], ["b", "risky"], ["c", "safe"]]);
+    expect(decideTeamChoice(scenario, members, twoRisky, "majority", 1).choice).toBe("risky");
+
+    const tied = new Map([["a", "risky"], ["b", "safe"]]);
+    expect(decideTeamChoice(scenario, members, tied, "majority", 1).choice).toBe("safe");
+    expect(decideTeamChoice(scenario, members, new Map(), "majority", 1).choice).toBe("safe");
+  });
+
+  test("captains rotate in join order and only their pick counts", () => {
+    const members = players.slice(1, 4);
+    expect(getTeamCaptain(members, 1)?.id).toBe("a");
+    expect(getTeamCaptain(members, 2)?.id).toBe("b");
+    expect(getTeamCaptain(members, 4)?.id).toBe("a");
+
+    const choices = new Map([["a", "safe"], ["b", "risky"], ["c", "risky"]]);
+    const { choice, result } = decideTeamChoice(scenario, members, choices, "captain", 2);
+    expect(choice).toBe("risky");
+    expect(result.captainId).toBe("b");
+    expect(decideTeamChoice(scenario, members, choices, "captain", 1).choice).toBe("safe");
+  });
+
+  test("captain games only wait on each team's captain", () => {
+    const teams = createTeams(2);
+    const captainsIn = players.map((p) => (p.id === "a" || p.id === "d" ? { ...p, hasChosen: true } : p));
+    expect(allTeamsDecided(teams, captainsIn, "captain", 1)).toBe(true);
+    expect(allTeamsDecided(teams, captainsIn, "majority", 1)).toBe(false);
+  });
+
+  test("unteamed players fill the smallest team", () => {
+    const teams = createTeams(2);
+    const assignments = assignUnteamedPlayers(
+      [...players, member("e", null), member("f", null), member("watcher", null, { isSpectator: true })],
+      teams
+    );
+    expect(assignments).toEqual([
+      { playerId: "e", teamId: "team_2" },
+      { playerId: "f", teamId: "team_2" },
+    ]);
+  });
+
+  test("each team rolls once and its members mirror the result", () => {
+    const teams = createTeams(2);
+    const choices = new Map([["a", "risky"], ["b", "risky"], ["c", "safe"], ["d", "safe"]]);
+    const { updatedTeams, updatedPlayers, roundResult } = processTeamRound(
+      teams,
+      players,
+      scenario,
+      1,
+      choices,
+      "majority",
+      { rng: () => 0.99 } // every roll succeeds
+    );
+
+    expect(roundResult.players.map((p) => p.playerId)).toEqual(["team_1", "team_2"]);
+    expect(roundResult.split).toEqual({ safe: 1, risky: 1 });
+    expect(updatedTeams[0].population).toBe(Math.floor(INITIAL_POPULATION * scenario.choices.risky.multiplier));
+    expect(updatedPlayers.find((p) => p.id === "b")?.population).toBe(updatedTeams[0].population);
+    expect(updatedPlayers.find((p) => p.id === "host")?.population).toBe(INITIAL_POPULATION);
+  });
+
+  test("contributions credit the members who backed the team's choice", () => {
+    const teams = createTeams(2);
+    const choices = new Map([["a", "risky"], ["b", "risky"], ["c", "safe"]]);
+    const { roundResult } = processTeamRound(teams, players, scenario, 1, choices, "majority", {
+      rng: () => 0.99,
+    });
+    const gain = roundResult.players[0].populationAfter - roundResult.players[0].populationBefore;
+    const contributions = getMemberContributions([roundResult], "team_1");
+    expect(contributions.a).toBe(Math.round(gain / 2));
+    expect(contributions.b).toBe(Math.round(gain / 2));
+    expect(contributions.c).toBeUndefined();
+  });
+});
+
+describe("History", () => {
+  const colony = (id: string, population: number, extra: Partial<Player> = {}): Player => ({
+    id,
+    name: id,
+    population,
+    isHost: false,
+    hasChosen: false,
+    isEliminated: false,
+    ...extra,
+  });
+  const scenario = SCENARIOS[1];
+
+  test("choice sequences leave gaps for rounds a colony sat out", () => {
+    const early = colony("early", INITIAL_POPULATION);
+    const rng = createRng(7);
+    const round1 = processRound([early], scenario, 1, new Map([["early", "risky"]]), { rng });
+    const late = colony("late", INITIAL_POPULATION);
+    const round2 = processRound(
+      [...round1.updatedPlayers, late],
+      scenario,
+      2,
+      new Map([["early", "safe"], ["late", "risky"]]),
+      { rng }
+    );
+    const results = [round1.roundResult, round2.roundResult];
+
+    expect(getChoiceSequence(results, early)).toEqual(["risky", "safe"]);
+    expect(getChoiceSequence(results, late)).toEqual([null, "risky"]);
+  });
+
+  test("team games keep each member's own vote", () => {
+    const players = [
+      colony("a", INITIAL_POPULATION, { teamId: "team_1" }),
+      colony("b", INITIAL_POPULATION, { teamId: "team_1" }),
+    ];
+    const { roundResult } = processTeamRound(
+      createTeams(1),
+      players,
+      scenario,
+      1,
+      new Map([["a", "risky"]]),
+      "majority",
+      { rng: () => 0.99 }
+    );
+
+    expect(getChoiceSequence([roundResult], players[0])).toEqual(["risky"]);
+    expect(getChoiceSequence([roundResult], players[1])).toEqual([null]);
+  });
+
+  test("archives colonies in standings order without the host or spectators", () => {
+    const state = {
+      ...createInitialGameState("ABC123", "host", "Host"),
+      players: [
+        colony("host", INITIAL_POPULATION, { isHost: true }),
+        colony("small", 40),
+        colony("big", 300),
+        colony("watcher", 0, { isSpectator: true }),
+      ],
+    };
+
+    expect(buildPlayerHistory(state).map((p) => p.playerId)).toEqual(["big", "small"]);
+    expect(getWinnerName(state)).toBe("big");
+    const teamState = {
+      ...state,
+      teams: [{ id: "team_1", name: "Team Moss", population: 1, isEliminated: false }],
+    };
+    expect(getWinnerName(teamState)).toBe("Team Moss");
+  });
+});
+
+describe("Results Export", () => {
+  const colony = (id: string, name: string, extra: Partial<Player> = {}): Player => ({
+    id,
+    name,
+    population: INITIAL_POPULATION,
+    isHost: false,
+    hasChosen: false,
+    isEliminated: false,
+    ...extra,
+  });
+  const scenario = SCENARIOS[1];
+
+  // Two rounds: "bold" starts tiny, goes risky and is wiped out in round 1; "calm" plays safe
+  const playTwoRounds = () => {
+    const players = [
+      colony("host", "Host", { isHost: true }),
+      colony("bold", "=Bold", { population: 1 }),
+      colony("calm", "Calm, Jr."),
+    ];
+    const rolls = [0.99, 0.0, 0.99]; // host succeeds, bold fails, calm succeeds
+    const round1 = processRound(players, scenario, 1, new Map([["bold", "risky"], ["calm", "safe"]]), {
+      rng: () => rolls.shift() ?? 0.99,
+    });
+    const round2 = processRound(round1.updatedPlayers, scenario, 2, new Map([["calm", "safe"]]), {
+      rng: () => 0.99,
+    });
+    return {
+      ...createInitialGameState("EXPORT", "host", "Host"),
+      phase: "finished" as const,
+      players: round2.updatedPlayers,
+      roundResults: [round1.roundResult, round2.roundResult],
+    };
+  };
+
+  test("one row per player per round they played, with rank and elimination round", () => {
+    const rows = buildExportRows(playTwoRounds());
+
+    expect(rows.map((r) => [r.player, r.round])).toEqual([
+      ["Calm, Jr.", 1],
+      ["Calm, Jr.", 2],
+      ["=Bold", 1],
+    ]);
+    expect(rows[0]).toMatchObject({ scenario: scenario.title, choice: "Safe", finalRank: 1 });
+    expect(rows[0].eliminatedRound).toBeNull();
+    expect(rows[2]).toMatchObject({ finalRank: 2, eliminatedRound: 1, populationAfter: 0 });
+  });
+
+  test("CSV quotes commas and defuses spreadsheet formulas", () => {
+    const csv = toCsv(buildExportRows(playTwoRounds()));
+    const lines = csv.trimEnd().split("\r\n");
+
+    expect(lines[0]).toBe(
+      "player,team,round,scenario,choice,survived,populationBefore,populationAfter,multiplier,finalRank,eliminatedRound"
+    );
+    expect(lines[1].startsWith('"Calm, Jr.",,1,')).toBe(true);
+    expect(lines[3].startsWith("'=Bold,,1,")).toBe(true);
+    expect(lines).toHaveLength(4);
+  });
+
+  test("team games repeat the team's rows for each member", () => {
+    const players = [
+      colony("host", "Host", { isHost: true }),
+      colony("a", "Ana", { teamId: "team_1" }),
+      colony("b", "Ben", { teamId: "team_1" }),
+    ];
+    const teams = createTeams(1);
+    const { updatedTeams, updatedPlayers, roundResult } = processTeamRound(
+      teams,
+      players,
+      scenario,
+      1,
+      new Map([["a", "risky"], ["b", "risky"]]),
+      "majority",
+      { rng: () => 0.99 }
+    );
+    const state = {
+      ...createInitialGameState("TEAMS1", "host", "Host"),
+      players: updatedPlayers,
+      teams: updatedTeams,
+      roundResults: [roundResult],
+    };
+
+    const rows = buildExportRows(state);
+    expect(rows.map((r) => r.player)).toEqual(["Ana", "Ben"]);
+    expect(rows.every((r) => r.team === teams[0].name && r.choice === "Risky")).toBe(true);
+
+    const file = exportResults(state, "json");
+    expect(file.filename).toBe("pond-TEAMS1-results.json");
+    expect(JSON.parse(file.content)).toEqual(rows);
+  });
+});
+
+describe("Population Chart", () => {
+  const entry = (
+    playerId: string,
+    populationBefore: number,
+    populationAfter: number,
+    survived = true
+  ): RoundResult["players"][number] => ({
+    playerId,
+    name: playerId,
+    choice: survived ? "safe" : "risky",
+    survived,
+    outcome: survived ? SUCCESS_OUTCOME : "Failed",
+    populationBefore,
+    populationAfter,
+    multiplier: populationAfter / populationBefore,
+  });
+  const round = (n: number, players: RoundResult["players"]): RoundResult => ({
+    round: n,
+    scenarioId: 1,
+    players,
+    split: {},
+  });
+
+  test("one line per colony, starting before the first round it played", () => {
+    const series = buildPopulationSeries([
+      round(1, [entry("a", 100, 150), entry("b", 100, 50, false)]),
+      round(2, [entry("a", 150, 0, false), entry("b", 50, 70), entry("late", 60, 90)]),
+    ]);
+
+    expect(series.map((s) => s.id)).toEqual(["a", "b", "late"]);
+    expect(series[0].points).toEqual([
+      { round: 0, population: 100 },
+      { round: 1, population: 150 },
+      { round: 2, population: 0 },
+    ]);
+    expect(series[0].failedRounds).toEqual([2]);
+    expect(series[1].failedRounds).toEqual([1]);
+    expect(series[2].points).toEqual([
+      { round: 1, population: 60 },
+      { round: 2, population: 90 },
+    ]);
+  });
+
+  test("the host's auto-rolled entry gets no line", () => {
+    const rounds = [round(1, [entry("host", 100, 150), entry("a", 100, 150)])];
+    expect(buildPopulationSeries(rounds, "host").map((s) => s.id)).toEqual(["a"]);
+    expect(buildPopulationSeries(rounds).map((s) => s.id)).toEqual(["host", "a"]);
+  });
+
+  test("log scale puts each power of ten an equal step apart", () => {
+    expect(scalePopulation(500, 1000, false)).toBe(0.5);
+    expect(scalePopulation(10, 1000, true)).toBeCloseTo(1 / 3);
+    expect(scalePopulation(100, 1000, true)).toBeCloseTo(2 / 3);
+    expect(scalePopulation(0, 1000, true)).toBe(0);
+    expect(getPopulationTicks(2500, true)).toEqual([1, 10, 100, 1000]);
+    expect(getPopulationTicks(2500, false)).toEqual([0, 1000, 2000]);
+  });
+});
+
+describe("Strategy Analytics", () => {
+  const scenario = DROUGHT; // safe: 25% to lose 30, x1.4; risky: 40% to lose half, x2
+
+  test("expected population averages every way the roll could go", () => {
+    expect(getExpectedPopulation(100, scenario, "risky", {})).toBeCloseTo(0.6 * 200 + 0.4 * 50);
+    expect(getExpectedPopulation(100, scenario, "safe", {})).toBeCloseTo(0.75 * 140 + 0.25 * 70);
+    // Shared-environment odds replace the printed ones
+    const crowded = { adjustedChoices: { risky: { risk: 0.8, multiplier: 2, cooperative: false } } };
+    expect(getExpectedPopulation(100, scenario, "risky", crowded)).toBeCloseTo(0.2 * 200 + 0.8 * 50);
+  });
+
+  test("profiles risk-taking and luck from the rounds a colony played", () => {
+    const player: Player = {
+      id: "p",
+      name: "P",
+      population: INITIAL_POPULATION,
+      isHost: false,
+      hasChosen: false,
+      isEliminated: false,
+    };
+    const picks: ChoiceId[] = ["risky", "risky", "risky", "safe"];
+    let players = [player];
+    const roundResults: RoundResult[] = [];
+    picks.forEach((choice, i) => {
+      const { updatedPlayers, roundResult } = processRound(
+        players,
+        scenario,
+        i + 1,
+        new Map([["p", choice]]),
+        { rng: () => 0.99 } // every roll succeeds
+      );
+      players = updatedPlayers;
+      roundResults.push(roundResult);
+    });
+
+    const profile = analyzeColony(roundResults, "p", [scenario])!;
+    expect(profile.riskyRate).toBe(0.75);
+    expect(profile.style).toBe("gambler");
+    expect(profile.successes).toBe(4);
+    expect(profile.expectedSuccesses).toBeCloseTo(0.6 * 3 + 0.75);
+    expect(profile.luck).toBeGreaterThan(0);
+    expect(profile.rounds[0].actual).toBeGreaterThan(profile.rounds[0].expected);
+    expect(analyzeColony(roundResults, "nobody", SCENARIOS)).toBeNull();
+  });
+
+  test("labels run from steady to gambler by risky-pick share", () => {
+    expect(getStrategyStyle(0.2)).toBe("steady");
+    expect(getStrategyStyle(0.5)).toBe("balanced");
+    expect(getStrategyStyle(0.7)).toBe("gambler");
+  });
+});
+
+describe("Teaching Overlay", () => {
+  const scenario = DROUGHT; // safe: 25% to lose 30, x1.4; risky: 40% to lose half, x2
+
+  test("lists each option's survival, growth, penalty and expected value", () => {
+    const [safe, risky] = getOptionOdds(scenario, 100);
+    expect(safe).toMatchObject({ choice: "safe", survival: 0.75, multiplier: 1.4 });
+    expect(safe.penalty).toBe("Stranded at the drying edge");
+    expect(safe.expectedMultiplier).toBeCloseTo(1.225);
+    expect(risky).toMatchObject({ choice: "risky", survival: 0.6, multiplier: 2, penalty: "Lost half" });
+    expect(risky.expectedPopulation).toBeCloseTo(140);
+  });
+
+  test("compares the odds with what the class rolled", () => {
+    const colony = (id: string): Player => ({
+      id,
+      name: id,
+      population: INITIAL_POPULATION,
+      isHost: false,
+      hasChosen: false,
+      isEliminated: false,
+    });
+    const rolls = [0.99, 0.0, 0.99]; // a survives, b fails, c survives
+    const { roundResult } = processRound(
+      [colony("a"), colony("b"), colony("c")],
+      scenario,
+      1,
+      new Map([["a", "risky"], ["b", "risky"], ["c", "safe"]]),
+      { rng: () => rolls.shift() ?? 0.99 }
+    );
+
+    const [safe, risky] = compareTheoryToRolls(scenario, roundResult);
+    expect(risky).toMatchObject({ picked: 2, survived: 1, expectedSurvival: 0.6, actualSurvival: 0.5 });
+    expect(risky.actualMultiplier).toBeCloseTo((2 + 0.5) / 2);
+    expect(safe).toMatchObject({ picked: 1, survived: 1, actualSurvival: 1 });
+
+    // The host's own roll isn't one of the class's picks
+    const withHost = processRound(
+      [{ ...colony("host"), isHost: true }, colony("a"), colony("b"), colony("c")],
+      scenario,
+      1,
+      new Map([["a", "risky"], ["b", "risky"], ["c", "safe"]]),
+      { rng: () => 0.99 }
+    ).roundResult;
+    expect(withHost.players.some((p) => p.playerId === "host")).toBe(true);
+    const [hostSafe] = compareTheoryToRolls(scenario, withHost, null, "host");
+    expect(hostSafe).toMatchObject({ picked: 1, survived: 1 });
+    expect(compareTheoryToRolls(scenario, withHost)[0].picked).toBe(2);
+
+    const nobody = compareTheoryToRolls(scenario, { ...roundResult, players: [] });
+    expect(nobody[0].actualSurvival).toBeNull();
+    expect(nobody[0].actualMultiplier).toBeNull();
+  });
+});
+
+describe("Simulation", () => {
+  test("each strategy makes the expected pick", () => {
+    expect(getRiskiestChoice(SCENARIOS[1])).toBe("risky");
+    expect(pickForStrategy({ strategy: "alternate" }, 1, 100)).toBe("risky");
+    expect(pickForStrategy({ strategy: "alternate" }, 2, 100)).toBe("safe");
+    expect(pickForStrategy({ strategy: "threshold", threshold: 300 }, 1, 299)).toBe("risky");
+    expect(pickForStrategy({ strategy: "threshold", threshold: 300 }, 1, 300)).toBe("safe");
+    const customPicks = ["safe", "safe", "risky"] as const;
+    expect(pickForStrategy({ strategy: "custom", customPicks: [...customPicks] }, 3, 100)).toBe("risky");
+    expect(pickForStrategy({ strategy: "custom", customPicks: [...customPicks] }, 4, 100)).toBe("safe");
+  });
+
+  test("the same seed gives the same summary", () => {
+    const a = runSimulation({ strategy: "risky", games: 200, seed: 7 });
+    const b = runSimulation({ strategy: "risky", games: 200, seed: 7 });
+    expect(a).toEqual(b);
+    expect(a.finalPopulations).toHaveLength(200);
+    expect(a.median).toBeGreaterThanOrEqual(a.p10);
+    expect(a.p90).toBeGreaterThanOrEqual(a.median);
+  });
+
+  test("always safe is wiped out less often than always risky", () => {
+    const safe = runSimulation({ strategy: "safe", games: 500, seed: 3 });
+    const risky = runSimulation({ strategy: "risky", games: 500, seed: 3 });
+    expect(safe.eliminationRate).toBeLessThan(risky.eliminationRate);
+  });
+
+  test("fixed losses stay exact under carrying capacity", () => {
+    // Every roll fails: the safe option loses exactly 30 a round, K or not
+    const alwaysFail = () => 0;
+    const drought = [DROUGHT];
+    const options = { strategy: "safe" as const, rounds: 2, scenarios: drought };
+    expect(simulateGame(options, alwaysFail)).toBe(INITIAL_POPULATION - 60);
+    expect(simulateGame({ ...options, carryingCapacity: 1000 }, alwaysFail)).toBe(
+      INITIAL_POPULATION - 60
+    );
+  });
+
+  test("histogram bins count every surviving colony", () => {
+    const summary = runSimulation({ strategy: "alternate", games: 300, seed: 5 });
+    const survivors = summary.finalPopulations.filter((p) => p >= 1).length;
+    for (const logScale of [false, true]) {
+      const bins = buildHistogram(summary.finalPopulations, 10, logScale);
+      expect(bins).toHaveLength(10);
+      expect(bins.reduce((sum, bin) => sum + bin.count, 0)).toBe(survivors);
+    }
+    expect(buildHistogram([0, 0], 10, false)).toEqual([]);
+  });
+});
+
+describe("Bots", () => {
+  const scenario = SCENARIOS[1]; // two options: safe and risky
+  const bot = (id: string, population: number): Player => ({
+    id,
+    name: id,
+    population,
+    isHost: false,
+    hasChosen: false,
+    isEliminated: false,
+    isBot: true,
+    botPersonality: "adaptive",
+  });
+
+  const riskyRate = (pick: (rng: () => number) => string) => {
+    let risky = 0;
+    for (let i = 0; i < 1000; i++) {
+      if (pick(createRng(deriveSeed(1, "bot", i))) === "risky") risky++;
+    }
+    return risky / 1000;
+  };
+
+  test("cautious bots mostly play safe and reckless bots mostly gamble", () => {
+    expect(riskyRate((rng) => chooseBotChoice("cautious", scenario, 0, rng))).toBeLessThan(0.3);
+    expect(riskyRate((rng) => chooseBotChoice("reckless", scenario, 0, rng))).toBeGreaterThan(0.7);
+  });
+
+  test("adaptive bots protect a lead and gamble when behind", () => {
+    expect(riskyRate((rng) => chooseBotChoice("adaptive", scenario, 0, rng))).toBeLessThan(0.3);
+    expect(riskyRate((rng) => chooseBotChoice("adaptive", scenario, 1, rng))).toBeGreaterThan(0.7);
+
+    const state = createInitialGameState("ABC123", "host", "Host");
+    state.players.push(bot("leader", 500), bot("middle", 200), bot("last", 50));
+    expect(getBotStanding(state, state.players[1])).toBe(0);
+    expect(getBotStanding(state, state.players[2])).toBe(0.5);
+    expect(getBotStanding(state, state.players[3])).toBe(1);
+  });
+
+  test("always picks one of the scenario's options", () => {
+    const multi = getSamplePack("sample-forks-in-the-pond")!.scenarios[0];
+    for (let i = 0; i < 50; i++) {
+      const choice = chooseBotChoice("adaptive", multi, i / 49, createRng(i));
+      expect(getChoiceIds(multi)).toContain(choice);
+    }
+  });
+
+  test("bot names never clash with players already in the game", () => {
+    const rng = createRng(9);
+    const taken = ["Alice"];
+    for (let i = 0; i < 15; i++) {
+      const name = getBotName(taken, rng);
+      expect(taken.map((n) => n.toLowerCase())).not.toContain(name.toLowerCase());
+      expect(name.length).toBeLessThanOrEqual(20);
+      taken.push(name);
+    }
+  });
+});
+
+describe("Solo Practice", () => {
+  const playOut = (seed: number, pick: "safe" | "risky") => {
+    let game = createPracticeGame(seed);
+    while (!isPracticeOver(game)) {
+      game = playPracticeRound(game, pick === "safe" ? getDefaultChoice(getPracticeScenario(game)!) : "risky");
+    }
+    return game;
+  };
+
+  test("plays a seeded run of practice rounds", () => {
+    const game = createPracticeGame(42);
+    expect(game.scenarioOrder).toHaveLength(PRACTICE_ROUNDS);
+    expect(new Set(game.scenarioOrder).size).toBe(PRACTICE_ROUNDS);
+
+    const first = playOut(42, "risky");
+    expect(first).toEqual(playOut(42, "risky"));
+    expect(getPracticeScenario(first)).toBeNull();
+    expect(playPracticeRound(first, "risky")).toBe(first);
+    expect(first.roundResults.length).toBeLessThanOrEqual(PRACTICE_ROUNDS);
+
+    const safe = playOut(42, "safe");
+    expect(safe.roundResults.every((r) => r.players[0].choice !== "risky")).toBe(true);
+  });
+
+  test("rolls against printed odds with no shared effects", () => {
+    expect(
+      PRACTICE_SCENARIOS.every((s) => Object.values(s.choices).every((c) => c.shared === undefined))
+    ).toBe(true);
+  });
+
+  test("compares a result with the baseline strategies", () => {
+    const rows = compareToBaselines(0, PRACTICE_ROUNDS, 1);
+    expect(rows.map((r) => r.strategy)).toEqual(["safe", "risky", "alternate", "threshold"]);
+    // A wiped-out colony only ties the baselines' own wipe-outs
+    for (const row of rows) {
+      expect(row.beatRate).toBeCloseTo(row.eliminationRate / 2);
+    }
+    expect(compareToBaselines(Number.MAX_SAFE_INTEGER)[0].beatRate).toBe(1);
+  });
+
+  test("stores and beats a personal best", () => {
+    const best = { population: 900, seed: 7, achievedAt: "2026-10-19T00:00:00.000Z" };
+    expect(parsePersonalBest(JSON.stringify(best))).toEqual(best);
+    expect(parsePersonalBest("not json")).toBeNull();
+    expect(parsePersonalBest(JSON.stringify({ population: "900" }))).toBeNull();
+    expect(parsePersonalBest(null)).toBeNull();
+
+    expect(isNewPersonalBest(null, 1)).toBe(true);
+    expect(isNewPersonalBest(null, 0)).toBe(false);
+    expect(isNewPersonalBest(best, 900)).toBe(false);
+    expect(isNewPersonalBest(best, 901)).toBe(true);
+  });
+});
+
 describe("Leaderboard", () => {
   test("sorts players by population descending", () => {
     const players = [
@@ -143,6 +1122,54 @@ describe("Calculate Outcome", () => {
     expect(outcome.survived).toBe(false);
     expect(outcome.newPopulation).toBe(50);
     expect(outcome.multiplier).toBe(0.5);
+    expect(outcome.outcome).toBe("Lost half");
+  });
+
+  test("failure applies the choice's multiplier model", () => {
+    const outcome = calculateOutcome(200, "risky", RUNOFF, () => 0);
+    expect(outcome.survived).toBe(false);
+    expect(outcome.newPopulation).toBe(20);
+    expect(outcome.outcome).toBe("Poisoned - 90% lost");
+  });
+
+  test("failure applies a fixed loss", () => {
+    const outcome = calculateOutcome(200, "safe", DROUGHT, () => 0);
+    expect(outcome.newPopulation).toBe(170);
+    expect(outcome.multiplier).toBe(0.85);
+  });
+
+  test("fixed loss never goes below zero", () => {
+    expect(resolveFailure(10, { type: "fixed", loss: 30 }, Math.random).newPopulation).toBe(0);
+  });
+
+  test("failure draws from the choice's distribution", () => {
+    const rolls = [0, 0.99];
+    const outcome = calculateOutcome(100, "risky", BACTERIA, () => rolls.shift()!);
+    expect(outcome.survived).toBe(false);
+    expect(outcome.newPopulation).toBe(20);
+    expect(outcome.outcome).toBe("Epidemic");
+  });
+
+  test("distribution draws a tier by weight", () => {
+    const model = {
+      type: "distribution" as const,
+      tiers: [
+        { label: "Mild", weight: 3, multiplier: 0.8 },
+        { label: "Severe", weight: 1, multiplier: 0.2 },
+      ],
+    };
+    expect(getFailureTiers(model, 100).map((t) => t.probability)).toEqual([0.75, 0.25]);
+    expect(resolveFailure(100, model, () => 0.5).outcome).toBe("Mild");
+    expect(resolveFailure(100, model, () => 0.9)).toEqual({
+      newPopulation: 20,
+      multiplier: 0.2,
+      outcome: "Severe",
+    });
+  });
+
+  test("survivors record the success outcome", () => {
+    const outcome = calculateOutcome(100, "safe", scenario, () => 0.99);
+    expect(outcome.outcome).toBe(SUCCESS_OUTCOME);
   });
 
   test("success applies multiplier", () => {
@@ -159,3 +1186,148 @@ describe("Calculate Outcome", () => {
     expect(outcome.newPopulation).toBe(Math.floor(100 * mockScenario.choices.safe.multiplier));
   });
 });
+
+describe("Seeded RNG", () => {
+  test("same seed produces the same sequence", () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    for (let i = 0; i < 20; i++) {
+      expect(a()).toBe(b());
+    }
+  });
+
+  test("values are in [0, 1)", () => {
+    const rng = createRng(7);
+    for (let i = 0; i < 1000; i++) {
+      const value = rng();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  test("derived seeds differ per round", () => {
+    expect(deriveSeed(42, "round", 1)).not.toBe(deriveSeed(42, "round", 2));
+    expect(deriveSeed(42, "round", 1)).toBe(deriveSeed(42, "round", 1));
+  });
+
+  test("game codes and scenario order are reproducible from a seed", () => {
+    expect(generateGameCode(createRng(1))).toBe(generateGameCode(createRng(1)));
+    expect(getShuffledScenarioIds(createRng(1))).toEqual(getShuffledScenarioIds(createRng(1)));
+  });
+
+  test("shuffle keeps every scenario id", () => {
+    const ids = getShuffledScenarioIds(createRng(99));
+    expect([...ids].sort((a, b) => a - b)).toEqual(SCENARIOS.map((s) => s.id));
+  });
+});
+
+describe("Round Replay", () => {
+  const makePlayers = (): Player[] => [
+    { id: "host", name: "Host", population: INITIAL_POPULATION, isHost: true, hasChosen: false, isEliminated: false },
+    { id: "a", name: "Alice", population: INITIAL_POPULATION, isHost: false, hasChosen: false, isEliminated: false },
+    { id: "b", name: "Bob", population: INITIAL_POPULATION, isHost: false, hasChosen: false, isEliminated: false },
+  ];
+
+  const playGame = (seed: number, rounds: number) => {
+    let players = makePlayers();
+    const results: RoundResult[] = [];
+    for (let round = 1; round <= rounds; round++) {
+      const choices = new Map<string, "safe" | "risky">([
+        ["a", "risky"],
+        ["b", round % 2 === 0 ? "risky" : "safe"],
+      ]);
+      const { updatedPlayers, roundResult } = processRound(
+        players,
+        SCENARIOS[round - 1],
+        round,
+        choices,
+        { rng: createRoundRng(seed, round) }
+      );
+      players = updatedPlayers;
+      results.push(roundResult);
+    }
+    return results;
+  };
+
+  test("processRound is deterministic for a seeded round", () => {
+    expect(playGame(1234, 5)).toEqual(playGame(1234, 5));
+  });
+
+  test("replayGame reproduces recorded results from the seed", () => {
+    const recorded = playGame(2024, 8);
+    expect(replayGame(2024, recorded, SCENARIOS, null, "host")).toEqual(recorded);
+  });
+
+  test("replay with a different seed diverges", () => {
+    const recorded = playGame(2024, 8);
+    expect(replayGame(2025, recorded, SCENARIOS, null, "host")).not.toEqual(recorded);
+  });
+});
+
+describe("Player Secrets", () => {
+  test("tokens are long, URL-safe and unique", () => {
+    const tokens = new Set(Array.from({ length: 50 }, () => generateSecretToken()));
+    expect(tokens.size).toBe(50);
+    for (const token of tokens) {
+      expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    }
+  });
+
+  test("recovery PINs are 6 digits", () => {
+    for (let i = 0; i < 50; i++) {
+      expect(generateRecoveryPin()).toMatch(/^\d{6}$/);
+    }
+  });
+
+  test("secrets match only their own hash", () => {
+    const token = generateSecretToken();
+    const hash = hashSecret(token);
+    expect(hash).not.toContain(token);
+    expect(secretMatches(token, hash)).toBe(true);
+    expect(secretMatches(generateSecretToken(), hash)).toBe(false);
+  });
+
+  test("salted hashes differ per player", () => {
+    expect(hashSecret("123456", "player_a")).not.toBe(hashSecret("123456", "player_b"));
+    expect(secretMatches("123456", hashSecret("123456", "player_a"), "player_b")).toBe(false);
+  });
+
+  test("malformed stored hashes never match", () => {
+    expect(secretMatches("anything", "")).toBe(false);
+    expect(secretMatches("anything", "not-hex")).toBe(false);
+  });
+});
+
+describe("Name Filter", () => {
+  test("allows ordinary names", () => {
+    for (const name of ["Alice", "Bob 2", "Class Clown", "Grape", "Peacock", "Hitchcock", "Sasha"]) {
+      expect(isNameAllowed(name)).toBe(true);
+    }
+  });
+
+  test("allows real names that contain a blocked word inside them or across spaces", () => {
+    for (const name of [
+      "Nazir",
+      "Nazia",
+      "Kshitij",
+      "Yoshito",
+      "Fagan",
+      "Scunthorpe",
+      "Ash Ito",
+      "Ana Z Ima",
+    ]) {
+      expect(isNameAllowed(name)).toBe(true);
+    }
+  });
+
+  test("blocks profanity, including spacing and l33t spellings", () => {
+    for (const name of ["shit", "Sh1t", "F U C K", "b!tch", "big ass", "@ss", "Fuckface", "N A Z I"]) {
+      expect(isNameAllowed(name)).toBe(false);
+    }
+  });
+
+  test("ban keys ignore case, punctuation and l33t", () => {
+    expect(nameKey("B0B")).toBe(nameKey("bob"));
+    expect(nameKey("Mr. Bean")).toBe("mrbean");
+  });
+});
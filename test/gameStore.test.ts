@@ -0,0 +1,99 @@
+import { describe, expect, mock, test } from "bun:test";
+
+// A playing game whose resolve_round keeps reporting that a choice landed mid-roll
+const gameRow = {
+  code: "ABCDEF",
+  seed: 42,
+  phase: "playing",
+  current_round: 1,
+  total_rounds: 10,
+  current_scenario_id: 1,
+  round_start_time: new Date().toISOString(),
+  paused_time_remaining: null,
+  scenario_order: [1],
+  scenario_pack_id: null,
+  scenarios: null,
+  carrying_capacity: null,
+  round_duration: 30,
+  timer_mode: "fixed",
+  round_end_time: null,
+  results_delay: null,
+  banned_names: [],
+  late_join: "off",
+  allow_spectators: false,
+  teams: [],
+  team_decision: "majority",
+  teaching_mode: "off",
+  round_results: [],
+  created_at: new Date().toISOString(),
+};
+
+const playerRows = [
+  {
+    id: "host_1",
+    game_code: "ABCDEF",
+    name: "Host",
+    population: 100,
+    is_host: true,
+    has_chosen: false,
+    current_choice: null,
+    is_eliminated: false,
+    is_spectator: false,
+    team_id: null,
+    is_bot: false,
+    bot_personality: null,
+    created_at: new Date().toISOString(),
+  },
+  {
+    id: "player_1",
+    game_code: "ABCDEF",
+    name: "Ada",
+    population: 100,
+    is_host: false,
+    has_chosen: true,
+    current_choice: "a",
+    is_eliminated: false,
+    is_spectator: false,
+    team_id: null,
+    is_bot: false,
+    bot_personality: null,
+    created_at: new Date().toISOString(),
+  },
+];
+
+let resolveCalls = 0;
+
+// Just enough of the query builder for reads: chained filters, awaited lists and .single()
+function query(rows: object[]) {
+  const builder = {
+    select: () => builder,
+    eq: () => builder,
+    order: () => builder,
+    single: async () => ({ data: rows[0] ?? null, error: null }),
+    then: (resolve: (result: { data: object[]; error: null }) => unknown) =>
+      resolve({ data: rows, error: null }),
+  };
+  return builder;
+}
+
+mock.module("../src/utils/supabase/service", () => ({
+  createServiceClient: () => ({
+    from: (table: string) => query(table === "games" ? [gameRow] : playerRows),
+    rpc: async (fn: string) => {
+      if (fn === "resolve_round") resolveCalls++;
+      return { data: "stale", error: null };
+    },
+  }),
+}));
+
+const { endRound } = await import("../src/lib/gameStore");
+
+describe("Round Resolution", () => {
+  test("endRound reports failure when every resolve attempt goes stale", async () => {
+    resolveCalls = 0;
+    const result = await endRound("ABCDEF", "host_1");
+
+    expect(result).toBeNull();
+    expect(resolveCalls).toBe(3);
+  });
+});